@@ -428,6 +428,18 @@ class DataView extends HTMLElement {
         }
 
         /* Type Icon Column */
+        .data-group-row td {
+          padding-top: 12px;
+          font-weight: 600;
+          color: var(--vscode-descriptionForeground);
+          border-bottom: 1px solid var(--vscode-panel-border);
+        }
+
+        .data-group-row i {
+          margin-right: 6px;
+          vertical-align: text-bottom;
+        }
+
         .data-type-cell {
           display: flex;
           align-items: center;
@@ -705,7 +717,8 @@ class DataView extends HTMLElement {
         // Check both key and keyPath fields - data might use either
         const key = (row.key || '').toLowerCase();
         const keyPath = (row.keyPath || '').toLowerCase();
-        const matches = key.includes(q) || keyPath.includes(q);
+        const owner = (row.owner || '').toLowerCase();
+        const matches = key.includes(q) || keyPath.includes(q) || owner.includes(q);
         
         return matches;
       }) : 
@@ -739,8 +752,9 @@ class DataView extends HTMLElement {
       });
     }
 
-    // Sort by size (largest first)
-    filtered.sort((a, b) => (b.size || 0) - (a.size || 0));
+    // Sort by size (largest first); storage.scoped keys are grouped by owning script after the shared data
+    filtered.sort((a, b) =>
+      (a.owner || '').localeCompare(b.owner || '') || (b.size || 0) - (a.size || 0));
 
     this._filteredData = filtered;
     this.renderTable();
@@ -764,7 +778,34 @@ class DataView extends HTMLElement {
       return;
     }
 
-    const tableHTML = this._filteredData.map((row, index) => `
+    const hasOwners = this._filteredData.some(row => row.owner);
+    const tableHTML = this._filteredData.map((row, index) => {
+      const prev = this._filteredData[index - 1];
+      const groupHeader = hasOwners && (index === 0 || (prev.owner || '') !== (row.owner || ''))
+        ? this.renderGroupHeader(row.owner)
+        : '';
+      return groupHeader + this.renderRow(row, index);
+    }).join('');
+    
+    tbody.innerHTML = tableHTML;
+  }
+
+  renderGroupHeader(owner) {
+    return `
+      <tr class="data-group-row">
+        <td colspan="4">
+          <i class="codicon codicon-${owner ? 'symbol-namespace' : 'database'}"></i>
+          <span>${owner ? this.escapeHtml(owner) : this.getNlsText('dataSharedGroup', 'Shared')}</span>
+        </td>
+      </tr>
+    `;
+  }
+
+  renderRow(row, index) {
+    const key = row.key || row.keyPath || '';
+    // scoped key 顯示時去掉 @<command>/ 前綴（分組標題已標示擁有者）
+    const displayKey = row.owner && key.startsWith(`@${row.owner}/`) ? key.slice(row.owner.length + 2) : key;
+    return `
       <tr>
         <td>
           <div class="data-type-cell">
@@ -772,7 +813,7 @@ class DataView extends HTMLElement {
             <span>${this.escapeHtml(this.getTypeLabel(row))}</span>
           </div>
         </td>
-        <td class="data-key-cell">${this.escapeHtml(row.key || row.keyPath || '')}</td>
+        <td class="data-key-cell" title="${this.escapeHtml(key)}">${this.escapeHtml(displayKey)}</td>
         <td class="data-size-cell">${this.formatBytes(row.size || 0)}</td>
         <td class="data-actions-cell">
           <button 
@@ -787,9 +828,7 @@ class DataView extends HTMLElement {
           </button>
         </td>
       </tr>
-    `).join('');
-    
-    tbody.innerHTML = tableHTML;
+    `;
   }
 
   // ============================================================================
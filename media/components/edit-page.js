@@ -7,6 +7,9 @@
  * - 標籤和工具提示輸入
  * - Monaco Editor 整合
  * - 輸出面板與分割器
+ * - 進階設定（執行限制、隔離模式）
+ * - 權限宣告與同意狀態
+ * - 版本紀錄（diff 比較與單一項目還原）
  * - 草稿保存
  * - 事件處理
  */
@@ -20,6 +23,10 @@ class EditPageComponent extends HTMLElement {
     this.currentItem = null;
     this.selectedIcon = '';
     this.typeDefs = null;
+    this.permissionGrants = {};
+    this.revisions = null; // 目前項目的版本紀錄（新 → 舊）；null = 尚未載入
+    this.revisionPick = { a: null, b: 'editor' }; // diff 左 / 右：版本 id 或 'editor'
+    this.revisionDiff = null; // Monaco diff editor（開啟 History 時才建立）
     
     // UI 元素引用
     this.monacoEditor = null;
@@ -96,12 +103,22 @@ const util = require('util');
     
     // 更新 UI
     this.updateFormFields(label, item.tooltip || '', item.script || '');
+    this.updateAdvancedFields(item);
+    this.updatePermissionFields(item);
     this.updateIconDisplay();
+    this.resetRevisions();
+    // 新項目尚未儲存，沒有對應的 sbh:/scripts/ 檔案
+    const openFileBtn = this.querySelector('#open-file-btn');
+    if (openFileBtn) {
+      openFileBtn.disabled = index === null;
+    }
     
     // 更新 Monaco Editor
     if (this.monacoEditor) {
       this.monacoEditor.itemCommand = item.command;
+      this.monacoEditor.language = item.language === 'ts' ? 'typescript' : 'javascript';
       this.monacoEditor.value = item.script || '';
+      this.setDiagnostics([]);
       this.monacoEditor.typeDefs = this.typeDefs;
     }
 
@@ -131,9 +148,144 @@ const util = require('util');
       text: text,
       tooltip: tooltipInput ? tooltipInput.value : '',
       script: this.monacoEditor ? this.monacoEditor.value : '',
+      ...this.getAdvancedValues(),
+      permissions: this.getPermissionValues(),
+    };
+  }
+
+  // 獲取權限宣告；未勾選「限制權限」時回傳 undefined（不限制）
+  getPermissionValues() {
+    const enabled = this.querySelector('#perm-enabled');
+    if (!enabled || !enabled.checked) {
+      return undefined;
+    }
+    const checked = (id) => !!this.querySelector(id)?.checked;
+    const list = (id) => {
+      const value = (this.querySelector(id)?.value || '').trim();
+      if (value === '*') {
+        return true;
+      }
+      return value.split(',').map(s => s.trim()).filter(Boolean);
+    };
+    return {
+      files: ['global', 'workspace'].filter(scope => checked(`#perm-files-${scope}`)),
+      secret: list('#perm-secret'),
+      packages: checked('#perm-packages'),
+      network: checked('#perm-network'),
+      node: list('#perm-node'),
+      commands: list('#perm-commands'),
     };
   }
 
+  // 獲取進階設定（執行限制）；空白欄位回傳 undefined 代表使用預設
+  getAdvancedValues() {
+    const readMs = (id) => {
+      const input = this.querySelector(id);
+      if (!input || input.value.trim() === '') {
+        return undefined;
+      }
+      const n = Number(input.value);
+      return Number.isFinite(n) && n >= 0 ? Math.floor(n) : undefined;
+    };
+    const readText = (id) => {
+      const value = (this.querySelector(id)?.value || '').trim();
+      return value || undefined;
+    };
+    const priorityInput = this.querySelector('#edit-priority');
+    const priority = priorityInput && priorityInput.value.trim() !== '' ? Number(priorityInput.value) : NaN;
+    const alignmentSelect = this.querySelector('#edit-alignment');
+    const isolationSelect = this.querySelector('#edit-isolation');
+    const languageSelect = this.querySelector('#edit-language');
+    return {
+      alignment: alignmentSelect && alignmentSelect.value === 'right' ? 'right' : undefined,
+      priority: Number.isFinite(priority) ? priority : undefined,
+      name: readText('#edit-name'),
+      group: readText('#edit-group'),
+      tags: this.getTagsValue(),
+      when: readText('#edit-when'),
+      keybinding: readText('#edit-keybinding'),
+      timeoutMs: readMs('#edit-timeout-ms'),
+      maxSyncMs: readMs('#edit-max-sync-ms'),
+      isolation: isolationSelect && isolationSelect.value === 'worker' ? 'worker' : undefined,
+      language: languageSelect && languageSelect.value === 'ts' ? 'ts' : undefined,
+      library: readText('#edit-library'),
+      schedule: this.getScheduleValue(),
+      triggers: this.getTriggerValues(),
+      actions: this.getActionsValue(),
+    };
+  }
+
+  // 獲取標籤（逗號分隔）；去除空白與重複，最多 12 個
+  getTagsValue() {
+    const value = this.querySelector('#edit-tags')?.value || '';
+    const tags = [...new Set(value.split(',').map(t => t.trim()).filter(Boolean))].slice(0, 12);
+    return tags.length ? tags : undefined;
+  }
+
+  // 獲取動作（JSON 陣列）；空白 = 無動作，格式錯誤時保留原本的設定並標示欄位
+  getActionsValue() {
+    const input = this.querySelector('#edit-actions');
+    const text = (input?.value || '').trim();
+    input?.classList.remove('invalid');
+    if (!text) {
+      return undefined;
+    }
+    try {
+      const parsed = JSON.parse(text);
+      if (!Array.isArray(parsed)) {
+        throw new Error('not an array');
+      }
+      return parsed.length ? parsed : undefined;
+    } catch {
+      input?.classList.add('invalid');
+      return this.currentItem?.actions || undefined;
+    }
+  }
+
+  // 獲取排程；未選擇或值空白時回傳 undefined（格式由 host 端驗證）
+  getScheduleValue() {
+    const kind = this.querySelector('#edit-schedule-kind')?.value || '';
+    const value = (this.querySelector('#edit-schedule-value')?.value || '').trim();
+    if (!kind || !value) {
+      return undefined;
+    }
+    switch (kind) {
+      case 'interval':
+        return { kind, minutes: Number(value) };
+      case 'daily':
+        return { kind, at: value };
+      case 'cron':
+        return { kind, expr: value };
+      default:
+        return undefined;
+    }
+  }
+
+  // 獲取事件觸發條件；glob 只套用在文件相關事件（save / active editor）
+  getTriggerValues() {
+    const glob = (this.querySelector('#edit-trigger-glob')?.value || '').trim();
+    const triggers = Array.from(this.querySelectorAll('#edit-triggers input[data-trigger]'))
+      .filter(input => input.checked)
+      .map(input => {
+        const event = input.dataset.trigger;
+        const fileEvent = event === 'onDidSaveTextDocument' || event === 'onDidChangeActiveTextEditor';
+        return fileEvent && glob ? { event, glob } : { event };
+      });
+    return triggers.length ? triggers : undefined;
+  }
+
+  // 排程種類切換時更新輸入框提示
+  updateScheduleState() {
+    const kind = this.querySelector('#edit-schedule-kind')?.value || '';
+    const input = this.querySelector('#edit-schedule-value');
+    if (!input) {
+      return;
+    }
+    const placeholders = { interval: '15', daily: '09:00', cron: '*/30 9-18 * * mon-fri' };
+    input.disabled = !kind;
+    input.placeholder = placeholders[kind] || '';
+  }
+
   // 渲染組件 HTML
   render() {
     this.innerHTML = `
@@ -166,6 +318,9 @@ const util = require('util');
             <button type="button" id="stop-btn" class="edit-icon-btn" title="Stop" aria-label="Stop" data-nls="stop">
               <i class="codicon codicon-debug-stop"></i>
             </button>
+            <button type="button" id="open-file-btn" class="edit-icon-btn" title="Open in an editor tab" aria-label="Open in an editor tab" data-nls="openInEditor">
+              <i class="codicon codicon-go-to-file"></i>
+            </button>
             <button type="button" id="save-item-btn" class="edit-icon-btn" title="Save" aria-label="Save" data-nls="save">
               <i class="codicon codicon-save"></i>
             </button>
@@ -175,6 +330,178 @@ const util = require('util');
           </div>
         </div>
 
+        <details class="advanced-settings" id="advanced-settings">
+          <summary>
+            <i class="codicon codicon-settings-gear"></i>
+            <span data-nls="advancedSettings">Advanced Settings</span>
+          </summary>
+          <div class="advanced-body">
+            <div class="adv-field">
+              <label for="edit-alignment" data-nls="alignment">Position</label>
+              <select id="edit-alignment">
+                <option value="left" data-nls="alignmentLeft">Left</option>
+                <option value="right" data-nls="alignmentRight">Right</option>
+              </select>
+            </div>
+            <div class="adv-field">
+              <label for="edit-priority" data-nls="priority">Priority</label>
+              <input type="number" id="edit-priority" step="1">
+              <span class="adv-hint" data-nls="priorityHint">Higher values are placed further left (or further out on the right side). Empty = list order.</span>
+            </div>
+            <div class="adv-field">
+              <label for="edit-name" data-nls="itemName">Name</label>
+              <input type="text" id="edit-name">
+              <span class="adv-hint" data-nls="itemNameHint">Shown in the status bar context menu. Empty = label.</span>
+            </div>
+            <div class="adv-field">
+              <label for="edit-group" data-nls="group">Group</label>
+              <input type="text" id="edit-group">
+              <span class="adv-hint" data-nls="groupHint">Items in the same group sit next to each other in the status bar.</span>
+            </div>
+            <div class="adv-field">
+              <label for="edit-tags" data-nls="tags">Tags</label>
+              <input type="text" id="edit-tags" spellcheck="false" placeholder="git, build">
+              <span class="adv-hint" data-nls="tagsHint">Comma-separated, up to 12. The list can be filtered by tag and grouped into folders by the first tag.</span>
+            </div>
+            <div class="adv-field keybinding-field">
+              <label for="edit-keybinding" data-nls="keybinding">Keybinding</label>
+              <div class="adv-inline">
+                <input type="text" id="edit-keybinding" spellcheck="false" placeholder="ctrl+alt+t">
+                <button type="button" id="keybinding-add-btn" class="edit-icon-btn" title="Add to keybindings.json" aria-label="Add to keybindings.json" data-nls="keybindingAdd">
+                  <i class="codicon codicon-keyboard"></i>
+                </button>
+              </div>
+              <span class="adv-hint" data-nls="keybindingHint">Press a key combination with Ctrl / Alt / Cmd to record it. The button adds it to your keybindings.json, running statusBarHelper.runItem with { "command": "&lt;this item&gt;" }.</span>
+            </div>
+            <div class="adv-field when-field">
+              <label for="edit-when" data-nls="when">Show when</label>
+              <div class="adv-inline">
+                <input type="text" id="edit-when" spellcheck="false" placeholder="editorLangId == typescript && workspaceContains:package.json">
+                <button type="button" id="when-test-btn" class="edit-icon-btn" title="Test" aria-label="Test" data-nls="whenTest">
+                  <i class="codicon codicon-beaker"></i>
+                </button>
+              </div>
+              <span class="when-result" id="when-result"></span>
+              <span class="adv-hint" data-nls="whenHint">Hide the item unless the expression is true. Supports &&, ||, !, ==, !=, =~ /regex/, in / not in, workspaceContains:glob and keys such as editorLangId, resourceScheme, resourceExtname, workspaceFolderCount, or sbh.&lt;key&gt; set by statusBarHelper.v1.context.set.</span>
+            </div>
+            <div class="adv-field">
+              <label for="edit-timeout-ms" data-nls="timeoutMs">Run timeout (ms)</label>
+              <input type="number" id="edit-timeout-ms" min="0" step="1000" placeholder="0">
+              <span class="adv-hint" data-nls="timeoutMsHint">Stop the script after this long. Empty or 0 = unlimited.</span>
+            </div>
+            <div class="adv-field">
+              <label for="edit-max-sync-ms" data-nls="maxSyncMs">Max blocking time (ms)</label>
+              <input type="number" id="edit-max-sync-ms" min="0" step="500" placeholder="5000">
+              <span class="adv-hint" data-nls="maxSyncMsHint">Stop the script if one synchronous run blocks the extension host longer than this. Empty = 5000, 0 = off.</span>
+            </div>
+            <div class="adv-field">
+              <label for="edit-isolation" data-nls="isolation">Isolation</label>
+              <select id="edit-isolation">
+                <option value="vm" data-nls="isolationVm">Extension host (VM)</option>
+                <option value="worker" data-nls="isolationWorker">Worker thread</option>
+              </select>
+              <span class="adv-hint" data-nls="isolationHint">Worker thread keeps CPU-heavy scripts off the editor thread; only statusBarHelper.v1 and a limited vscode API (messages, commands, clipboard, openExternal) are available.</span>
+            </div>
+            <div class="adv-field">
+              <label for="edit-language" data-nls="scriptLanguage">Language</label>
+              <select id="edit-language">
+                <option value="js" data-nls="languageJs">JavaScript</option>
+                <option value="ts" data-nls="languageTs">TypeScript</option>
+              </select>
+              <span class="adv-hint" data-nls="scriptLanguageHint">TypeScript is type-checked against sbh.d.ts and the VS Code API when you save, and compiled to JavaScript before each run.</span>
+            </div>
+            <div class="adv-field">
+              <label for="edit-library" data-nls="libraryName">Library name</label>
+              <input type="text" id="edit-library" placeholder="git" pattern="[A-Za-z0-9][\\w.\\-]*(/[\\w.\\-]+)*">
+              <span class="adv-hint" data-nls="libraryNameHint">Set a name to turn this item into a shared library: it is not shown in the status bar, and other scripts load its exports with import { … } from 'sbh:lib/&lt;name&gt;'. Letters, digits, '.', '-', '_' and '/'.</span>
+            </div>
+            <div class="adv-field schedule-field">
+              <label for="edit-schedule-kind" data-nls="schedule">Schedule</label>
+              <div class="adv-inline">
+                <select id="edit-schedule-kind">
+                  <option value="" data-nls="scheduleNone">None</option>
+                  <option value="interval" data-nls="scheduleInterval">Every N minutes</option>
+                  <option value="daily" data-nls="scheduleDaily">Daily at (HH:MM)</option>
+                  <option value="cron" data-nls="scheduleCron">Cron expression</option>
+                </select>
+                <input type="text" id="edit-schedule-value" disabled>
+              </div>
+              <span class="adv-hint" data-nls="scheduleHint">Runs the script automatically (local time). Cron uses 5 fields: minute hour day month weekday. A run missed while VS Code was closed starts once on the next launch; a run is skipped while the previous one is still active.</span>
+            </div>
+            <div class="adv-field trigger-field" id="edit-triggers">
+              <span class="adv-label" data-nls="triggers">Triggers</span>
+              <div class="trigger-checks">
+                <label class="adv-check"><input type="checkbox" data-trigger="onDidSaveTextDocument"> <span data-nls="triggerSave">File saved</span></label>
+                <label class="adv-check"><input type="checkbox" data-trigger="onDidChangeActiveTextEditor"> <span data-nls="triggerActiveEditor">Active editor changed</span></label>
+                <label class="adv-check"><input type="checkbox" data-trigger="onDidOpenTerminal"> <span data-nls="triggerTerminal">Terminal opened</span></label>
+                <label class="adv-check"><input type="checkbox" data-trigger="onDidChangeGitBranch"> <span data-nls="triggerGitBranch">Git branch changed</span></label>
+                <label class="adv-check"><input type="checkbox" data-trigger="onDidChangeWindowState"> <span data-nls="triggerWindowFocus">Window focus changed</span></label>
+                <input type="text" id="edit-trigger-glob" placeholder="**/*.md">
+              </div>
+              <span class="adv-hint" data-nls="triggersHint">Starts the script when the event happens; read the event from statusBarHelper.v1.vm.trigger. The file pattern limits the file events. An event is skipped while the script is still running.</span>
+            </div>
+            <div class="adv-field actions-field">
+              <label for="edit-actions" data-nls="itemActions">Actions</label>
+              <textarea id="edit-actions" rows="3" spellcheck="false" placeholder='[{ "id": "staging", "label": "$(cloud-upload) Deploy to staging", "args": { "env": "staging" } }]'></textarea>
+              <span class="adv-hint" data-nls="actionsHint">JSON array of { id, label, description?, args? }. With actions, clicking the item opens a menu; the chosen action's args arrive as statusBarHelper.v1.vm.args[0] and its id as vm.action. Arguments passed to executeCommand(command, ...args) arrive as vm.args as well.</span>
+            </div>
+          </div>
+        </details>
+
+        <details class="advanced-settings permissions-settings" id="permissions-settings">
+          <summary>
+            <i class="codicon codicon-shield"></i>
+            <span data-nls="permissions">Permissions</span>
+            <span class="perm-status" id="perm-status"></span>
+          </summary>
+          <div class="advanced-body">
+            <label class="adv-check perm-enable">
+              <input type="checkbox" id="perm-enabled">
+              <span data-nls="permRestrict">Restrict this script to the permissions below</span>
+            </label>
+            <div class="perm-fields" id="perm-fields">
+              <div class="adv-field">
+                <span class="adv-label" data-nls="permFiles">Files</span>
+                <span class="perm-checks">
+                  <label class="adv-check"><input type="checkbox" id="perm-files-global"> global</label>
+                  <label class="adv-check"><input type="checkbox" id="perm-files-workspace"> workspace</label>
+                </span>
+              </div>
+              <div class="adv-field">
+                <label for="perm-secret" data-nls="permSecret">Secret keys</label>
+                <input type="text" id="perm-secret" placeholder="github.token, *">
+              </div>
+              <div class="adv-field">
+                <label for="perm-node" data-nls="permNode">Node modules</label>
+                <input type="text" id="perm-node" placeholder="path, crypto, *">
+              </div>
+              <div class="adv-field">
+                <label for="perm-commands" data-nls="permCommands">Commands</label>
+                <input type="text" id="perm-commands" placeholder="workbench.action.files.save, *">
+              </div>
+              <div class="adv-field">
+                <span class="perm-checks">
+                  <label class="adv-check"><input type="checkbox" id="perm-packages"> <span data-nls="permPackages">npm packages</span></label>
+                  <label class="adv-check"><input type="checkbox" id="perm-network"> <span data-nls="permNetwork">Network</span></label>
+                </span>
+              </div>
+              <span class="adv-hint" data-nls="permHint">Anything not listed is denied. Comma-separated lists; * allows all. Other extensions' commands need Commands; vscode.workspace.fs and terminals need the matching Node modules, openExternal needs Network. The script asks for consent on its first run and again whenever these or the script change.</span>
+            </div>
+          </div>
+        </details>
+
+        <details class="advanced-settings revisions-settings" id="revisions-settings">
+          <summary>
+            <i class="codicon codicon-history"></i>
+            <span data-nls="history">History</span>
+            <span class="perm-status" id="revisions-status"></span>
+          </summary>
+          <div class="revisions-body">
+            <div class="revisions-list" id="revisions-list"></div>
+            <div class="revisions-diff" id="revisions-diff"></div>
+          </div>
+        </details>
+
         <div class="eo-stack" id="eo-stack">
           <monaco-editor 
             id="monaco-editor-component" 
@@ -261,6 +588,155 @@ const util = require('util');
       this.eventHandlers.set('tooltip-input', tooltipHandler);
     }
 
+    // 進階設定欄位
+    const advancedInputs = {
+      alignment: '#edit-alignment',
+      priority: '#edit-priority',
+      name: '#edit-name',
+      group: '#edit-group',
+      tags: '#edit-tags',
+      when: '#edit-when',
+      keybinding: '#edit-keybinding',
+      actions: '#edit-actions',
+      timeoutMs: '#edit-timeout-ms',
+      maxSyncMs: '#edit-max-sync-ms',
+      isolation: '#edit-isolation',
+      language: '#edit-language',
+      library: '#edit-library',
+    };
+    Object.entries(advancedInputs).forEach(([field, selector]) => {
+      const input = this.querySelector(selector);
+      if (!input) {
+        return;
+      }
+      const handler = () => {
+        this.dispatchEvent(new CustomEvent('field-changed', {
+          detail: {
+            field,
+            value: this.getAdvancedValues()[field],
+            item: this.currentItem
+          }
+        }));
+      };
+      input.addEventListener(input.tagName === 'SELECT' ? 'change' : 'input', handler);
+      this.eventHandlers.set(`${field}-input`, handler);
+    });
+
+    // 切換語言：Monaco 改用對應的語言服務，舊的型別檢查結果不再適用
+    const languageSelect = this.querySelector('#edit-language');
+    if (languageSelect) {
+      const languageHandler = () => {
+        if (this.monacoEditor) {
+          this.monacoEditor.language = languageSelect.value === 'ts' ? 'typescript' : 'javascript';
+        }
+        this.setDiagnostics([]);
+      };
+      languageSelect.addEventListener('change', languageHandler);
+      this.eventHandlers.set('language-change', languageHandler);
+    }
+
+    // 快捷鍵錄製：按住 Ctrl / Alt / Cmd 時記錄組合鍵，其餘按鍵照常輸入（可手動輸入 chord）
+    const keybindingInput = this.querySelector('#edit-keybinding');
+    if (keybindingInput) {
+      const recordHandler = (e) => {
+        const key = this.keybindingFromEvent(e);
+        if (!key) {
+          return;
+        }
+        e.preventDefault();
+        keybindingInput.value = key;
+        keybindingInput.dispatchEvent(new Event('input'));
+      };
+      keybindingInput.addEventListener('keydown', recordHandler);
+      this.eventHandlers.set('keybinding-record', recordHandler);
+    }
+
+    // 排程欄位（種類 + 值）
+    const scheduleKind = this.querySelector('#edit-schedule-kind');
+    const scheduleValue = this.querySelector('#edit-schedule-value');
+    if (scheduleKind && scheduleValue) {
+      const scheduleHandler = () => {
+        this.updateScheduleState();
+        this.dispatchEvent(new CustomEvent('field-changed', {
+          detail: {
+            field: 'schedule',
+            value: this.getScheduleValue(),
+            item: this.currentItem
+          }
+        }));
+      };
+      scheduleKind.addEventListener('change', scheduleHandler);
+      scheduleValue.addEventListener('input', scheduleHandler);
+      this.eventHandlers.set('schedule-input', scheduleHandler);
+    }
+
+    // 事件觸發欄位
+    const triggerFields = this.querySelector('#edit-triggers');
+    if (triggerFields) {
+      const triggerHandler = () => {
+        this.dispatchEvent(new CustomEvent('field-changed', {
+          detail: {
+            field: 'triggers',
+            value: this.getTriggerValues(),
+            item: this.currentItem
+          }
+        }));
+      };
+      triggerFields.addEventListener('input', triggerHandler);
+      triggerFields.addEventListener('change', triggerHandler);
+      this.eventHandlers.set('triggers-input', triggerHandler);
+    }
+
+    // 權限欄位
+    const permissionFields = this.querySelector('#permissions-settings .advanced-body');
+    if (permissionFields) {
+      const permissionHandler = () => {
+        this.updatePermissionState();
+        this.dispatchEvent(new CustomEvent('field-changed', {
+          detail: {
+            field: 'permissions',
+            value: this.getPermissionValues(),
+            item: this.currentItem
+          }
+        }));
+      };
+      permissionFields.addEventListener('input', permissionHandler);
+      permissionFields.addEventListener('change', permissionHandler);
+      this.eventHandlers.set('permissions-input', permissionHandler);
+    }
+
+    // 版本紀錄：展開時載入；選擇 A / B 時更新 diff
+    const revisionsDetails = this.querySelector('#revisions-settings');
+    if (revisionsDetails) {
+      const revisionsToggle = () => {
+        if (revisionsDetails.open) {
+          this.requestRevisions();
+        }
+      };
+      revisionsDetails.addEventListener('toggle', revisionsToggle);
+      this.eventHandlers.set('revisions-toggle', revisionsToggle);
+    }
+    const revisionsList = this.querySelector('#revisions-list');
+    if (revisionsList) {
+      const pickHandler = (e) => {
+        const radio = e.target.closest('input[type="radio"]');
+        if (!radio) {
+          return;
+        }
+        this.revisionPick[radio.name === 'rev-a' ? 'a' : 'b'] = radio.value;
+        this.updateRevisionDiff();
+      };
+      revisionsList.addEventListener('change', pickHandler);
+      this.eventHandlers.set('revisions-pick', pickHandler);
+    }
+
+    // 進階設定 / 權限展開收合時重新計算編輯器高度
+    this.querySelectorAll('details.advanced-settings').forEach((details) => {
+      const toggleHandler = () => this.applySplitLayout();
+      details.addEventListener('toggle', toggleHandler);
+      this.eventHandlers.set(`${details.id}-toggle`, toggleHandler);
+    });
+
     // 按鈕事件
     this.addEventListener('click', this.handleButtonClick.bind(this));
 
@@ -272,6 +748,20 @@ const util = require('util');
       this.eventHandlers.set('output-toggle', toggleHandler);
     }
 
+    // 輸出中的錯誤位置（sbh://<command>.js:行:欄）
+    const runOutput = this.querySelector('#run-output');
+    if (runOutput) {
+      const outputLinkHandler = (e) => {
+        const link = e.target.closest('a.output-link');
+        if (link) {
+          e.preventDefault();
+          this.handleOutputLink(link.dataset);
+        }
+      };
+      runOutput.addEventListener('click', outputLinkHandler);
+      this.eventHandlers.set('output-link', outputLinkHandler);
+    }
+
     // 窗口調整事件
     const resizeHandler = () => this.layoutEditor();
     window.addEventListener('resize', resizeHandler, { passive: true });
@@ -285,6 +775,11 @@ const util = require('util');
       return;
     }
 
+    if (button.dataset.restoreId) {
+      this.handleRestoreRevision(button.dataset.restoreId);
+      return;
+    }
+
     switch (button.id) {
       case 'save-item-btn':
         this.handleSave();
@@ -298,6 +793,15 @@ const util = require('util');
       case 'stop-btn':
         this.handleStop();
         break;
+      case 'when-test-btn':
+        this.handleTestWhen();
+        break;
+      case 'keybinding-add-btn':
+        this.handleAddKeybinding();
+        break;
+      case 'open-file-btn':
+        this.handleOpenFile();
+        break;
     }
   }
 
@@ -352,7 +856,8 @@ const util = require('util');
     this.dispatchEvent(new CustomEvent('run-script', {
       detail: {
         script,
-        item: this.currentItem
+        item: this.currentItem,
+        options: { ...this.getAdvancedValues(), permissions: this.getPermissionValues() }
       }
     }));
   }
@@ -366,6 +871,310 @@ const util = require('util');
     }));
   }
 
+  // 把快捷鍵寫入 keybindings.json（由 host 開啟檔案並插入）
+  handleAddKeybinding() {
+    const key = (this.querySelector('#edit-keybinding')?.value || '').trim();
+    if (!key || !this.currentItem) {
+      this.querySelector('#edit-keybinding')?.focus();
+      return;
+    }
+    this.dispatchEvent(new CustomEvent('add-keybinding', {
+      detail: {
+        command: this.currentItem.command,
+        key
+      }
+    }));
+  }
+
+  // keydown → VS Code 快捷鍵字串（例如 ctrl+alt+t）；沒有按住 Ctrl / Alt / Cmd 或只按修飾鍵時回傳 null
+  keybindingFromEvent(e) {
+    if (!e.ctrlKey && !e.altKey && !e.metaKey) {
+      return null;
+    }
+    const named = {
+      Space: 'space', Enter: 'enter', Escape: 'escape', Tab: 'tab', Backspace: 'backspace', Delete: 'delete', Insert: 'insert',
+      Home: 'home', End: 'end', PageUp: 'pageup', PageDown: 'pagedown',
+      ArrowLeft: 'left', ArrowRight: 'right', ArrowUp: 'up', ArrowDown: 'down',
+      Backquote: '`', Minus: '-', Equal: '=', BracketLeft: '[', BracketRight: ']', Backslash: '\\',
+      Semicolon: ';', Quote: "'", Comma: ',', Period: '.', Slash: '/',
+    };
+    const code = e.code || '';
+    const m = /^(?:Key([A-Z])|Digit(\d)|Numpad(\d)|(F\d{1,2}))$/.exec(code);
+    const key = m ? (m[1] || m[2] || (m[3] !== undefined ? `numpad${m[3]}` : m[4])).toLowerCase() : named[code];
+    if (!key) {
+      return null;
+    }
+    const isMac = /Mac/i.test(navigator.platform || navigator.userAgent);
+    return [
+      e.ctrlKey && 'ctrl',
+      e.shiftKey && 'shift',
+      e.altKey && 'alt',
+      e.metaKey && (isMac ? 'cmd' : 'win'),
+      key,
+    ].filter(Boolean).join('+');
+  }
+
+  // 測試 when 條件（由 host 以目前的編輯器 / 工作區狀態計算，結果經 showWhenResult 顯示）
+  handleTestWhen() {
+    const result = this.querySelector('#when-result');
+    if (result) {
+      result.className = 'when-result';
+      result.textContent = '…';
+    }
+    this.dispatchEvent(new CustomEvent('test-when', {
+      detail: {
+        expr: (this.querySelector('#edit-when')?.value || '').trim()
+      }
+    }));
+  }
+
+  // 顯示 host 端型別檢查（TypeScript 項目存檔時）的結果；空陣列 = 清除
+  setDiagnostics(diagnostics) {
+    const model = this.monacoEditor?.getEditor?.()?.getModel();
+    if (!model || !window.monaco) {
+      return;
+    }
+    monaco.editor.setModelMarkers(model, 'sbh-tsc', (diagnostics || []).map(d => ({
+      startLineNumber: d.line,
+      startColumn: d.column,
+      endLineNumber: d.endLine,
+      endColumn: d.endColumn,
+      message: d.message,
+      severity: d.severity === 'error' ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning,
+      code: String(d.code),
+      source: 'ts',
+    })));
+  }
+
+  // 以 sbh:/scripts/<command>.js 在編輯器分頁開啟（內容為已儲存的腳本）
+  handleOpenFile() {
+    if (!this.currentItem || this.currentEditingIndex === null) {
+      return;
+    }
+    this.dispatchEvent(new CustomEvent('open-script-file', {
+      detail: {
+        command: this.currentItem.command,
+        hasUnsaved: this.hasUnsavedChanges()
+      }
+    }));
+  }
+
+  // ========== 版本紀錄 ==========
+
+  // 已儲存的項目才有版本紀錄
+  requestRevisions() {
+    if (!this.currentItem || this.currentEditingIndex === null) {
+      this.setRevisions(this.currentItem?.command, []);
+      return;
+    }
+    this.dispatchEvent(new CustomEvent('load-revisions', {
+      detail: { command: this.currentItem.command }
+    }));
+  }
+
+  // 切換項目時清空；History 開著時重新載入
+  resetRevisions() {
+    this.revisions = null;
+    this.revisionPick = { a: null, b: 'editor' };
+    this.disposeRevisionDiff();
+    const list = this.querySelector('#revisions-list');
+    const status = this.querySelector('#revisions-status');
+    if (list) {
+      list.innerHTML = '';
+    }
+    if (status) {
+      status.textContent = '';
+    }
+    if (this.querySelector('#revisions-settings')?.open) {
+      this.requestRevisions();
+    }
+  }
+
+  // host 回傳的版本清單（新 → 舊）
+  setRevisions(command, revisions, error) {
+    if (!this.currentItem || command !== this.currentItem.command) {
+      return;
+    }
+    const previous = this.revisions;
+    this.revisions = Array.isArray(revisions) ? revisions : [];
+    const ids = new Set(this.revisions.map(r => r.id));
+    // 預設：A = 最近儲存的版本、B = 編輯器目前內容；新增版本時 A 跟著移到最新
+    if (!previous || !ids.has(this.revisionPick.a) || (previous[0] && this.revisionPick.a === previous[0].id)) {
+      this.revisionPick.a = this.revisions[0]?.id || 'editor';
+    }
+    if (this.revisionPick.b !== 'editor' && !ids.has(this.revisionPick.b)) {
+      this.revisionPick.b = 'editor';
+    }
+    this.renderRevisions(error);
+    this.updateRevisionDiff();
+  }
+
+  // host 通知某個項目新增了版本
+  revisionsChanged(command) {
+    const details = this.querySelector('#revisions-settings');
+    if (details && details.open && this.currentItem && this.currentItem.command === command) {
+      this.requestRevisions();
+    }
+  }
+
+  renderRevisions(error) {
+    const list = this.querySelector('#revisions-list');
+    const status = this.querySelector('#revisions-status');
+    if (!list) {
+      return;
+    }
+    const revisions = this.revisions || [];
+    if (status) {
+      status.textContent = revisions.length ? String(revisions.length) : '';
+    }
+    if (error || !revisions.length) {
+      const text = error
+        || (this.currentEditingIndex === null
+          ? this.getNlsText('revisionsUnsaved', 'Save the item to start its history.')
+          : this.getNlsText('revisionsEmpty', 'No saved versions yet.'));
+      list.innerHTML = `<div class="revisions-empty">${this.escapeHtml(text)}</div>`;
+      return;
+    }
+    const radio = (side, value) =>
+      `<input type="radio" name="rev-${side}" value="${value}" ${this.revisionPick[side] === value ? 'checked' : ''}>`;
+    const rows = revisions.map((r, i) => {
+      const note = r.baseline
+        ? this.getNlsText('revisionBaseline', 'before history')
+        : r.restoredFrom
+          ? this.getNlsText('revisionRestored', 'same as an earlier version')
+          : '';
+      return `
+        <tr>
+          <td>${radio('a', r.id)}</td>
+          <td>${radio('b', r.id)}</td>
+          <td>${this.escapeHtml(new Date(r.ts).toLocaleString())}</td>
+          <td class="mono">${this.escapeHtml(r.hash)}</td>
+          <td>${this.escapeHtml(this.formatSize(r.size))}</td>
+          <td class="revision-note">${this.escapeHtml(note)}</td>
+          <td>
+            ${i === 0 ? '' : `
+            <button type="button" class="edit-icon-btn" data-restore-id="${this.escapeHtml(r.id)}"
+                    title="${this.escapeHtml(this.getNlsText('restoreRevision', 'Restore this version'))}">
+              <i class="codicon codicon-discard"></i>
+            </button>`}
+          </td>
+        </tr>
+      `;
+    }).join('');
+    list.innerHTML = `
+      <table class="revisions-table">
+        <thead>
+          <tr>
+            <th>A</th>
+            <th>B</th>
+            <th>${this.escapeHtml(this.getNlsText('revisionSaved', 'Saved'))}</th>
+            <th>Hash</th>
+            <th>${this.escapeHtml(this.getNlsText('revisionSize', 'Size'))}</th>
+            <th></th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          <tr>
+            <td>${radio('a', 'editor')}</td>
+            <td>${radio('b', 'editor')}</td>
+            <td colspan="5">${this.escapeHtml(this.getNlsText('revisionEditor', 'Current editor content'))}</td>
+          </tr>
+          ${rows}
+        </tbody>
+      </table>
+    `;
+  }
+
+  revisionText(id) {
+    if (id === 'editor') {
+      return this.monacoEditor ? this.monacoEditor.value : '';
+    }
+    const revision = (this.revisions || []).find(r => r.id === id);
+    return revision ? revision.script : '';
+  }
+
+  // A（左）與 B（右）的 side-by-side diff
+  updateRevisionDiff() {
+    const container = this.querySelector('#revisions-diff');
+    const details = this.querySelector('#revisions-settings');
+    if (!container || !details || !details.open || !window.monaco || !(this.revisions || []).length) {
+      this.disposeRevisionDiff();
+      return;
+    }
+    if (!this.revisionDiff) {
+      this.revisionDiff = window.monaco.editor.createDiffEditor(container, {
+        readOnly: true,
+        originalEditable: false,
+        renderSideBySide: true,
+        automaticLayout: true,
+        scrollBeyondLastLine: false,
+        minimap: { enabled: false },
+        theme: document.body.classList.contains('vscode-light') ? 'vs' : 'vs-dark',
+      });
+    }
+    const old = this.revisionDiff.getModel();
+    this.revisionDiff.setModel({
+      original: window.monaco.editor.createModel(this.revisionText(this.revisionPick.a), 'javascript'),
+      modified: window.monaco.editor.createModel(this.revisionText(this.revisionPick.b), 'javascript'),
+    });
+    if (old) {
+      old.original.dispose();
+      old.modified.dispose();
+    }
+  }
+
+  disposeRevisionDiff() {
+    if (!this.revisionDiff) {
+      return;
+    }
+    const model = this.revisionDiff.getModel();
+    this.revisionDiff.dispose();
+    if (model) {
+      model.original.dispose();
+      model.modified.dispose();
+    }
+    this.revisionDiff = null;
+  }
+
+  // 還原由 settings.html 確認後送給 host（只改寫這個項目的腳本）
+  handleRestoreRevision(id) {
+    const revision = (this.revisions || []).find(r => r.id === id);
+    if (!revision || !this.currentItem) {
+      return;
+    }
+    this.dispatchEvent(new CustomEvent('restore-revision', {
+      detail: {
+        command: this.currentItem.command,
+        id,
+        ts: revision.ts,
+        hasUnsaved: this.hasUnsavedChanges()
+      }
+    }));
+  }
+
+  formatSize(bytes) {
+    return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+  }
+
+  escapeHtml(text) {
+    return String(text ?? '').replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]));
+  }
+
+  showWhenResult({ value, error, context }) {
+    const result = this.querySelector('#when-result');
+    if (!result) {
+      return;
+    }
+    result.className = `when-result ${error ? 'is-error' : value ? 'is-true' : 'is-false'}`;
+    result.textContent = error
+      ? error
+      : value ? this.getNlsText('whenTrue', 'true: the item is shown') : this.getNlsText('whenFalse', 'false: the item is hidden');
+    result.title = context
+      ? Object.entries(context).map(([k, v]) => `${k} = ${v === undefined ? '(undefined)' : JSON.stringify(v)}`).join('\n')
+      : '';
+  }
+
   // 檢查是否有未保存的更改
   hasUnsavedChanges() {
     if (!this.currentItem) {
@@ -377,6 +1186,22 @@ const util = require('util');
       text: this.currentItem.text || '',
       tooltip: this.currentItem.tooltip || '',
       script: this.currentItem.script || '',
+      alignment: this.currentItem.alignment === 'right' ? 'right' : undefined,
+      priority: this.currentItem.priority,
+      name: this.currentItem.name || undefined,
+      group: this.currentItem.group || undefined,
+      tags: Array.isArray(this.currentItem.tags) && this.currentItem.tags.length ? this.currentItem.tags : undefined,
+      when: this.currentItem.when || undefined,
+      keybinding: this.currentItem.keybinding || undefined,
+      timeoutMs: this.currentItem.timeoutMs,
+      maxSyncMs: this.currentItem.maxSyncMs,
+      isolation: this.currentItem.isolation === 'worker' ? 'worker' : undefined,
+      language: this.currentItem.language === 'ts' ? 'ts' : undefined,
+      library: this.currentItem.library || undefined,
+      schedule: this.currentItem.schedule || undefined,
+      triggers: this.currentItem.triggers || undefined,
+      actions: this.currentItem.actions || undefined,
+      permissions: this.currentItem.permissions || undefined,
     };
     
     return JSON.stringify(current) !== JSON.stringify(original);
@@ -395,6 +1220,145 @@ const util = require('util');
     }
   }
 
+  // 更新進階設定欄位
+  updateAdvancedFields(item) {
+    const setValue = (id, value) => {
+      const el = this.querySelector(id);
+      if (el) {
+        el.value = value ?? '';
+      }
+    };
+    setValue('#edit-alignment', item.alignment === 'right' ? 'right' : 'left');
+    setValue('#edit-priority', item.priority);
+    setValue('#edit-name', item.name);
+    setValue('#edit-group', item.group);
+    setValue('#edit-tags', Array.isArray(item.tags) ? item.tags.join(', ') : '');
+    setValue('#edit-when', item.when);
+    setValue('#edit-keybinding', item.keybinding);
+    const whenResult = this.querySelector('#when-result');
+    if (whenResult) {
+      whenResult.className = 'when-result';
+      whenResult.textContent = '';
+    }
+
+    const timeoutInput = this.querySelector('#edit-timeout-ms');
+    const maxSyncInput = this.querySelector('#edit-max-sync-ms');
+    
+    if (timeoutInput) {
+      timeoutInput.value = item.timeoutMs ?? '';
+    }
+    if (maxSyncInput) {
+      maxSyncInput.value = item.maxSyncMs ?? '';
+    }
+    const isolationSelect = this.querySelector('#edit-isolation');
+    if (isolationSelect) {
+      isolationSelect.value = item.isolation === 'worker' ? 'worker' : 'vm';
+    }
+    const languageSelect = this.querySelector('#edit-language');
+    if (languageSelect) {
+      languageSelect.value = item.language === 'ts' ? 'ts' : 'js';
+    }
+    const libraryInput = this.querySelector('#edit-library');
+    if (libraryInput) {
+      libraryInput.value = item.library || '';
+    }
+    const schedule = item.schedule;
+    const scheduleKind = this.querySelector('#edit-schedule-kind');
+    const scheduleValue = this.querySelector('#edit-schedule-value');
+    if (scheduleKind && scheduleValue) {
+      scheduleKind.value = schedule ? schedule.kind : '';
+      scheduleValue.value = !schedule ? ''
+        : schedule.kind === 'interval' ? String(schedule.minutes)
+        : schedule.kind === 'daily' ? schedule.at
+        : schedule.expr;
+      this.updateScheduleState();
+    }
+    const triggers = Array.isArray(item.triggers) ? item.triggers : [];
+    this.querySelectorAll('#edit-triggers input[data-trigger]').forEach(input => {
+      input.checked = triggers.some(t => t.event === input.dataset.trigger);
+    });
+    const triggerGlob = this.querySelector('#edit-trigger-glob');
+    if (triggerGlob) {
+      triggerGlob.value = (triggers.find(t => t.glob) || {}).glob || '';
+    }
+    const actionsInput = this.querySelector('#edit-actions');
+    const actions = Array.isArray(item.actions) ? item.actions : [];
+    if (actionsInput) {
+      actionsInput.value = actions.length ? JSON.stringify(actions, null, 2) : '';
+      actionsInput.classList.remove('invalid');
+    }
+
+    // 有自訂設定時預設展開，方便確認
+    const advanced = this.querySelector('#advanced-settings');
+    if (advanced) {
+      advanced.open = item.alignment === 'right' || item.priority !== undefined || !!item.name || !!item.group || !!item.when || !!item.keybinding
+        || item.timeoutMs !== undefined || item.maxSyncMs !== undefined || item.isolation === 'worker' || item.language === 'ts' || !!item.library || !!schedule || triggers.length > 0 || actions.length > 0;
+    }
+  }
+
+  // 更新權限欄位
+  updatePermissionFields(item) {
+    const perms = item.permissions;
+    const setChecked = (id, value) => {
+      const el = this.querySelector(id);
+      if (el) {
+        el.checked = !!value;
+      }
+    };
+    const setList = (id, value) => {
+      const el = this.querySelector(id);
+      if (el) {
+        el.value = value === true ? '*' : (Array.isArray(value) ? value.join(', ') : '');
+      }
+    };
+    const files = perms?.files === true ? ['global', 'workspace'] : (perms?.files || []);
+
+    setChecked('#perm-enabled', !!perms);
+    setChecked('#perm-files-global', files.includes('global'));
+    setChecked('#perm-files-workspace', files.includes('workspace'));
+    setChecked('#perm-packages', perms?.packages);
+    setChecked('#perm-network', perms?.network);
+    setList('#perm-secret', perms?.secret);
+    setList('#perm-node', perms?.node);
+    setList('#perm-commands', perms?.commands);
+
+    const details = this.querySelector('#permissions-settings');
+    if (details) {
+      details.open = !!perms;
+    }
+    this.updatePermissionState();
+  }
+
+  // 更新權限區塊的啟用狀態與同意狀態
+  updatePermissionState() {
+    const enabled = !!this.querySelector('#perm-enabled')?.checked;
+    const fields = this.querySelector('#perm-fields');
+    if (fields) {
+      fields.classList.toggle('disabled', !enabled);
+      fields.querySelectorAll('input').forEach(el => { el.disabled = !enabled; });
+    }
+
+    const statusEl = this.querySelector('#perm-status');
+    if (!statusEl) {
+      return;
+    }
+    const grant = this.currentItem ? this.permissionGrants[this.currentItem.command] : null;
+    if (!enabled) {
+      statusEl.textContent = this.getNlsText('permUnrestricted', 'Unrestricted');
+    } else if (grant && JSON.stringify(this.getPermissionValues()) === JSON.stringify(this.currentItem?.permissions)) {
+      statusEl.textContent = this.getNlsText('permGrantedAt', 'Granted {date}')
+        .replace('{date}', new Date(grant.at).toLocaleString());
+    } else {
+      statusEl.textContent = this.getNlsText('permNotGranted', 'Consent requested on next run');
+    }
+  }
+
+  // 設置已同意的權限紀錄（command → { fingerprint, at }）
+  setPermissionGrants(grants) {
+    this.permissionGrants = grants || {};
+    this.updatePermissionState();
+  }
+
   // 更新圖示顯示
   updateIconDisplay() {
     const iconEl = this.querySelector('#selected-icon');
@@ -727,18 +1691,72 @@ const util = require('util');
     }
   }
 
-  // 添加輸出內容
+  // 添加輸出內容（錯誤位置轉成可點擊的連結）
   appendOutput(content) {
     const outputEl = this.querySelector('#run-output');
-    if (outputEl) {
-      outputEl.textContent += content;
+    if (!outputEl) {
+      return;
+    }
+    const text = String(content);
+    const re = /sbh:\/\/([^\s:()]+?)\.(?:js|ts):(\d+)(?::(\d+))?/g;
+    let last = 0;
+    let m;
+    while ((m = re.exec(text))) {
+      if (m.index > last) {
+        outputEl.appendChild(document.createTextNode(text.slice(last, m.index)));
+      }
+      const link = document.createElement('a');
+      link.className = 'output-link';
+      link.href = '#';
+      link.textContent = m[0];
+      let target = m[1];
+      try { target = decodeURIComponent(target); } catch {}
+      if (target.startsWith('lib/')) {
+        link.dataset.library = target.slice(4);
+      } else {
+        link.dataset.command = target;
+      }
+      link.dataset.line = m[2];
+      link.dataset.column = m[3] || '1';
+      outputEl.appendChild(link);
+      last = re.lastIndex;
+    }
+    if (last < text.length) {
+      outputEl.appendChild(document.createTextNode(text.slice(last)));
+    }
+  }
+
+  // 點擊錯誤位置：目前項目直接跳行，其他項目 / 函式庫交給 settings 開啟
+  handleOutputLink({ command, library, line, column }) {
+    const lineNumber = Number(line) || 1;
+    const col = Number(column) || 1;
+    const item = this.currentItem;
+    const isCurrent = item && (library ? item.library === library : item.command === command);
+    if (isCurrent) {
+      this.revealPosition(lineNumber, col);
+      return;
+    }
+    this.dispatchEvent(new CustomEvent('goto-script', {
+      detail: { command, library, line: lineNumber, column: col }
+    }));
+  }
+
+  // 將游標移到指定位置（1-based）
+  revealPosition(line, column = 1) {
+    const editor = this.monacoEditor && this.monacoEditor.getEditor();
+    if (!editor) {
+      return;
     }
+    editor.revealLineInCenter(line);
+    editor.setPosition({ lineNumber: line, column });
+    editor.focus();
   }
 
   // 清理資源
   cleanup() {
     // 關閉圖示下拉選單
     this.closeIconDropdown();
+    this.disposeRevisionDiff();
     
     // 清理事件監聽器
     this.eventHandlers.forEach((handler, key) => {
@@ -8,6 +8,7 @@
  * - Action buttons (run/stop/edit/delete)
  * - Visibility and auto-run toggles
  * - Command copying functionality
+ * - Tag filter chips, folders by tag and bulk actions on selected items
  */
 
 // Prevent duplicate declarations
@@ -24,6 +25,16 @@ class ListViewComponent extends HTMLElement {
     this._items = [];
     this._filterText = '';
     this._runningCommands = new Set();
+    this._runHistory = {}; // command → { lastRun, lastError }
+    this._nextRuns = {}; // command → 下次排程執行時間（ms）
+    this._workspaceItems = []; // .vscode/ 定義的項目（唯讀）
+    this._actionsMenu = null; // 開啟中的動作下拉選單
+    this._activeTags = new Set(); // 標籤篩選（項目須包含所有選取的標籤）
+    this._groupByTag = false; // 依第一個標籤分成資料夾
+    this._collapsedTags = new Set(); // 收合的資料夾（'' = 未分類）
+    this._toolbarTags = []; // 工具列上的標籤（data-tag-index 對應）
+    this._folderTags = []; // 目前的資料夾（data-folder-index 對應）
+    this._selected = new Set(); // 勾選的項目 command（批次操作）
     this._nlsData = {};
     this._codiconsUri = '';
     
@@ -34,7 +45,10 @@ class ListViewComponent extends HTMLElement {
       drop: this._handleDrop.bind(this),
       itemAction: this._handleItemAction.bind(this),
       toggleChange: this._handleToggleChange.bind(this),
-      copyCommand: this._handleCopyCommand.bind(this)
+      copyCommand: this._handleCopyCommand.bind(this),
+      closeActionsMenu: this._closeActionsMenu.bind(this),
+      toolbarClick: this._handleToolbarClick.bind(this),
+      selectAll: this._handleSelectAll.bind(this)
     };
     
     this._setupShadowDOM();
@@ -115,6 +129,58 @@ class ListViewComponent extends HTMLElement {
     this._render();
   }
 
+  // 各項目的上次執行 / 上次錯誤（host 的 runHistory:set）
+  get runHistory() {
+    return this._runHistory;
+  }
+
+  set runHistory(value) {
+    this._runHistory = value && typeof value === 'object' ? value : {};
+    this._render();
+  }
+
+  // 排程項目的下次執行時間（host 的 schedule:set）
+  get nextRuns() {
+    return this._nextRuns;
+  }
+
+  set nextRuns(value) {
+    this._nextRuns = value && typeof value === 'object' ? value : {};
+    this._render();
+  }
+
+  // 工作區項目（host 的 workspaceItems:set），在全域項目之後唯讀顯示
+  get workspaceItems() {
+    return this._workspaceItems;
+  }
+
+  set workspaceItems(value) {
+    this._workspaceItems = Array.isArray(value) ? value : [];
+    this._render();
+  }
+
+  // 標籤篩選 / 分組 / 收合狀態；變更時發出 view-state-changed 由 settings.html 保存
+  get viewState() {
+    return {
+      tags: [...this._activeTags],
+      groupByTag: this._groupByTag,
+      collapsed: [...this._collapsedTags],
+    };
+  }
+
+  set viewState(value) {
+    const v = value && typeof value === 'object' ? value : {};
+    this._activeTags = new Set(Array.isArray(v.tags) ? v.tags : []);
+    this._groupByTag = !!v.groupByTag;
+    this._collapsedTags = new Set(Array.isArray(v.collapsed) ? v.collapsed : []);
+    this._render();
+  }
+
+  // 勾選的項目 command
+  get selectedCommands() {
+    return [...this._selected];
+  }
+
   // ========== NLS Support (參考 data-view.js 模式) ==========
 
   // 多語系文字取得 - 參考 data-view.js 實作
@@ -157,10 +223,12 @@ class ListViewComponent extends HTMLElement {
       <style>
         ${this._getComponentStyles()}
       </style>
+      <div class="list-toolbar" id="list-toolbar"></div>
       <div class="list-table-container">
         <table class="list-table">
           <thead>
             <tr>
+              <th style="width: 28px; text-align: center;"><input type="checkbox" id="select-all"></th>
               <th style="width: 40px;"></th>
               <th style="width: 40px; text-align: center;" data-nls="icon">${this.getText('icon', 'Icon')}</th>
               <th data-nls="labelTooltip">${this.getText('labelTooltip', 'Item & Tooltip')}</th>
@@ -185,7 +253,8 @@ class ListViewComponent extends HTMLElement {
     return `
       /* Component Container */
       :host {
-        display: block;
+        display: flex;
+        flex-direction: column;
         height: 100%;
         overflow: hidden;
       }
@@ -194,9 +263,118 @@ class ListViewComponent extends HTMLElement {
       .list-table-container { 
         flex-grow: 1; 
         height: 100%;
+        min-height: 0;
         overflow-y: auto; 
       }
 
+      /* Tag chips / bulk actions */
+      .list-toolbar {
+        display: flex;
+        flex-direction: column;
+        gap: 6px;
+        padding: 6px 10px;
+        border-bottom: 1px solid var(--vscode-editorGroup-border);
+      }
+
+      .list-toolbar:empty {
+        display: none;
+      }
+
+      .tag-chips, .bulk-bar {
+        display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+        gap: 4px;
+      }
+
+      .tag-chip {
+        display: inline-flex;
+        align-items: center;
+        gap: 4px;
+        padding: 1px 8px;
+        border: 1px solid var(--vscode-button-border, var(--vscode-panel-border));
+        border-radius: 10px;
+        background: var(--vscode-button-secondaryBackground);
+        color: var(--vscode-button-secondaryForeground);
+        font: inherit;
+        font-size: .85em;
+        cursor: pointer;
+      }
+
+      .tag-chip:hover {
+        border-color: var(--vscode-focusBorder);
+      }
+
+      .tag-chip.active {
+        background: var(--vscode-button-background);
+        color: var(--vscode-button-foreground);
+      }
+
+      .tag-chip .chip-count {
+        opacity: .7;
+      }
+
+      .group-toggle {
+        margin-left: auto;
+      }
+
+      .group-toggle.active {
+        background: var(--vscode-button-background);
+        color: var(--vscode-button-foreground);
+      }
+
+      .bulk-count {
+        font-weight: 600;
+        margin-right: 6px;
+      }
+
+      .bulk-btn {
+        display: inline-flex;
+        align-items: center;
+        gap: 4px;
+        padding: 2px 8px;
+        border: 1px solid var(--vscode-button-border, transparent);
+        border-radius: 4px;
+        background: var(--vscode-button-secondaryBackground);
+        color: var(--vscode-button-secondaryForeground);
+        font: inherit;
+        font-size: .85em;
+        cursor: pointer;
+      }
+
+      .bulk-btn:hover {
+        background: var(--vscode-button-secondaryHoverBackground);
+      }
+
+      .bulk-btn.danger:hover {
+        background: var(--vscode-charts-orange);
+        color: white;
+      }
+
+      .folder-row td {
+        padding: 6px 8px;
+        cursor: pointer;
+        user-select: none;
+        background: var(--vscode-sideBarSectionHeader-background, transparent);
+      }
+
+      .folder-row .folder-label {
+        display: inline-flex;
+        align-items: center;
+        gap: 4px;
+        font-weight: 600;
+      }
+
+      .folder-row .folder-count {
+        margin-left: 8px;
+        font-size: .85em;
+        opacity: .7;
+      }
+
+      tr.item-row.is-selected {
+        background-color: var(--vscode-list-inactiveSelectionBackground);
+      }
+
       table.list-table { 
         width: 100%; 
         border-collapse: collapse; 
@@ -294,6 +472,133 @@ class ListViewComponent extends HTMLElement {
         font-size: .9em; 
       }
 
+      /* Last run / last error */
+      .last-run {
+        display: inline-flex;
+        align-items: center;
+        gap: 4px;
+        font-size: 0.85em;
+        color: var(--vscode-descriptionForeground);
+        white-space: nowrap;
+        cursor: default;
+      }
+
+      .last-run .codicon {
+        font-size: 12px;
+      }
+
+      .last-run.ok .codicon {
+        color: var(--vscode-charts-green);
+      }
+
+      .last-run.failed .codicon {
+        color: var(--vscode-errorForeground);
+      }
+
+      .status-stack {
+        display: flex;
+        flex-direction: column;
+        align-items: center;
+        gap: 2px;
+      }
+
+      .next-run {
+        display: inline-flex;
+        align-items: center;
+        gap: 4px;
+        font-size: 0.8em;
+        color: var(--vscode-descriptionForeground);
+        white-space: nowrap;
+        cursor: default;
+      }
+
+      .next-run .codicon {
+        font-size: 11px;
+      }
+
+      .actions-menu {
+        position: fixed;
+        z-index: 20;
+        min-width: 180px;
+        max-width: 320px;
+        padding: 4px 0;
+        background: var(--vscode-menu-background, var(--vscode-editorWidget-background));
+        color: var(--vscode-menu-foreground, var(--vscode-foreground));
+        border: 1px solid var(--vscode-menu-border, var(--vscode-widget-border, var(--vscode-panel-border)));
+        border-radius: 4px;
+        box-shadow: 0 2px 8px var(--vscode-widget-shadow);
+      }
+
+      .actions-menu button {
+        display: flex;
+        flex-direction: column;
+        align-items: flex-start;
+        width: 100%;
+        padding: 4px 12px;
+        border: none;
+        background: none;
+        color: inherit;
+        font: inherit;
+        text-align: left;
+        cursor: pointer;
+      }
+
+      .actions-menu button:hover,
+      .actions-menu button:focus {
+        background: var(--vscode-menu-selectionBackground, var(--vscode-list-hoverBackground));
+        color: var(--vscode-menu-selectionForeground, inherit);
+        outline: none;
+      }
+
+      .actions-menu .action-desc {
+        font-size: .85em;
+        opacity: .7;
+      }
+
+      .section-row td {
+        padding: 10px 8px 4px;
+        font-weight: 600;
+        color: var(--vscode-descriptionForeground);
+        border-top: 1px solid var(--vscode-panel-border);
+      }
+
+      .section-row .section-hint {
+        font-weight: normal;
+        font-size: .85em;
+        margin-left: 8px;
+        opacity: .8;
+      }
+
+      .origin-badge {
+        display: inline-flex;
+        align-items: center;
+        gap: 3px;
+        padding: 0 6px;
+        margin-right: 4px;
+        border-radius: 8px;
+        font-size: .8em;
+        background: var(--vscode-badge-background);
+        color: var(--vscode-badge-foreground);
+        vertical-align: middle;
+      }
+
+      .origin-badge.shadowed {
+        background: var(--vscode-inputValidation-warningBackground);
+      }
+
+      .origin-badge .codicon {
+        font-size: 11px;
+      }
+
+      .item-last-error {
+        color: var(--vscode-errorForeground);
+        white-space: nowrap;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        font-size: .85em;
+        min-width: 0;
+      }
+
       /* Hidden items styling */
       tr.is-hidden .item-label, 
       tr.is-hidden .item-tooltip { 
@@ -521,6 +826,16 @@ class ListViewComponent extends HTMLElement {
       tbody.addEventListener('dragover', this._boundHandlers.dragOver);
       tbody.addEventListener('drop', this._boundHandlers.drop);
     }
+    this.shadowRoot.getElementById('list-toolbar')?.addEventListener('click', this._boundHandlers.toolbarClick);
+    this.shadowRoot.getElementById('select-all')?.addEventListener('change', this._boundHandlers.selectAll);
+  }
+
+  // 動作選單：點擊選單外或按 Esc 時關閉
+  _listenActionsMenuClose(on) {
+    const method = on ? 'addEventListener' : 'removeEventListener';
+    this.shadowRoot[method]('pointerdown', this._boundHandlers.closeActionsMenu);
+    window[method]('keydown', this._boundHandlers.closeActionsMenu);
+    window[method]('blur', this._boundHandlers.closeActionsMenu);
   }
 
   _cleanupEventListeners() {
@@ -532,6 +847,9 @@ class ListViewComponent extends HTMLElement {
       tbody.removeEventListener('dragover', this._boundHandlers.dragOver);
       tbody.removeEventListener('drop', this._boundHandlers.drop);
     }
+    this.shadowRoot.getElementById('list-toolbar')?.removeEventListener('click', this._boundHandlers.toolbarClick);
+    this.shadowRoot.getElementById('select-all')?.removeEventListener('change', this._boundHandlers.selectAll);
+    this._closeActionsMenu();
   }
 
   // ========== Rendering ==========
@@ -544,13 +862,20 @@ class ListViewComponent extends HTMLElement {
 
     tbody.innerHTML = '';
     
+    // 已刪除的項目不再保留勾選
+    const commands = new Set(this._items.map(i => i.command));
+    this._selected.forEach(cmd => { if (!commands.has(cmd)) { this._selected.delete(cmd); } });
+    this._renderToolbar();
+
     const filteredItems = this._getFilteredItems();
+    const filteredWorkspaceItems = this._filterItems(this._workspaceItems);
+    this._updateSelectAll();
 
-    if (!filteredItems.length) {
+    if (!filteredItems.length && !filteredWorkspaceItems.length) {
       tbody.innerHTML = `
         <tr>
-          <td colspan="8" class="empty-state">
-            ${this._filterText 
+          <td colspan="9" class="empty-state">
+            ${this._filterText || this._activeTags.size
               ? this.getText('noMatchingItems', 'No matching items')
               : this.getText('noItemsToDisplay', 'No items to display')
             }
@@ -573,22 +898,53 @@ class ListViewComponent extends HTMLElement {
       return 0;
     });
 
-    sortedItems.forEach((item) => {
-      const originalIndex = this._items.indexOf(item);
-      const row = this._createItemRow(item, originalIndex);
-      tbody.appendChild(row);
-    });
+    if (this._groupByTag) {
+      this._renderFolders(tbody, sortedItems);
+    } else {
+      sortedItems.forEach((item) => {
+        const originalIndex = this._items.indexOf(item);
+        const row = this._createItemRow(item, originalIndex);
+        tbody.appendChild(row);
+      });
+    }
+
+    if (filteredWorkspaceItems.length) {
+      const header = document.createElement('tr');
+      header.className = 'section-row';
+      header.innerHTML = `
+        <td colspan="9">
+          <i class="codicon codicon-folder"></i> ${this._escapeHtml(this.getText('workspaceItems', 'Workspace items'))}
+          <span class="section-hint">${this._escapeHtml(this.getText('workspaceItemsHint', 'Defined in .vscode/ of the workspace; edit the file to change them.'))}</span>
+        </td>
+      `;
+      tbody.appendChild(header);
+      filteredWorkspaceItems.forEach((item) => {
+        tbody.appendChild(this._createWorkspaceItemRow(item, this._workspaceItems.indexOf(item)));
+      });
+    }
 
     this._updateRunningBadge();
   }
 
   _getFilteredItems() {
+    return this._filterItems(this._items);
+  }
+
+  _filterItems(list) {
     const q = this._filterText.trim().toLowerCase();
-    if (!q) {
-      return this._items;
+    const activeTags = [...this._activeTags];
+    if (!q && !activeTags.length) {
+      return list;
     }
 
-    return this._items.filter((item) => {
+    return list.filter((item) => {
+      const tags = Array.isArray(item.tags) ? item.tags : [];
+      if (!activeTags.every((t) => tags.includes(t))) {
+        return false;
+      }
+      if (!q) {
+        return true;
+      }
       const label = item.text.replace(/^\$\(([^)]+)\) /, '');
       const tagMatch = Array.isArray(item.tags) && 
         item.tags.some((t) => t.toLowerCase().includes(q));
@@ -602,25 +958,156 @@ class ListViewComponent extends HTMLElement {
     });
   }
 
+  // ========== Tags / Folders / Selection ==========
+
+  // 所有項目（含工作區項目）的標籤與數量
+  _tagCounts() {
+    const counts = new Map();
+    [...this._items, ...this._workspaceItems].forEach((item) => {
+      (Array.isArray(item.tags) ? item.tags : []).forEach((t) => counts.set(t, (counts.get(t) || 0) + 1));
+    });
+    return counts;
+  }
+
+  // 工具列：標籤篩選 chips + 分組切換；有勾選項目時顯示批次操作
+  _renderToolbar() {
+    const toolbar = this.shadowRoot.getElementById('list-toolbar');
+    if (!toolbar) {
+      return;
+    }
+    const counts = this._tagCounts();
+    // 篩選中的標籤即使已沒有項目也保留 chip，才能取消
+    this._toolbarTags = [...new Set([...counts.keys(), ...this._activeTags])].sort((a, b) => a.localeCompare(b));
+    let html = '';
+    if (this._toolbarTags.length) {
+      html += `
+        <div class="tag-chips">
+          <button type="button" class="tag-chip${this._activeTags.size ? '' : ' active'}" data-tag-all>${this._escapeHtml(this.getText('allTags', 'All'))}</button>
+          ${this._toolbarTags.map((tag, i) => `
+            <button type="button" class="tag-chip${this._activeTags.has(tag) ? ' active' : ''}" data-tag-index="${i}">
+              #${this._escapeHtml(tag)}<span class="chip-count">${counts.get(tag) || 0}</span>
+            </button>
+          `).join('')}
+          <button type="button" class="icon-btn group-toggle${this._groupByTag ? ' active' : ''}"
+                  title="${this._escapeHtml(this.getText('groupByTag', 'Group into folders by tag'))}">
+            <i class="codicon codicon-list-tree"></i>
+          </button>
+        </div>
+      `;
+    }
+    if (this._selected.size) {
+      const actions = [
+        ['show', 'eye', 'bulkShow', 'Show'],
+        ['hide', 'eye-closed', 'bulkHide', 'Hide'],
+        ['autorun-on', 'run-all', 'bulkAutorunOn', 'Run at startup'],
+        ['autorun-off', 'circle-slash', 'bulkAutorunOff', 'No startup run'],
+        ['stop', 'debug-stop', 'stop', 'Stop'],
+        ['export', 'export', 'export', 'Export'],
+        ['delete', 'trash', 'delete', 'Delete'],
+      ];
+      html += `
+        <div class="bulk-bar">
+          <span class="bulk-count">${this._escapeHtml(this.getText('selectedCount', '{0} selected').replace('{0}', String(this._selected.size)))}</span>
+          ${actions.map(([action, icon, key, fallback]) => `
+            <button type="button" class="bulk-btn${action === 'delete' ? ' danger' : ''}" data-bulk="${action}">
+              <i class="codicon codicon-${icon}"></i>${this._escapeHtml(this.getText(key, fallback))}
+            </button>
+          `).join('')}
+          <button type="button" class="icon-btn" data-bulk="clear" title="${this._escapeHtml(this.getText('clearSelection', 'Clear selection'))}">
+            <i class="codicon codicon-close"></i>
+          </button>
+        </div>
+      `;
+    }
+    toolbar.innerHTML = html;
+  }
+
+  // 依第一個標籤分成資料夾（未加標籤的放最後）；分組時不能拖曳排序
+  _renderFolders(tbody, list) {
+    const groups = new Map();
+    list.forEach((item) => {
+      const tag = (Array.isArray(item.tags) && item.tags[0]) || '';
+      if (!groups.has(tag)) {
+        groups.set(tag, []);
+      }
+      groups.get(tag).push(item);
+    });
+    this._folderTags = [...groups.keys()].sort((a, b) => (a === '') - (b === '') || a.localeCompare(b));
+    this._folderTags.forEach((tag, i) => {
+      const members = groups.get(tag);
+      const collapsed = this._collapsedTags.has(tag);
+      const running = members.filter((item) => this._runningCommands.has(item.command)).length;
+      const header = document.createElement('tr');
+      header.className = 'folder-row';
+      header.dataset.folderIndex = i;
+      header.innerHTML = `
+        <td colspan="9">
+          <span class="folder-label">
+            <i class="codicon codicon-chevron-${collapsed ? 'right' : 'down'}"></i>
+            <i class="codicon codicon-${collapsed ? 'folder' : 'folder-opened'}"></i>
+            ${this._escapeHtml(tag || this.getText('untagged', 'Untagged'))}
+          </span>
+          <span class="folder-count">${members.length}</span>
+          ${running ? `<span class="running-dot" style="margin-left: 8px;">${running}</span>` : ''}
+        </td>
+      `;
+      tbody.appendChild(header);
+      if (!collapsed) {
+        members.forEach((item) => tbody.appendChild(this._createItemRow(item, this._items.indexOf(item))));
+      }
+    });
+  }
+
+  // 全選的對象：篩選後可見的項目（不含收合資料夾內的項目）
+  _getSelectableItems() {
+    const list = this._getFilteredItems();
+    if (!this._groupByTag) {
+      return list;
+    }
+    return list.filter((item) => !this._collapsedTags.has((Array.isArray(item.tags) && item.tags[0]) || ''));
+  }
+
+  _updateSelectAll() {
+    const box = this.shadowRoot.getElementById('select-all');
+    if (!box) {
+      return;
+    }
+    const list = this._getSelectableItems();
+    const count = list.filter((item) => this._selected.has(item.command)).length;
+    box.checked = count > 0 && count === list.length;
+    box.indeterminate = count > 0 && count < list.length;
+    box.disabled = !list.length;
+    box.title = this.getText('selectAll', 'Select All');
+  }
+
   _createItemRow(item, originalIndex) {
     const m = item.text.match(/^\$\(([^)]+)\) (.*)$/);
     const icon = m ? m[1] : '';
     const label = m ? (m[2] ?? '---') : item.text;
     const isRunning = this._runningCommands.has(item.command);
+    const isSelected = this._selected.has(item.command);
 
     const row = document.createElement('tr');
     row.className = 'item-row';
     if (item.hidden) {
       row.classList.add('is-hidden');
     }
+    if (isSelected) {
+      row.classList.add('is-selected');
+    }
     row.dataset.index = originalIndex;
 
-    // Only set draggable for non-running items
-    if (!isRunning) {
+    // Only set draggable for non-running items（分組顯示時不能排序）
+    if (!isRunning && !this._groupByTag) {
       row.setAttribute('draggable', 'true');
     }
 
     row.innerHTML = `
+      <td>
+        <div class="td-content-wrapper justify-center">
+          <input type="checkbox" class="select-item" data-index="${originalIndex}" ${isSelected ? 'checked' : ''}>
+        </div>
+      </td>
       <td class="drag-handle" title="Drag to reorder">
         <div class="td-content-wrapper">
           <i class="codicon codicon-grabber"></i>
@@ -635,20 +1122,25 @@ class ListViewComponent extends HTMLElement {
         <div class="td-content-wrapper">
           <div class="item-details">
             <div class="item-label" title="${this._escapeHtml(label)}">
-              ${this._escapeHtml(label)}
+              ${item.library ? `<span class="origin-badge" title="${this.getText('libraryBadgeTitle', 'Library, imported as')} sbh:lib/${this._escapeHtml(item.library)}"><i class="codicon codicon-library"></i>${this._escapeHtml(item.library)}</span>` : ''}${this._escapeHtml(label)}
             </div>
             <div class="item-tooltip" title="${this._escapeHtml(item.tooltip || '')}">
               ${this._escapeHtml(item.tooltip || 'No tooltip')}
             </div>
+            ${this._renderLastError(item)}
           </div>
         </div>
       </td>
       <td>
         <div class="td-content-wrapper justify-center">
-          ${isRunning 
-            ? `<span class="running-dot"><span class="running-txt">${this.getText('running', 'Running')}</span></span>`
-            : `<span style="opacity:.5">—</span>`
-          }
+          <div class="status-stack">
+            ${isRunning 
+              ? `<span class="running-dot"><span class="running-txt">${this.getText('running', 'Running')}</span></span>`
+              : this._renderLastRun(item)
+            }
+            ${this._renderNextRun(item)}
+            ${this._renderTriggers(item)}
+          </div>
         </div>
       </td>
       <td>
@@ -683,6 +1175,11 @@ class ListViewComponent extends HTMLElement {
                   title="${this.getText('run', 'Run')}" aria-label="${this.getText('run', 'Run')}">
             <i class="codicon codicon-play"></i>
           </button>
+          ${Array.isArray(item.actions) && item.actions.length ? `
+          <button class="icon-btn actions-item" data-index="${originalIndex}" type="button" 
+                  title="${this.getText('runAction', 'Run action…')}" aria-label="${this.getText('runAction', 'Run action…')}">
+            <i class="codicon codicon-chevron-down"></i>
+          </button>` : ''}
           <button class="icon-btn stop-item" data-index="${originalIndex}" type="button" 
                   title="${this.getText('stop', 'Stop')}" aria-label="${this.getText('stop', 'Stop')}">
             <i class="codicon codicon-debug-stop"></i>
@@ -702,13 +1199,248 @@ class ListViewComponent extends HTMLElement {
     return row;
   }
 
+  // 工作區項目：只能執行 / 停止 / 開啟定義檔，顯示 / 啟動設定由檔案決定
+  _createWorkspaceItemRow(item, wsIndex) {
+    const m = item.text.match(/^\$\(([^)]+)\) (.*)$/);
+    const icon = m ? m[1] : '';
+    const label = m ? (m[2] ?? '---') : item.text;
+    const isRunning = this._runningCommands.has(item.command);
+
+    const row = document.createElement('tr');
+    row.className = 'item-row workspace-row';
+    if (item.hidden || item.shadowed) {
+      row.classList.add('is-hidden');
+    }
+    row.dataset.wsIndex = wsIndex;
+
+    const badgeTitle = item.shadowed
+      ? this.getText('workspaceItemShadowed', 'A global item uses the same command; this one is not loaded.')
+      : item.file;
+    row.innerHTML = `
+      <td></td>
+      <td></td>
+      <td class="item-icon">
+        <div class="td-content-wrapper justify-center">
+          <i class="codicon codicon-${icon || 'ellipsis'}"></i>
+        </div>
+      </td>
+      <td>
+        <div class="td-content-wrapper">
+          <div class="item-details">
+            <div class="item-label" title="${this._escapeHtml(label)}">
+              <span class="origin-badge${item.shadowed ? ' shadowed' : ''}" title="${this._escapeHtml(badgeTitle || '')}">
+                <i class="codicon codicon-${item.shadowed ? 'warning' : 'folder'}"></i>${this._escapeHtml(item.workspaceFolder || '')}
+              </span>
+              ${this._escapeHtml(label)}
+            </div>
+            <div class="item-tooltip" title="${this._escapeHtml(item.tooltip || '')}">
+              ${this._escapeHtml(item.tooltip || 'No tooltip')}
+            </div>
+            ${this._renderLastError(item)}
+          </div>
+        </div>
+      </td>
+      <td>
+        <div class="td-content-wrapper justify-center">
+          <div class="status-stack">
+            ${isRunning
+              ? `<span class="running-dot"><span class="running-txt">${this.getText('running', 'Running')}</span></span>`
+              : this._renderLastRun(item)
+            }
+            ${this._renderNextRun(item)}
+            ${this._renderTriggers(item)}
+          </div>
+        </div>
+      </td>
+      <td>
+        <div class="td-content-wrapper justify-center">
+          <i class="codicon codicon-${item.hidden ? 'eye-closed' : 'eye'}" style="opacity:.6"></i>
+        </div>
+      </td>
+      <td>
+        <div class="td-content-wrapper justify-center">
+          ${item.enableOnInit ? '<i class="codicon codicon-check" style="opacity:.6"></i>' : ''}
+        </div>
+      </td>
+      <td class="command-td">
+        <div class="td-content-wrapper justify-center">
+          <div class="command-cell">
+            <button class="copy-btn" data-ws-index="${wsIndex}" title="Copy ${this._escapeHtml(item.command || '')}">
+              <i class="codicon codicon-clippy"></i>
+            </button>
+            <input type="text" readonly class="command-input" style="display: none;" value="${this._escapeHtml(item.command || '')}" />
+          </div>
+        </div>
+      </td>
+      <td class="item-actions">
+        <div class="td-content-wrapper justify-end">
+          <button class="icon-btn run-now-item" data-ws-index="${wsIndex}" type="button" ${item.shadowed ? 'disabled' : ''}
+                  title="${this.getText('run', 'Run')}" aria-label="${this.getText('run', 'Run')}">
+            <i class="codicon codicon-play"></i>
+          </button>
+          <button class="icon-btn stop-item" data-ws-index="${wsIndex}" type="button" 
+                  title="${this.getText('stop', 'Stop')}" aria-label="${this.getText('stop', 'Stop')}">
+            <i class="codicon codicon-debug-stop"></i>
+          </button>
+          <button class="icon-btn open-file-item" data-ws-index="${wsIndex}" type="button" 
+                  title="${this.getText('openDefinition', 'Open file')}" aria-label="${this.getText('openDefinition', 'Open file')}">
+            <i class="codicon codicon-go-to-file"></i>
+          </button>
+        </div>
+      </td>
+    `;
+
+    return row;
+  }
+
+  // ========== Run History ==========
+
+  _isFailedRun(run) {
+    return !!run && (!!run.error || (typeof run.exitCode === 'number' && run.exitCode !== 0));
+  }
+
+  // 狀態欄：上次執行的結果與時間，詳細資訊放在 title
+  _renderLastRun(item) {
+    const summary = this._runHistory[item.command];
+    const run = summary && summary.lastRun;
+    if (!run) {
+      return `<span style="opacity:.5">—</span>`;
+    }
+    const failed = this._isFailedRun(run);
+    const lines = [
+      `${this.getText('lastRun', 'Last run')}: ${new Date(run.startedAt).toLocaleString()}`,
+      `${this.getText('runOrigin', 'Origin')}: ${run.origin}`,
+    ];
+    if (typeof run.exitCode === 'number') {
+      lines.push(`${this.getText('exitCode', 'Exit code')}: ${run.exitCode}`);
+    }
+    if (run.endedAt) {
+      lines.push(`${this.getText('runEnded', 'Ended')}: ${new Date(run.endedAt).toLocaleString()}${run.reason && run.reason.type ? ` (${run.reason.type})` : ''}`);
+    }
+    const lastError = summary.lastError;
+    if (lastError && lastError.error) {
+      lines.push('', `${this.getText('lastError', 'Last error')} (${new Date(lastError.startedAt).toLocaleString()}):`, lastError.error.stack || lastError.error.message);
+    }
+    return `
+      <span class="last-run ${failed ? 'failed' : 'ok'}" title="${this._escapeHtml(lines.join('\n'))}">
+        <i class="codicon codicon-${failed ? 'error' : 'pass'}"></i>${this._escapeHtml(this._formatAgo(run.startedAt))}
+      </span>
+    `;
+  }
+
+  // 最近一次執行失敗時，在標籤旁顯示錯誤訊息
+  _renderLastError(item) {
+    const summary = this._runHistory[item.command];
+    if (!summary || !summary.lastRun || !summary.lastError || summary.lastError.id !== summary.lastRun.id) {
+      return '';
+    }
+    const err = summary.lastError.error;
+    if (!err) {
+      return '';
+    }
+    return `
+      <div class="item-last-error" title="${this._escapeHtml(err.stack || err.message)}">
+        <i class="codicon codicon-warning"></i> ${this._escapeHtml(err.message)}
+      </div>
+    `;
+  }
+
+  // 排程項目：下次執行的相對時間，完整時間放在 title
+  _renderNextRun(item) {
+    const at = this._nextRuns[item.command];
+    if (typeof at !== 'number') {
+      return '';
+    }
+    const title = `${this.getText('nextRun', 'Next run')}: ${new Date(at).toLocaleString()}`;
+    return `
+      <span class="next-run" title="${this._escapeHtml(title)}">
+        <i class="codicon codicon-watch"></i>${this._escapeHtml(this._formatIn(at))}
+      </span>
+    `;
+  }
+
+  // 有事件觸發條件的項目：顯示圖示，事件清單放在 title
+  _renderTriggers(item) {
+    const triggers = Array.isArray(item.triggers) ? item.triggers : [];
+    if (!triggers.length) {
+      return '';
+    }
+    const lines = [
+      `${this.getText('triggers', 'Triggers')}:`,
+      ...triggers.map(t => t.glob ? `${t.event} (${t.glob})` : t.event),
+    ];
+    return `
+      <span class="next-run" title="${this._escapeHtml(lines.join('\n'))}">
+        <i class="codicon codicon-zap"></i>${triggers.length}
+      </span>
+    `;
+  }
+
+  _formatIn(ts) {
+    const sec = Math.max(0, Math.round((ts - Date.now()) / 1000));
+    if (sec < 60) {
+      return this.getText('scheduleSoon', 'soon');
+    }
+    if (sec < 3600) {
+      return this.getText('inMinutes', 'in {0}m').replace('{0}', String(Math.ceil(sec / 60)));
+    }
+    if (sec < 86400) {
+      return this.getText('inHours', 'in {0}h').replace('{0}', String(Math.floor(sec / 3600)));
+    }
+    return this.getText('inDays', 'in {0}d').replace('{0}', String(Math.floor(sec / 86400)));
+  }
+
+  _formatAgo(ts) {
+    const sec = Math.max(0, Math.round((Date.now() - ts) / 1000));
+    if (sec < 60) {
+      return this.getText('justNow', 'just now');
+    }
+    if (sec < 3600) {
+      return this.getText('minutesAgo', '{0}m ago').replace('{0}', String(Math.floor(sec / 60)));
+    }
+    if (sec < 86400) {
+      return this.getText('hoursAgo', '{0}h ago').replace('{0}', String(Math.floor(sec / 3600)));
+    }
+    return this.getText('daysAgo', '{0}d ago').replace('{0}', String(Math.floor(sec / 86400)));
+  }
+
   // ========== Event Handlers ==========
   
   _handleItemAction(e) {
+    const folder = e.target.closest('tr.folder-row');
+    if (folder) {
+      const tag = this._folderTags[parseInt(folder.dataset.folderIndex)];
+      if (tag !== undefined) {
+        if (this._collapsedTags.has(tag)) {
+          this._collapsedTags.delete(tag);
+        } else {
+          this._collapsedTags.add(tag);
+        }
+        this._dispatchItemEvent('view-state-changed', this.viewState);
+        this._render();
+      }
+      return;
+    }
     const button = e.target.closest('button');
     if (!button) {
       return;
     }
+    if (button.dataset.wsIndex !== undefined) {
+      const item = this._workspaceItems[parseInt(button.dataset.wsIndex)];
+      if (!item) {
+        return;
+      }
+      if (button.classList.contains('run-now-item')) {
+        this._dispatchItemEvent('workspace-item-run', { item });
+      } else if (button.classList.contains('stop-item')) {
+        this._dispatchItemEvent('workspace-item-stop', { item });
+      } else if (button.classList.contains('open-file-item')) {
+        this._dispatchItemEvent('workspace-item-open', { item });
+      } else if (button.classList.contains('copy-btn')) {
+        this._handleCopyCommand(e);
+      }
+      return;
+    }
     const index = parseInt(button.dataset.index);
     if (isNaN(index)) {
       return;
@@ -716,6 +1448,8 @@ class ListViewComponent extends HTMLElement {
 
     if (button.classList.contains('run-now-item')) {
       this._dispatchItemEvent('item-run', { index });
+    } else if (button.classList.contains('actions-item')) {
+      this._showActionsMenu(button, index);
     } else if (button.classList.contains('stop-item')) {
       this._dispatchItemEvent('item-stop', { index });
     } else if (button.classList.contains('edit-item')) {
@@ -727,6 +1461,111 @@ class ListViewComponent extends HTMLElement {
     }
   }
 
+  // 動作下拉選單（item.actions）；選擇後以 item-run { index, action } 執行
+  _showActionsMenu(button, index) {
+    const item = this._items[index];
+    const reopen = this._actionsMenu?.dataset.index !== String(index);
+    this._closeActionsMenu();
+    if (!item || !Array.isArray(item.actions) || !reopen) {
+      return;
+    }
+
+    const menu = document.createElement('div');
+    menu.className = 'actions-menu';
+    menu.dataset.index = index;
+    menu.setAttribute('role', 'menu');
+    menu.innerHTML = item.actions.map((action, i) => `
+      <button type="button" role="menuitem" data-action-index="${i}" title="${this._escapeHtml(action.description || '')}">
+        <span class="action-label">${this._renderIconLabel(action.label)}</span>
+        ${action.description ? `<span class="action-desc">${this._escapeHtml(action.description)}</span>` : ''}
+      </button>
+    `).join('');
+    menu.addEventListener('click', (e) => {
+      const entry = e.target.closest('button[data-action-index]');
+      if (!entry) {
+        return;
+      }
+      const action = item.actions[parseInt(entry.dataset.actionIndex)];
+      this._closeActionsMenu();
+      if (action) {
+        this._dispatchItemEvent('item-run', { index, action });
+      }
+    });
+
+    const rect = button.getBoundingClientRect();
+    menu.style.top = `${rect.bottom + 2}px`;
+    menu.style.right = `${Math.max(4, window.innerWidth - rect.right)}px`;
+    this.shadowRoot.appendChild(menu);
+    this._actionsMenu = menu;
+    this._listenActionsMenuClose(true);
+  }
+
+  _closeActionsMenu(e) {
+    if (!this._actionsMenu) {
+      return;
+    }
+    if (e && e.type === 'keydown' && e.key !== 'Escape') {
+      return;
+    }
+    if (e && e.type === 'pointerdown' && e.composedPath().some(el => el === this._actionsMenu || el?.classList?.contains?.('actions-item'))) {
+      return;
+    }
+    this._actionsMenu.remove();
+    this._actionsMenu = null;
+    this._listenActionsMenuClose(false);
+  }
+
+  // `$(icon) text` → codicon + 文字（已跳脫）
+  _renderIconLabel(text) {
+    return this._escapeHtml(text || '').replace(/\$\(([\w~-]+)\)/g, '<i class="codicon codicon-$1"></i>');
+  }
+
+  _handleToolbarClick(e) {
+    const button = e.target.closest('button');
+    if (!button) {
+      return;
+    }
+    if (button.dataset.bulk === 'clear') {
+      this.clearSelection();
+      return;
+    }
+    if (button.dataset.bulk) {
+      this._dispatchItemEvent('items-bulk', { action: button.dataset.bulk, commands: [...this._selected] });
+      return;
+    }
+    if (button.hasAttribute('data-tag-all')) {
+      this._activeTags.clear();
+    } else if (button.dataset.tagIndex !== undefined) {
+      const tag = this._toolbarTags[parseInt(button.dataset.tagIndex)];
+      if (tag === undefined) {
+        return;
+      }
+      if (this._activeTags.has(tag)) {
+        this._activeTags.delete(tag);
+      } else {
+        this._activeTags.add(tag);
+      }
+    } else if (button.classList.contains('group-toggle')) {
+      this._groupByTag = !this._groupByTag;
+    } else {
+      return;
+    }
+    this._dispatchItemEvent('view-state-changed', this.viewState);
+    this._render();
+  }
+
+  _handleSelectAll(e) {
+    const list = this._getSelectableItems();
+    list.forEach((item) => {
+      if (e.target.checked) {
+        this._selected.add(item.command);
+      } else {
+        this._selected.delete(item.command);
+      }
+    });
+    this._render();
+  }
+
   _handleToggleChange(e) {
     const checkbox = e.target;
     const index = parseInt(checkbox.dataset.index);
@@ -734,6 +1573,22 @@ class ListViewComponent extends HTMLElement {
       return;
     }
 
+    if (checkbox.classList.contains('select-item')) {
+      const item = this._items[index];
+      if (!item) {
+        return;
+      }
+      if (checkbox.checked) {
+        this._selected.add(item.command);
+      } else {
+        this._selected.delete(item.command);
+      }
+      checkbox.closest('tr')?.classList.toggle('is-selected', checkbox.checked);
+      this._renderToolbar();
+      this._updateSelectAll();
+      return;
+    }
+
     if (checkbox.classList.contains('visibility-toggle')) {
       this._dispatchItemEvent('item-visibility-toggle', { 
         index, 
@@ -766,7 +1621,7 @@ class ListViewComponent extends HTMLElement {
   }
 
   _handleDragStart(e) {
-    const row = e.target.closest('tr.item-row');
+    const row = e.target.closest('tr.item-row:not(.workspace-row)');
     if (!row) {
       return;
     }
@@ -777,7 +1632,7 @@ class ListViewComponent extends HTMLElement {
   }
 
   _handleDragOver(e) {
-    const row = e.target.closest('tr.item-row');
+    const row = e.target.closest('tr.item-row:not(.workspace-row)');
     if (!row) {
       return;
     }
@@ -796,7 +1651,7 @@ class ListViewComponent extends HTMLElement {
   _handleDrop(e) {
     e.preventDefault();
     
-    const row = e.target.closest('tr.item-row');
+    const row = e.target.closest('tr.item-row:not(.workspace-row)');
     if (!row) {
       return;
     }
@@ -852,6 +1707,11 @@ class ListViewComponent extends HTMLElement {
   getFilteredItemCount() {
     return this._getFilteredItems().length;
   }
+
+  clearSelection() {
+    this._selected.clear();
+    this._render();
+  }
 }
 
 // Register the custom element
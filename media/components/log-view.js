@@ -0,0 +1,553 @@
+/**
+ * Log View Web Component
+ * ======================
+ *
+ * Displays structured per-script logs (console.* and statusBarHelper.v1.log)
+ *
+ * Features:
+ * - Live tail with auto-scroll (stays put when the user scrolls up)
+ * - Filtering by script command, minimum level and text
+ * - Open the script's Output Channel, clear logs
+ * - Responsive design with theme adaptation
+ *
+ * API:
+ * - Properties: entries, nlsData
+ * - Methods: appendEntries(entries), clearEntries(command)
+ * - Events: logs-refresh-requested, logs-clear-requested, logs-show-requested
+ *
+ * @author Status Bar Helper
+ */
+
+const LOG_VIEW_LEVELS = ['trace', 'debug', 'info', 'warn', 'error'];
+/** webview 端最多保留的筆數（host 端每個 command 另有 ring buffer） */
+const LOG_VIEW_MAX_ENTRIES = 5000;
+
+class LogView extends HTMLElement {
+  constructor() {
+    super();
+    this.attachShadow({ mode: 'open' });
+
+    // Internal state
+    this._entries = [];
+    this._filterText = '';
+    this._filterLevel = 'trace';
+    this._filterCommand = 'all';
+    this._nlsData = {};
+    this._filteredEntries = [];
+    this._eventListenersSetup = false;
+
+    this.render();
+
+    // Initialize codicons CSS if provided
+    const codiconsUri = this.getAttribute('codicons-uri');
+    if (codiconsUri) {
+      this.loadCodiconsCSS();
+    }
+
+    // Detect and apply theme class
+    this.updateThemeClass();
+
+    // Watch for theme changes
+    this.setupThemeObserver();
+  }
+
+  // ============================================================================
+  // Properties
+  // ============================================================================
+
+  get entries() {
+    return this._entries;
+  }
+
+  set entries(value) {
+    this._entries = Array.isArray(value) ? value.slice(-LOG_VIEW_MAX_ENTRIES) : [];
+    this.updateCommandOptions();
+    this.updateFilteredEntries(true);
+  }
+
+  get nlsData() {
+    return this._nlsData;
+  }
+
+  set nlsData(value) {
+    this._nlsData = value || {};
+    this.updateTexts();
+  }
+
+  // ============================================================================
+  // Theme Management
+  // ============================================================================
+
+  updateThemeClass() {
+    const body = document.body;
+    if (body.classList.contains('vscode-light')) {
+      this.classList.add('vscode-light');
+      this.classList.remove('vscode-dark', 'vscode-high-contrast');
+    } else if (body.classList.contains('vscode-dark')) {
+      this.classList.add('vscode-dark');
+      this.classList.remove('vscode-light', 'vscode-high-contrast');
+    } else if (body.classList.contains('vscode-high-contrast')) {
+      this.classList.add('vscode-high-contrast');
+      this.classList.remove('vscode-light', 'vscode-dark');
+    }
+  }
+
+  setupThemeObserver() {
+    const observer = new MutationObserver(() => {
+      this.updateThemeClass();
+    });
+    observer.observe(document.body, {
+      attributes: true,
+      attributeFilter: ['class']
+    });
+    this._themeObserver = observer;
+  }
+
+  disconnectedCallback() {
+    if (this._themeObserver) {
+      this._themeObserver.disconnect();
+    }
+    if (this._filterTimer) {
+      clearTimeout(this._filterTimer);
+    }
+  }
+
+  loadCodiconsCSS() {
+    try {
+      const codiconsUri = this.getAttribute('codicons-uri');
+      if (codiconsUri) {
+        const link = document.createElement('link');
+        link.rel = 'stylesheet';
+        link.href = codiconsUri;
+        this.shadowRoot.insertBefore(link, this.shadowRoot.firstChild);
+      }
+    } catch (error) {
+      console.error('Failed to load Codicons CSS:', error);
+    }
+  }
+
+  // ============================================================================
+  // Core Rendering
+  // ============================================================================
+
+  render() {
+    this.shadowRoot.innerHTML = `
+      <style>
+        :host {
+          display: flex;
+          flex-direction: column;
+          height: 100%;
+          min-height: 0;
+          font-family: var(--vscode-font-family);
+          font-size: var(--vscode-font-size);
+          color: var(--vscode-foreground);
+          background: transparent;
+        }
+
+        .log-title-bar {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          margin-bottom: 8px;
+          flex-shrink: 0;
+        }
+
+        .log-search-wrap {
+          flex: 1;
+          display: flex;
+          align-items: center;
+          gap: 6px;
+          min-width: 160px;
+          max-width: 360px;
+          background: var(--vscode-input-background);
+          border: 1px solid var(--vscode-input-border);
+          border-radius: 4px;
+          height: 28px;
+          padding: 0 8px;
+        }
+
+        .log-search-wrap:focus-within {
+          border-color: var(--vscode-focusBorder);
+        }
+
+        .log-search-wrap i {
+          opacity: 0.6;
+          font-size: 14px;
+        }
+
+        #log-filter-input {
+          all: unset;
+          flex: 1;
+          height: 100%;
+          font-size: .95em;
+          color: var(--vscode-input-foreground);
+        }
+
+        #log-filter-input::placeholder {
+          color: var(--vscode-input-placeholderForeground);
+        }
+
+        select {
+          background: var(--vscode-dropdown-background);
+          border: 1px solid var(--vscode-dropdown-border);
+          color: var(--vscode-dropdown-foreground);
+          border-radius: 4px;
+          padding: 4px 8px;
+          height: 28px;
+          font-size: 0.9em;
+        }
+
+        select:focus {
+          border-color: var(--vscode-focusBorder);
+          outline: none;
+        }
+
+        #log-command-filter {
+          max-width: 220px;
+        }
+
+        .log-actions {
+          display: flex;
+          gap: 8px;
+          margin-left: auto;
+        }
+
+        .log-actions button {
+          background: var(--vscode-button-secondaryBackground);
+          color: var(--vscode-button-secondaryForeground);
+          border: 1px solid var(--vscode-button-border, transparent);
+          border-radius: 4px;
+          padding: 4px 10px;
+          height: 26px;
+          font-size: 0.9em;
+          cursor: pointer;
+          display: flex;
+          align-items: center;
+          gap: 6px;
+        }
+
+        .log-actions button:hover:not(:disabled) {
+          background: var(--vscode-button-secondaryHoverBackground);
+        }
+
+        .log-actions button:disabled {
+          opacity: 0.5;
+          cursor: default;
+        }
+
+        .log-list {
+          flex: 1;
+          overflow: auto;
+          border: 1px solid var(--vscode-panel-border);
+          border-radius: 4px;
+          font-family: var(--vscode-editor-font-family);
+          font-size: 0.85em;
+        }
+
+        .log-row {
+          display: grid;
+          grid-template-columns: 92px 52px minmax(80px, 180px) 1fr;
+          gap: 8px;
+          padding: 3px 8px;
+          border-bottom: 1px solid var(--vscode-panel-border);
+          align-items: start;
+        }
+
+        .log-row:hover {
+          background: var(--vscode-list-hoverBackground);
+        }
+
+        .log-time, .log-command {
+          color: var(--vscode-descriptionForeground);
+          white-space: nowrap;
+          overflow: hidden;
+          text-overflow: ellipsis;
+        }
+
+        .log-level {
+          font-weight: 600;
+          text-transform: uppercase;
+          font-size: 0.9em;
+        }
+
+        .log-level.trace, .log-level.debug { color: var(--vscode-descriptionForeground); }
+        .log-level.info  { color: var(--vscode-charts-blue, #3794ff); }
+        .log-level.warn  { color: var(--vscode-editorWarning-foreground, #cca700); }
+        .log-level.error { color: var(--vscode-editorError-foreground, #f14c4c); }
+
+        .log-text {
+          white-space: pre-wrap;
+          word-break: break-word;
+        }
+
+        .log-empty {
+          text-align: center;
+          padding: 40px 20px;
+          color: var(--vscode-descriptionForeground);
+          font-family: var(--vscode-font-family);
+        }
+
+        .log-empty i {
+          font-size: 48px;
+          opacity: 0.3;
+        }
+
+        .log-empty h3 {
+          margin: 8px 0;
+          font-weight: 500;
+        }
+
+        .log-empty p {
+          margin: 0;
+          font-size: 0.9em;
+        }
+      </style>
+
+      <div class="log-title-bar">
+        <div class="log-search-wrap">
+          <i class="codicon codicon-search"></i>
+          <input id="log-filter-input" type="text" placeholder="Filter logs…" data-nls="logsFilterPlaceholder" />
+        </div>
+        <select id="log-command-filter">
+          <option value="all" data-nls="logsAllScripts">All scripts</option>
+        </select>
+        <select id="log-level-filter">
+          <option value="trace" data-nls="logsLevelTrace">Trace+</option>
+          <option value="debug" data-nls="logsLevelDebug">Debug+</option>
+          <option value="info" data-nls="logsLevelInfo">Info+</option>
+          <option value="warn" data-nls="logsLevelWarn">Warn+</option>
+          <option value="error" data-nls="logsLevelError">Error</option>
+        </select>
+        <div class="log-actions">
+          <button id="log-show-btn" type="button" disabled>
+            <i class="codicon codicon-output"></i>
+            <span data-nls="logsOpenOutput">Output</span>
+          </button>
+          <button id="log-clear-btn" type="button">
+            <i class="codicon codicon-clear-all"></i>
+            <span data-nls="logsClear">Clear</span>
+          </button>
+        </div>
+      </div>
+      <div class="log-list" id="log-list"></div>
+    `;
+
+    this.setupEventListeners();
+  }
+
+  // ============================================================================
+  // Event Handling
+  // ============================================================================
+
+  setupEventListeners() {
+    if (this._eventListenersSetup) {
+      return;
+    }
+
+    const filterInput = this.shadowRoot.getElementById('log-filter-input');
+    const levelFilter = this.shadowRoot.getElementById('log-level-filter');
+    const commandFilter = this.shadowRoot.getElementById('log-command-filter');
+    const showBtn = this.shadowRoot.getElementById('log-show-btn');
+    const clearBtn = this.shadowRoot.getElementById('log-clear-btn');
+
+    filterInput.addEventListener('input', (e) => {
+      const value = e.target.value;
+      clearTimeout(this._filterTimer);
+      this._filterTimer = setTimeout(() => {
+        this._filterText = value;
+        this.updateFilteredEntries(true);
+      }, 200);
+    });
+
+    levelFilter.addEventListener('change', (e) => {
+      this._filterLevel = e.target.value;
+      this.updateFilteredEntries(true);
+    });
+
+    commandFilter.addEventListener('change', (e) => {
+      this._filterCommand = e.target.value;
+      showBtn.disabled = this._filterCommand === 'all';
+      this.updateFilteredEntries(true);
+    });
+
+    showBtn.addEventListener('click', () => {
+      if (this._filterCommand === 'all') {
+        return;
+      }
+      this.dispatchEvent(new CustomEvent('logs-show-requested', {
+        detail: { command: this._filterCommand }
+      }));
+    });
+
+    clearBtn.addEventListener('click', async () => {
+      const command = this._filterCommand === 'all' ? null : this._filterCommand;
+      const message = command
+        ? this.getNlsText('logsClearScriptMessage', 'Clear all logs of "{0}"?').replace('{0}', command)
+        : this.getNlsText('logsClearAllMessage', 'Clear the logs of all scripts?');
+      const choice = await window.ConfirmationSystem.showChoiceDialog(
+        this.getNlsText('logsClear', 'Clear'),
+        message,
+        [this.getNlsText('logsClear', 'Clear'), this.getNlsText('cancel', 'Cancel')]
+      );
+      if (choice === this.getNlsText('logsClear', 'Clear')) {
+        this.dispatchEvent(new CustomEvent('logs-clear-requested', {
+          detail: { command }
+        }));
+      }
+    });
+
+    this._eventListenersSetup = true;
+  }
+
+  // ============================================================================
+  // Data Processing and Filtering
+  // ============================================================================
+
+  matches(entry) {
+    if (this._filterCommand !== 'all' && entry.command !== this._filterCommand) {
+      return false;
+    }
+    if (LOG_VIEW_LEVELS.indexOf(entry.level) < LOG_VIEW_LEVELS.indexOf(this._filterLevel)) {
+      return false;
+    }
+    const q = this._filterText.trim().toLowerCase();
+    return !q || (entry.text || '').toLowerCase().includes(q) || (entry.command || '').toLowerCase().includes(q);
+  }
+
+  updateFilteredEntries(scrollToEnd = false) {
+    this._filteredEntries = this._entries.filter(e => this.matches(e));
+    this.renderList(scrollToEnd);
+  }
+
+  updateCommandOptions() {
+    const select = this.shadowRoot.getElementById('log-command-filter');
+    const commands = Array.from(new Set(this._entries.map(e => e.command))).sort();
+    if (this._filterCommand !== 'all' && !commands.includes(this._filterCommand)) {
+      commands.push(this._filterCommand);
+    }
+    const current = Array.from(select.options).slice(1).map(o => o.value);
+    if (current.join('\n') === commands.join('\n')) {
+      return;
+    }
+    select.innerHTML = `<option value="all" data-nls="logsAllScripts">${this.escapeHtml(this.getNlsText('logsAllScripts', 'All scripts'))}</option>` +
+      commands.map(c => `<option value="${this.escapeHtml(c)}">${this.escapeHtml(c)}</option>`).join('');
+    select.value = this._filterCommand;
+  }
+
+  renderList(scrollToEnd) {
+    const list = this.shadowRoot.getElementById('log-list');
+    if (!this._filteredEntries.length) {
+      list.innerHTML = `
+        <div class="log-empty">
+          <div><i class="codicon codicon-output"></i></div>
+          <h3>${this.escapeHtml(this.getNlsText('logsEmpty', 'No logs yet'))}</h3>
+          <p>${this.escapeHtml(this.getNlsText('logsEmptyDescription', 'console output and statusBarHelper.v1.log entries of every script appear here.'))}</p>
+        </div>
+      `;
+      return;
+    }
+    list.innerHTML = this._filteredEntries.map(e => this.rowHtml(e)).join('');
+    if (scrollToEnd) {
+      list.scrollTop = list.scrollHeight;
+    }
+  }
+
+  rowHtml(entry) {
+    return `
+      <div class="log-row">
+        <span class="log-time" title="${this.escapeHtml(new Date(entry.ts).toLocaleString())}">${this.formatTime(entry.ts)}</span>
+        <span class="log-level ${this.escapeHtml(entry.level)}">${this.escapeHtml(entry.level)}</span>
+        <span class="log-command" title="${this.escapeHtml(entry.command)}">${this.escapeHtml(entry.command)}</span>
+        <span class="log-text">${this.escapeHtml(entry.text)}</span>
+      </div>
+    `;
+  }
+
+  // ============================================================================
+  // Utility Methods
+  // ============================================================================
+
+  formatTime(ts) {
+    const d = new Date(ts);
+    const pad = (n, w = 2) => String(n).padStart(w, '0');
+    return `${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}.${pad(d.getMilliseconds(), 3)}`;
+  }
+
+  escapeHtml(str = '') {
+    return String(str).replace(/[&<>"']/g, (match) => {
+      const escapes = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+      return escapes[match];
+    });
+  }
+
+  getNlsText(key, defaultValue) {
+    return this._nlsData[key] || defaultValue || key;
+  }
+
+  updateTexts() {
+    this.shadowRoot.querySelectorAll('[data-nls]').forEach(el => {
+      const key = el.getAttribute('data-nls');
+      const text = this.getNlsText(key, el.textContent);
+      if (el.tagName === 'INPUT') {
+        el.placeholder = text;
+      } else {
+        el.textContent = text;
+      }
+    });
+    this.shadowRoot.getElementById('log-show-btn').title = this.getNlsText('logsOpenOutputTitle', 'Open the Output Channel of the selected script');
+    this.renderList(false);
+  }
+
+  // ============================================================================
+  // Public API Methods
+  // ============================================================================
+
+  /**
+   * Append live entries (skips entries already received)
+   */
+  appendEntries(entries) {
+    if (!Array.isArray(entries) || !entries.length) {
+      return;
+    }
+    const lastSeq = this._entries.length ? this._entries[this._entries.length - 1].seq : 0;
+    const fresh = entries.filter(e => e.seq > lastSeq);
+    if (!fresh.length) {
+      return;
+    }
+    const list = this.shadowRoot.getElementById('log-list');
+    const atBottom = list.scrollHeight - list.scrollTop - list.clientHeight < 24;
+
+    this._entries.push(...fresh);
+    if (this._entries.length > LOG_VIEW_MAX_ENTRIES) {
+      this._entries.splice(0, this._entries.length - LOG_VIEW_MAX_ENTRIES);
+    }
+    this.updateCommandOptions();
+    this.updateFilteredEntries(atBottom);
+  }
+
+  /**
+   * Remove entries of one command (null = all)
+   */
+  clearEntries(command) {
+    this._entries = command ? this._entries.filter(e => e.command !== command) : [];
+    this.updateCommandOptions();
+    this.updateFilteredEntries(true);
+  }
+
+  /**
+   * Request a full reload from the host
+   */
+  refresh() {
+    this.dispatchEvent(new CustomEvent('logs-refresh-requested', {
+      detail: { timestamp: Date.now() }
+    }));
+  }
+}
+
+// Register the custom element
+customElements.define('log-view', LogView);
+
+// Export for module systems
+if (typeof module !== 'undefined' && module.exports) {
+  module.exports = LogView;
+}
@@ -458,35 +458,43 @@ class MonacoEditorComponent extends HTMLElement {
     }
   }
 
-  // 應用類型定義
+  // 應用類型定義（JavaScript 與 TypeScript 項目共用）
   _applyTypeDefs() {
     if (!this._typeDefs || !monaco) {
       return;
     }
 
     try {
-      if (this._typeDefs.node) {
-        this._typeDefs.node.forEach((lib) => {
-          monaco.languages.typescript.javascriptDefaults.addExtraLib(
-            lib.content,
-            lib.path
-          );
-        });
-      }
+      const tsLang = monaco.languages.typescript;
+      // TypeScript 項目在 async 函式內執行：允許最上層 await / return（1108、1375、1378）
+      tsLang.typescriptDefaults.setCompilerOptions({
+        ...tsLang.typescriptDefaults.getCompilerOptions(),
+        target: tsLang.ScriptTarget.ES2020,
+        module: tsLang.ModuleKind.ESNext,
+        moduleResolution: tsLang.ModuleResolutionKind.NodeJs,
+        esModuleInterop: true,
+        allowNonTsExtensions: true,
+      });
+      tsLang.typescriptDefaults.setDiagnosticsOptions({
+        ...tsLang.typescriptDefaults.getDiagnosticsOptions(),
+        diagnosticCodesToIgnore: [1108, 1375, 1378],
+      });
 
-      if (this._typeDefs.vscode) {
-        monaco.languages.typescript.javascriptDefaults.addExtraLib(
-          this._typeDefs.vscode,
-          "file:///vscode.d.ts"
-        );
-      }
+      [tsLang.javascriptDefaults, tsLang.typescriptDefaults].forEach((defaults) => {
+        if (this._typeDefs.node) {
+          this._typeDefs.node.forEach((lib) => {
+            defaults.addExtraLib(lib.content, lib.path);
+          });
+        }
 
-      if (this._typeDefs.sbh) {
-        monaco.languages.typescript.javascriptDefaults.addExtraLib(
-          this._typeDefs.sbh,
-          "file:///sbh.d.ts"
-        );
-      }
+        if (this._typeDefs.vscode) {
+          defaults.addExtraLib(this._typeDefs.vscode, "file:///vscode.d.ts");
+        }
+
+        if (this._typeDefs.sbh) {
+          defaults.addExtraLib(this._typeDefs.sbh, "file:///sbh.d.ts");
+        }
+      });
     } catch (error) {
       console.warn("Failed to apply type definitions:", error);
     }
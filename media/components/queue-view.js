@@ -0,0 +1,440 @@
+/**
+ * Queue View Web Component
+ * ========================
+ *
+ * Displays vm.sendMessage messages waiting for their target script to register onMessage
+ *
+ * Features:
+ * - One group per target command with message count
+ * - Sender, queued time, TTL expiry and durable (persisted) badges per message
+ * - Delete a single message or clear a whole queue
+ * - Responsive design with theme adaptation
+ *
+ * API:
+ * - Properties: queues, nlsData
+ * - Events: queues-refresh-requested, queues-clear-requested
+ *
+ * @author Status Bar Helper
+ */
+
+class QueueView extends HTMLElement {
+  constructor() {
+    super();
+    this.attachShadow({ mode: 'open' });
+
+    // Internal state
+    this._queues = [];
+    this._nlsData = {};
+    this._eventListenersSetup = false;
+
+    this.render();
+
+    // Initialize codicons CSS if provided
+    const codiconsUri = this.getAttribute('codicons-uri');
+    if (codiconsUri) {
+      this.loadCodiconsCSS();
+    }
+
+    // Detect and apply theme class
+    this.updateThemeClass();
+
+    // Watch for theme changes
+    this.setupThemeObserver();
+  }
+
+  // ============================================================================
+  // Properties
+  // ============================================================================
+
+  get queues() {
+    return this._queues;
+  }
+
+  set queues(value) {
+    this._queues = Array.isArray(value) ? value : [];
+    this.renderList();
+  }
+
+  get nlsData() {
+    return this._nlsData;
+  }
+
+  set nlsData(value) {
+    this._nlsData = value || {};
+    this.updateTexts();
+  }
+
+  // ============================================================================
+  // Theme Management
+  // ============================================================================
+
+  updateThemeClass() {
+    const body = document.body;
+    if (body.classList.contains('vscode-light')) {
+      this.classList.add('vscode-light');
+      this.classList.remove('vscode-dark', 'vscode-high-contrast');
+    } else if (body.classList.contains('vscode-dark')) {
+      this.classList.add('vscode-dark');
+      this.classList.remove('vscode-light', 'vscode-high-contrast');
+    } else if (body.classList.contains('vscode-high-contrast')) {
+      this.classList.add('vscode-high-contrast');
+      this.classList.remove('vscode-light', 'vscode-dark');
+    }
+  }
+
+  setupThemeObserver() {
+    const observer = new MutationObserver(() => {
+      this.updateThemeClass();
+    });
+    observer.observe(document.body, {
+      attributes: true,
+      attributeFilter: ['class']
+    });
+    this._themeObserver = observer;
+  }
+
+  disconnectedCallback() {
+    if (this._themeObserver) {
+      this._themeObserver.disconnect();
+    }
+  }
+
+  loadCodiconsCSS() {
+    try {
+      const codiconsUri = this.getAttribute('codicons-uri');
+      if (codiconsUri) {
+        const link = document.createElement('link');
+        link.rel = 'stylesheet';
+        link.href = codiconsUri;
+        this.shadowRoot.insertBefore(link, this.shadowRoot.firstChild);
+      }
+    } catch (error) {
+      console.error('Failed to load Codicons CSS:', error);
+    }
+  }
+
+  // ============================================================================
+  // Core Rendering
+  // ============================================================================
+
+  render() {
+    this.shadowRoot.innerHTML = `
+      <style>
+        :host {
+          display: flex;
+          flex-direction: column;
+          height: 100%;
+          min-height: 0;
+          font-family: var(--vscode-font-family);
+          font-size: var(--vscode-font-size);
+          color: var(--vscode-foreground);
+          background: transparent;
+        }
+
+        .queue-title-bar {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          margin-bottom: 8px;
+          flex-shrink: 0;
+        }
+
+        #queue-summary {
+          color: var(--vscode-descriptionForeground);
+          font-size: 0.9em;
+        }
+
+        .queue-actions {
+          display: flex;
+          gap: 8px;
+          margin-left: auto;
+        }
+
+        button {
+          background: var(--vscode-button-secondaryBackground);
+          color: var(--vscode-button-secondaryForeground);
+          border: 1px solid var(--vscode-button-border, transparent);
+          border-radius: 4px;
+          padding: 4px 10px;
+          height: 26px;
+          font-size: 0.9em;
+          cursor: pointer;
+          display: flex;
+          align-items: center;
+          gap: 6px;
+        }
+
+        button:hover {
+          background: var(--vscode-button-secondaryHoverBackground);
+        }
+
+        button.icon-only {
+          background: transparent;
+          border-color: transparent;
+          padding: 2px 4px;
+          height: 22px;
+        }
+
+        button.icon-only:hover {
+          background: var(--vscode-toolbar-hoverBackground);
+        }
+
+        .queue-list {
+          flex: 1;
+          overflow: auto;
+          border: 1px solid var(--vscode-panel-border);
+          border-radius: 4px;
+        }
+
+        .queue-group + .queue-group {
+          border-top: 1px solid var(--vscode-panel-border);
+        }
+
+        .queue-group-header {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          padding: 4px 8px;
+          background: var(--vscode-sideBarSectionHeader-background, transparent);
+          font-weight: 600;
+        }
+
+        .queue-command {
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+
+        .queue-count {
+          font-weight: normal;
+          font-size: 0.85em;
+          padding: 0 6px;
+          border-radius: 8px;
+          background: var(--vscode-badge-background);
+          color: var(--vscode-badge-foreground);
+        }
+
+        .queue-group-header button {
+          margin-left: auto;
+        }
+
+        .queue-row {
+          display: grid;
+          grid-template-columns: 72px minmax(80px, 160px) auto 1fr auto;
+          gap: 8px;
+          padding: 3px 8px;
+          border-top: 1px solid var(--vscode-panel-border);
+          align-items: center;
+          font-size: 0.85em;
+        }
+
+        .queue-row:hover {
+          background: var(--vscode-list-hoverBackground);
+        }
+
+        .queue-time, .queue-from {
+          color: var(--vscode-descriptionForeground);
+          white-space: nowrap;
+          overflow: hidden;
+          text-overflow: ellipsis;
+        }
+
+        .queue-badges {
+          display: flex;
+          gap: 4px;
+          color: var(--vscode-descriptionForeground);
+        }
+
+        .queue-preview {
+          font-family: var(--vscode-editor-font-family);
+          white-space: nowrap;
+          overflow: hidden;
+          text-overflow: ellipsis;
+        }
+
+        .queue-empty {
+          text-align: center;
+          padding: 40px 20px;
+          color: var(--vscode-descriptionForeground);
+        }
+
+        .queue-empty i {
+          font-size: 48px;
+          opacity: 0.3;
+        }
+
+        .queue-empty h3 {
+          margin: 8px 0;
+          font-weight: 500;
+        }
+
+        .queue-empty p {
+          margin: 0;
+          font-size: 0.9em;
+        }
+      </style>
+
+      <div class="queue-title-bar">
+        <span id="queue-summary"></span>
+        <div class="queue-actions">
+          <button id="queue-refresh-btn" type="button">
+            <i class="codicon codicon-refresh"></i>
+            <span data-nls="queuesRefresh">Refresh</span>
+          </button>
+        </div>
+      </div>
+      <div class="queue-list" id="queue-list"></div>
+    `;
+
+    this.setupEventListeners();
+  }
+
+  // ============================================================================
+  // Event Handling
+  // ============================================================================
+
+  setupEventListeners() {
+    if (this._eventListenersSetup) {
+      return;
+    }
+
+    this.shadowRoot.getElementById('queue-refresh-btn').addEventListener('click', () => this.refresh());
+
+    this.shadowRoot.getElementById('queue-list').addEventListener('click', async (e) => {
+      const button = e.target.closest('button[data-command]');
+      if (!button) {
+        return;
+      }
+      const command = button.dataset.command;
+      const id = button.dataset.id;
+      if (id) {
+        this.dispatchEvent(new CustomEvent('queues-clear-requested', { detail: { command, id } }));
+        return;
+      }
+      const choice = await window.ConfirmationSystem.showChoiceDialog(
+        this.getNlsText('queuesClear', 'Clear'),
+        this.getNlsText('queuesClearMessage', 'Discard all queued messages for "{0}"?').replace('{0}', command),
+        [this.getNlsText('queuesClear', 'Clear'), this.getNlsText('cancel', 'Cancel')]
+      );
+      if (choice === this.getNlsText('queuesClear', 'Clear')) {
+        this.dispatchEvent(new CustomEvent('queues-clear-requested', { detail: { command } }));
+      }
+    });
+
+    this._eventListenersSetup = true;
+  }
+
+  // ============================================================================
+  // List Rendering
+  // ============================================================================
+
+  renderList() {
+    const list = this.shadowRoot.getElementById('queue-list');
+    const total = this._queues.reduce((n, q) => n + q.messages.length, 0);
+    this.shadowRoot.getElementById('queue-summary').textContent = total
+      ? this.getNlsText('queuesSummary', '{0} message(s) in {1} queue(s)').replace('{0}', total).replace('{1}', this._queues.length)
+      : '';
+    if (!total) {
+      list.innerHTML = `
+        <div class="queue-empty">
+          <div><i class="codicon codicon-inbox"></i></div>
+          <h3>${this.escapeHtml(this.getNlsText('queuesEmpty', 'No queued messages'))}</h3>
+          <p>${this.escapeHtml(this.getNlsText('queuesEmptyDescription', 'vm.sendMessage messages wait here until the target script registers onMessage.'))}</p>
+        </div>
+      `;
+      return;
+    }
+    list.innerHTML = this._queues.map(q => this.groupHtml(q)).join('');
+  }
+
+  groupHtml(queue) {
+    const command = this.escapeHtml(queue.command);
+    return `
+      <div class="queue-group">
+        <div class="queue-group-header">
+          <i class="codicon codicon-inbox"></i>
+          <span class="queue-command" title="${command}">${command}</span>
+          <span class="queue-count">${queue.messages.length}</span>
+          <button type="button" data-command="${command}">
+            <i class="codicon codicon-clear-all"></i>
+            <span>${this.escapeHtml(this.getNlsText('queuesClear', 'Clear'))}</span>
+          </button>
+        </div>
+        ${queue.messages.map(m => this.rowHtml(queue.command, m)).join('')}
+      </div>
+    `;
+  }
+
+  rowHtml(command, message) {
+    const badges = [];
+    if (message.durable) {
+      badges.push(`<i class="codicon codicon-database" title="${this.escapeHtml(this.getNlsText('queuesDurable', 'Durable: kept across reloads'))}"></i>`);
+    }
+    if (message.expiresAt) {
+      const title = this.getNlsText('queuesExpires', 'Expires at {0}').replace('{0}', new Date(message.expiresAt).toLocaleString());
+      badges.push(`<i class="codicon codicon-watch" title="${this.escapeHtml(title)}"></i>`);
+    }
+    const from = this.getNlsText('queuesFrom', 'from {0}').replace('{0}', message.from);
+    return `
+      <div class="queue-row">
+        <span class="queue-time" title="${this.escapeHtml(new Date(message.ts).toLocaleString())}">${this.formatTime(message.ts)}</span>
+        <span class="queue-from" title="${this.escapeHtml(from)}">${this.escapeHtml(from)}</span>
+        <span class="queue-badges">${badges.join('')}</span>
+        <span class="queue-preview" title="${this.escapeHtml(message.preview)}">${this.escapeHtml(message.preview)}</span>
+        <button type="button" class="icon-only" data-command="${this.escapeHtml(command)}" data-id="${this.escapeHtml(message.id)}" title="${this.escapeHtml(this.getNlsText('queuesDeleteTitle', 'Delete this message'))}">
+          <i class="codicon codicon-trash"></i>
+        </button>
+      </div>
+    `;
+  }
+
+  // ============================================================================
+  // Utility Methods
+  // ============================================================================
+
+  formatTime(ts) {
+    const d = new Date(ts);
+    const pad = (n) => String(n).padStart(2, '0');
+    return `${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+  }
+
+  escapeHtml(str = '') {
+    return String(str).replace(/[&<>"']/g, (match) => {
+      const escapes = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+      return escapes[match];
+    });
+  }
+
+  getNlsText(key, defaultValue) {
+    return this._nlsData[key] || defaultValue || key;
+  }
+
+  updateTexts() {
+    this.shadowRoot.querySelectorAll('[data-nls]').forEach(el => {
+      const key = el.getAttribute('data-nls');
+      el.textContent = this.getNlsText(key, el.textContent);
+    });
+    this.renderList();
+  }
+
+  // ============================================================================
+  // Public API Methods
+  // ============================================================================
+
+  /**
+   * Request a full reload from the host
+   */
+  refresh() {
+    this.dispatchEvent(new CustomEvent('queues-refresh-requested', {
+      detail: { timestamp: Date.now() }
+    }));
+  }
+}
+
+// Register the custom element
+customElements.define('queue-view', QueueView);
+
+// Export for module systems
+if (typeof module !== 'undefined' && module.exports) {
+  module.exports = QueueView;
+}
@@ -44,6 +44,16 @@ async function main() {
   //   將專案的 ./types 內容直接攤到 out/typedefs 下（保留子結構）
   await copyDirContents(path.join(root, 'types'), typedefs);
 
+  // 2.5) TypeScript 編譯器：TS 項目存檔時型別檢查、執行前 transpile（node_modules 不會打包進 vsix）
+  //   只需要 typescript.js 與同目錄的 lib.*.d.ts（getDefaultLibFilePath 以 typescript.js 所在位置尋找）
+  const tsLib = path.join(root, 'node_modules/typescript/lib');
+  if (await exists(tsLib)) {
+    const tsOut = path.join(outDir, 'typescript');
+    await ensureDir(tsOut);
+    const libFiles = (await readdir(tsLib)).filter(f => f === 'typescript.js' || /^lib\..*\.d\.ts$/.test(f));
+    await Promise.all(libFiles.map(f => cp(path.join(tsLib, f), path.join(tsOut, f))));
+  }
+
   // 3) 等同：cpx "package.nls*.json" out
   //   複製所有符合的 NLS 檔到 out 根目錄
   const files = await readdir(root);
@@ -57,11 +57,27 @@ import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
 // Removed legacy default-items import (deprecated restore defaults flow)
 import {
   loadFromGlobal,
+  loadPermissionGrants,
   saveAllToGlobal,
   SbhItem
 } from './globalStateManager';
+import { consentFingerprint } from './permissions';
+import { addItemKeybinding, normalizeKeybinding } from './keybindings';
 import { localize } from './nls';
 import { BACKUP_DIR } from './utils/backup';
+import { LOGS_DIR, ScriptLogEntry } from './scriptLogManager';
+import { scopedKeyOwner } from './kvStorage';
+
+/** Logs 分頁初次載入的最大筆數 */
+const LOGS_INITIAL_LIMIT = 2000;
+/** 即時日誌批次送出的間隔 */
+const LOGS_FLUSH_MS = 200;
+/** 執行紀錄變動後延遲送出（合併同一次執行的 begin / done / end） */
+const RUN_HISTORY_DEBOUNCE_MS = 300;
+/** 訊息佇列變動後延遲送出（大量 sendMessage 時合併） */
+const QUEUES_DEBOUNCE_MS = 300;
+/** storage 變動後延遲重新整理資料頁（腳本頻繁寫入時合併） */
+const STORED_DATA_DEBOUNCE_MS = 1000;
 
 /**
  * Settings Panel - 主要的設定介面管理類別
@@ -103,6 +119,19 @@ export class SettingsPanel {
   /** 面板專用的 VM 執行狀態定時器（用於「Run」按鈕預覽） */
   private sendRunningSetIntervalId: NodeJS.Timeout | undefined;
 
+  /** 待送往 Logs 分頁的即時日誌（批次送出） */
+  private _pendingLogs: ScriptLogEntry[] = [];
+  private _logsFlushTimer: NodeJS.Timeout | undefined;
+
+  /** 執行紀錄更新的 debounce 計時器 */
+  private _runHistoryTimer: NodeJS.Timeout | undefined;
+
+  /** 訊息佇列更新的 debounce 計時器 */
+  private _queuesTimer: NodeJS.Timeout | undefined;
+
+  /** 資料頁更新的 debounce 計時器 */
+  private _storedDataTimer: NodeJS.Timeout | undefined;
+
   /** 最近一次成功同步的時間戳 */
   lastSyncAt = null; // timestamp of last successful sync
 
@@ -116,6 +145,11 @@ export class SettingsPanel {
     setTimeout(() => {
       this._sendRunningToWebview();
       this._sendStoredDataToWebview();
+      this._sendLogsToWebview();
+      this._sendRunHistoryToWebview();
+      this._sendQueuesToWebview();
+      this.postSchedules();
+      this.postWorkspaceItems();
     }, 400);
 
     // 啟動執行狀態定時更新（每2.5秒向 webview 發送最新的執行狀態）
@@ -405,7 +439,7 @@ export class SettingsPanel {
 
             try {
               await vscode.commands.executeCommand('statusBarHelper._bridge', {
-                ns: 'hostRun', fn: 'start', args: [cmd, code]
+                ns: 'hostRun', fn: 'start', args: [cmd, code, message.options || {}]
               });
             } catch (e:any) {
               vscode.window.showErrorMessage(localize('err.run.startFailed', 'Failed to start: {0}', e?.message || String(e)));
@@ -440,6 +474,107 @@ export class SettingsPanel {
             this._sendStoredDataToWebview();
             return;
           }
+          case 'logs:refresh': {
+            this._sendLogsToWebview();
+            return;
+          }
+          case 'logs:clear': {
+            try { await this._callBridge('log', 'clear', message.itemCommand || undefined); } catch {}
+            return;
+          }
+          case 'queues:refresh': {
+            this._sendQueuesToWebview();
+            return;
+          }
+          case 'queues:clear': {
+            if (typeof message.itemCommand !== 'string') { return; }
+            try { await this._callBridge('vm', 'clearQueue', message.itemCommand, message.id); } catch {}
+            return;
+          }
+          case 'keybinding:add': {
+            const cmd = typeof message.itemCommand === 'string' ? message.itemCommand : '';
+            const key = normalizeKeybinding(message.key);
+            if (!cmd || !key) { return; }
+            try {
+              const result = await addItemKeybinding(cmd, key);
+              vscode.window.showInformationMessage(result === 'exists'
+                ? localize('msg.keybindingExists', '{0} is already bound to {1} in keybindings.json.', key, cmd)
+                : localize('msg.keybindingAdded', 'Added {0} for {1} to keybindings.json.', key, cmd));
+            } catch (e: any) {
+              vscode.window.showErrorMessage(e?.message || String(e));
+            }
+            return;
+          }
+          case 'when:test': {
+            const expr = typeof message.expr === 'string' ? message.expr : '';
+            try {
+              const result = await this._callBridge('context', 'evaluate', expr);
+              this._panel.webview.postMessage({ command: 'when:result', expr, ...result });
+            } catch (e: any) {
+              this._panel.webview.postMessage({ command: 'when:result', expr, value: false, error: e?.message || String(e) });
+            }
+            return;
+          }
+          case 'script:check': {
+            // TS 項目存檔後的型別檢查；結果以 Monaco markers 顯示
+            const cmd = typeof message.itemCommand === 'string' ? message.itemCommand : '';
+            try {
+              const diagnostics = await this._callBridge('compiler', 'check', String(message.code ?? ''));
+              this._panel.webview.postMessage({ command: 'script:diagnostics', itemCommand: cmd, diagnostics });
+            } catch (e: any) {
+              this._panel.webview.postMessage({ command: 'script:diagnostics', itemCommand: cmd, diagnostics: [], error: e?.message || String(e) });
+            }
+            return;
+          }
+          case 'revisions:list': {
+            const cmd = typeof message.itemCommand === 'string' ? message.itemCommand : '';
+            if (!cmd) { return; }
+            try {
+              const revisions = await this._callBridge('revisions', 'list', cmd);
+              this._panel.webview.postMessage({ command: 'revisions:list', itemCommand: cmd, revisions });
+            } catch (e: any) {
+              this._panel.webview.postMessage({ command: 'revisions:list', itemCommand: cmd, revisions: [], error: e?.message || String(e) });
+            }
+            return;
+          }
+          case 'revisions:restore': {
+            const cmd = typeof message.itemCommand === 'string' ? message.itemCommand : '';
+            if (!cmd || typeof message.id !== 'string') { return; }
+            try {
+              const item = await this._callBridge('revisions', 'restore', cmd, message.id);
+              if (this._editingItem?.command === cmd) { this._editingItem = item; }
+              this._panel.webview.postMessage({ command: 'revisions:restored', item });
+            } catch (e: any) {
+              vscode.window.showErrorMessage(e?.message || String(e));
+            }
+            return;
+          }
+          case 'script:openFile': {
+            if (typeof message.itemCommand === 'string' && message.itemCommand) {
+              try {
+                await vscode.commands.executeCommand('statusBarHelper.openScript', message.itemCommand);
+              } catch (e: any) {
+                vscode.window.showErrorMessage(e?.message || String(e));
+              }
+            }
+            return;
+          }
+          case 'workspaceItems:open': {
+            if (typeof message.file === 'string' && message.file) {
+              try {
+                await vscode.window.showTextDocument(vscode.Uri.file(message.file), { preview: false });
+              } catch (e: any) {
+                vscode.window.showErrorMessage(e?.message || String(e));
+              }
+            }
+            return;
+          }
+          case 'logs:show': {
+            if (message.itemCommand) {
+              try { await this._callBridge('log', 'show', message.itemCommand); } catch {}
+            }
+            return;
+          }
           case 'data:delete': {
             const row = message.row as { kind: 'file' | 'kv' | 'secret' | 'package'; scope: 'global' | 'workspace'; keyPath: string };
             try {
@@ -646,6 +781,21 @@ export class SettingsPanel {
     SettingsPanel.currentPanel = new SettingsPanel(panel, extensionUri);
   }
 
+  /** 開啟面板並切換到某個項目的編輯檢視（指令面板的 Edit 按鈕） */
+  public static showEditView(extensionUri: vscode.Uri, context: vscode.ExtensionContext, command: string) {
+    const item = loadFromGlobal(context).find(i => i.command === command);
+    if (!item) { return; }
+    const existing = SettingsPanel.currentPanel;
+    SettingsPanel.createOrShow(extensionUri, context);
+    if (existing) {
+      existing._panel.webview.postMessage({ command: 'edit:open', itemCommand: command });
+    } else if (SettingsPanel.currentPanel) {
+      // 新面板：webview 載入後以 loadState 的 activeView 進入編輯檢視
+      SettingsPanel.currentPanel._activeView = 'edit';
+      SettingsPanel.currentPanel._editingItem = item;
+    }
+  }
+
   private _update() {
     const webview = this._panel.webview;
   this._panel.title = localize('panel.title', 'StatusBar Helper Settings');
@@ -712,6 +862,7 @@ export class SettingsPanel {
             lastSyncAt: this.lastSyncAt
           });
           this._sendRunningToWebview();
+          this.sendPermissionGrants();
         });
       return; // 早退，避免重複 sendRunning
     } catch {
@@ -728,6 +879,22 @@ export class SettingsPanel {
       lastSyncAt: this.lastSyncAt
     });
     this._sendRunningToWebview();
+    this.sendPermissionGrants();
+  }
+
+  /** 送出目前仍有效的權限同意紀錄（權限或腳本內容變更後舊的同意即失效） */
+  public sendPermissionGrants() {
+    const ctx = SettingsPanel.extensionContext;
+    if (!ctx) { return; }
+    const all = loadPermissionGrants(ctx);
+    const grants: Record<string, { at: number }> = {};
+    for (const item of loadFromGlobal(ctx)) {
+      const g = all[item.command];
+      if (item.permissions && g && g.fingerprint === consentFingerprint(item.permissions, item.script || '')) {
+        grants[item.command] = { at: g.at };
+      }
+    }
+    this._panel.webview.postMessage({ command: 'permissions:grants', grants });
   }
 
   private _loadTranslations(): Record<string, string> {
@@ -781,6 +948,100 @@ export class SettingsPanel {
     this._panel.webview.postMessage({ command: 'data:setRows', rows });
   }
 
+  private async _sendLogsToWebview() {
+    try {
+      const entries = await this._callBridge('log', 'history', undefined, { limit: LOGS_INITIAL_LIMIT });
+      this._pendingLogs = [];
+      this._panel.webview.postMessage({ command: 'logs:set', entries });
+    } catch {
+      this._panel.webview.postMessage({ command: 'logs:set', entries: [] });
+    }
+  }
+
+  /** 新日誌先累積，定時批次送出，避免大量輸出時逐筆 postMessage */
+  public queueLogEntry(entry: ScriptLogEntry) {
+    this._pendingLogs.push(entry);
+    if (this._logsFlushTimer) { return; }
+    this._logsFlushTimer = setTimeout(() => {
+      this._logsFlushTimer = undefined;
+      const entries = this._pendingLogs;
+      this._pendingLogs = [];
+      if (entries.length) { this._panel.webview.postMessage({ command: 'logs:append', entries }); }
+    }, LOGS_FLUSH_MS);
+  }
+
+  public postLogsCleared(command?: string) {
+    this._pendingLogs = command ? this._pendingLogs.filter(e => e.command !== command) : [];
+    this._panel.webview.postMessage({ command: 'logs:cleared', itemCommand: command ?? null });
+  }
+
+  /** 各項目的上次執行 / 上次錯誤（列表顯示用） */
+  private async _sendRunHistoryToWebview() {
+    try {
+      const summaries = await this._callBridge('vm', 'runSummaries');
+      this._panel.webview.postMessage({ command: 'runHistory:set', summaries });
+    } catch {}
+  }
+
+  /** 各目標尚未送出的訊息（Queues 分頁） */
+  private async _sendQueuesToWebview() {
+    try {
+      const queues = await this._callBridge('vm', 'queues');
+      this._panel.webview.postMessage({ command: 'queues:set', queues });
+    } catch {}
+  }
+
+  public scheduleQueuesUpdate() {
+    if (this._queuesTimer) { return; }
+    this._queuesTimer = setTimeout(() => {
+      this._queuesTimer = undefined;
+      this._sendQueuesToWebview();
+    }, QUEUES_DEBOUNCE_MS);
+  }
+
+  public scheduleStoredDataUpdate() {
+    if (this._storedDataTimer) { return; }
+    this._storedDataTimer = setTimeout(() => {
+      this._storedDataTimer = undefined;
+      this._sendStoredDataToWebview();
+    }, STORED_DATA_DEBOUNCE_MS);
+  }
+
+  /** 項目在面板外被修改（編輯器分頁存檔）；編輯頁沒有未儲存的變更時直接更新 */
+  public postItemUpdated(item: SbhItem) {
+    if (this._editingItem?.command === item.command) { this._editingItem = { ...this._editingItem, script: item.script }; }
+    this._panel.webview.postMessage({ command: 'item:updated', item });
+  }
+
+  /** 某個項目新增了版本（編輯頁的 History 開著時重新載入） */
+  public postRevisionsChanged(command: string) {
+    this._panel.webview.postMessage({ command: 'revisions:changed', itemCommand: command });
+  }
+
+  /** .vscode/ 定義的工作區項目（唯讀，列表另外顯示） */
+  public async postWorkspaceItems() {
+    try {
+      const items = await this._callBridge('vm', 'workspaceItems');
+      this._panel.webview.postMessage({ command: 'workspaceItems:set', items });
+    } catch {}
+  }
+
+  /** 排程項目的下次執行時間（command → ms） */
+  public async postSchedules() {
+    try {
+      const nextRuns = await this._callBridge('vm', 'schedules');
+      this._panel.webview.postMessage({ command: 'schedule:set', nextRuns });
+    } catch {}
+  }
+
+  public scheduleRunHistoryUpdate() {
+    if (this._runHistoryTimer) { return; }
+    this._runHistoryTimer = setTimeout(() => {
+      this._runHistoryTimer = undefined;
+      this._sendRunHistoryToWebview();
+    }, RUN_HISTORY_DEBOUNCE_MS);
+  }
+
   private async _sendRunningToWebview() {
     try {
       const r = await vscode.commands.executeCommand(
@@ -850,6 +1111,22 @@ export class SettingsPanel {
       clearInterval(this.sendRunningSetIntervalId);
       this.sendRunningSetIntervalId = undefined;
     }
+    if (this._logsFlushTimer) {
+      clearTimeout(this._logsFlushTimer);
+      this._logsFlushTimer = undefined;
+    }
+    if (this._runHistoryTimer) {
+      clearTimeout(this._runHistoryTimer);
+      this._runHistoryTimer = undefined;
+    }
+    if (this._queuesTimer) {
+      clearTimeout(this._queuesTimer);
+      this._queuesTimer = undefined;
+    }
+    if (this._storedDataTimer) {
+      clearTimeout(this._storedDataTimer);
+      this._storedDataTimer = undefined;
+    }
     SettingsPanel.currentPanel = undefined;
     this._panel.dispose();
   while (this._disposables.length) { const x = this._disposables.pop(); if (x) { x.dispose(); } }
@@ -912,8 +1189,8 @@ export class SettingsPanel {
   }
 
   // === 收集 Stored Data（files + kv + packages）===
-  private async _collectStoredRows(): Promise<Array<{kind:'file'|'kv'|'secret'|'package'; scope:'global'|'workspace'; ext:'text'|'json'|'bytes'; keyPath:string; size:number; version?:string}>> {
-    const rows: Array<{kind:'file'|'kv'|'secret'|'package'; scope:'global'|'workspace'; ext:'text'|'json'|'bytes'; keyPath:string; size:number; version?:string}> = [];
+  private async _collectStoredRows(): Promise<Array<{kind:'file'|'kv'|'secret'|'package'; scope:'global'|'workspace'; ext:'text'|'json'|'bytes'; keyPath:string; size:number; version?:string; owner?:string}>> {
+    const rows: Array<{kind:'file'|'kv'|'secret'|'package'; scope:'global'|'workspace'; ext:'text'|'json'|'bytes'; keyPath:string; size:number; version?:string; owner?:string}> = [];
 
     // 1) files (global/workspace)
     for (const scope of ['global','workspace'] as const) {
@@ -925,13 +1202,15 @@ export class SettingsPanel {
           if (!rel) { return; }
           // 排除 sbh.packages 目錄（套件由 packages API 管理）
           if (rel.startsWith('sbh.packages/') || rel.startsWith('sbh.packages\\')) { return; }
+          // 排除持久化的腳本日誌（於 Logs 分頁管理）
+          if (rel.startsWith(`${LOGS_DIR}/`) || rel.startsWith(`${LOGS_DIR}\\`)) { return; }
           const ext = /\.json$/i.test(rel) ? 'json' : /\.txt$/i.test(rel) ? 'text' : 'bytes';
           rows.push({ kind:'file', scope, ext, keyPath: rel, size: Number(f.size || 0) });
         });
       } catch {}
     }
 
-    // 2) key-value storage (global/workspace)
+    // 2) key-value storage (global/workspace)；storage.scoped 的 key 標上擁有者 command，資料頁依此分組
     const jsonSize = (v:any) => Buffer.byteLength(JSON.stringify(v ?? null), 'utf8');
     for (const scope of ['global','workspace'] as const) {
       const fnKeys = scope === 'global' ? 'keysGlobal' : 'keysWorkspace';
@@ -940,7 +1219,8 @@ export class SettingsPanel {
         const keys: string[] = await this._callBridge('storage', fnKeys);
         for (const k of keys) {
           const val = await this._callBridge('storage', fnGet, k, null);
-          rows.push({ kind:'kv', scope, ext:'json', keyPath:k, size: jsonSize(val) });
+          const owner = scopedKeyOwner(k);
+          rows.push({ kind:'kv', scope, ext:'json', keyPath:k, size: jsonSize(val), ...(owner ? { owner } : {}) });
         }
       } catch {}
     }
@@ -1,5 +1,6 @@
 // src/SidebarManager.ts
 import * as vscode from 'vscode';
+import { stateKeyMatches } from './stateStore';
 
 export type CloseReason = 'closed' | 'replaced';
 
@@ -11,6 +12,11 @@ export type OpenSpec =
       focus?: boolean;
       /** 只綁在本次 session 的 onClose；會收到 'closed' 或 'replaced' */
       onClose?: (reason: CloseReason) => void;
+      /**
+       * 轉送給頁面的 v1.state key（'*' = 全部，結尾 * = 前綴）：變動時 post { type: 'sbh:state', key, value }；
+       * 頁面 post { type: 'sbh:state.sync' } 可取得目前的值
+       */
+      state?: string | string[];
     };
 
 const CONTAINER_ID = 'sbhContainer';
@@ -48,6 +54,11 @@ export class SidebarManager {
   /** 序列鎖，避免 open/close 競態 */
   private lock: Promise<void> = Promise.resolve();
 
+  /** 本次 session 轉送的 state key pattern */
+  private statePatterns: string[] = [];
+  /** 取得 state 目前的值（由 extension 設定） */
+  private stateSource: ((pattern: string) => Record<string, any>) | null = null;
+
   constructor() {
     this.defaultHtml = this.makeBuiltinDefaultHtml();
   }
@@ -71,6 +82,10 @@ export class SidebarManager {
     }
 
     this.webviewMsgDisposable = view.webview.onDidReceiveMessage((msg) => {
+      if (msg?.type === 'sbh:state.sync') {
+        this.postStateSnapshot();
+        return;
+      }
       for (const h of Array.from(this.onMessageHandlers)) {
         try { h(msg); } catch {}
       }
@@ -112,6 +127,8 @@ export class SidebarManager {
       if (typeof spec === 'object' && typeof spec.onClose === 'function') {
         this.onCloseHandlers.add(spec.onClose);
       }
+      const state = typeof spec === 'object' ? spec.state : undefined;
+      this.statePatterns = (Array.isArray(state) ? state : state ? [state] : []).filter(p => typeof p === 'string' && p);
 
       // 3) 載入新內容
       this.sessionActive = true;
@@ -135,6 +152,16 @@ export class SidebarManager {
     return this.view?.webview.postMessage(msg) ?? Promise.resolve(false);
   }
 
+  setStateSource(source: (pattern: string) => Record<string, any>) {
+    this.stateSource = source;
+  }
+
+  /** v1.state 變動：本次 session 有轉送該 key 時通知頁面 */
+  notifyState(key: string, value: any) {
+    if (!this.sessionActive || !this.statePatterns.some(p => stateKeyMatches(p, key))) { return; }
+    void this.postMessage({ type: 'sbh:state', key, value });
+  }
+
   onMessage(handler: (msg: any) => void): vscode.Disposable {
     this.onMessageHandlers.add(handler);
     return new vscode.Disposable(() => this.onMessageHandlers.delete(handler));
@@ -170,9 +197,19 @@ export class SidebarManager {
       this.pendingHtml = this.defaultHtml;
     }
     this.sessionActive = false;
+    this.statePatterns = [];
     this.fireOnClose(reason); // 只通知當前 session，並清空 handlers
   }
 
+  private postStateSnapshot() {
+    if (!this.sessionActive || !this.stateSource) { return; }
+    for (const pattern of this.statePatterns) {
+      for (const [key, value] of Object.entries(this.stateSource(pattern))) {
+        void this.postMessage({ type: 'sbh:state', key, value });
+      }
+    }
+  }
+
   private fireOnClose(reason: CloseReason) {
     const handlers = Array.from(this.onCloseHandlers);
     this.onCloseHandlers.clear();
@@ -37,7 +37,21 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as vm from 'vm';
+import { Worker } from 'worker_threads';
 import { localize } from './nls';
+import { buildSbhApi, formatLogArg, LogLevel, StateWatchEvent, StorageChangeEvent } from './sbhApi';
+import {
+  SbhPermissions,
+  checkBridge,
+  checkCommand,
+  checkRequire,
+  checkVscodeApi,
+  consentFingerprint,
+  filterSecretKeys,
+  permissionsFingerprint,
+  requestsAnything
+} from './permissions';
+import type { WorkerInit, ToWorker, FromWorker } from './worker/scriptWorker';
 import { SettingsPanel } from './SettingsPanel';
 import {
   parseAndValidate,
@@ -52,19 +66,55 @@ import {
   loadFromGlobal,
   saveOneToGlobal,
   saveAllToGlobal,
+  toManifestMeta,
+  loadPermissionGrants,
+  savePermissionGrant,
+  loadWorkspaceAutorunApprovals,
+  saveWorkspaceAutorunApproval,
   SbhItem,
   MIGRATION_FLAG_KEY,
   GLOBAL_MANIFEST_KEY,
-  GLOBAL_ITEMS_KEY
+  GLOBAL_ITEMS_KEY,
+  onDidSaveScripts
 } from './globalStateManager';
 import { SmartBackupManager } from './SmartBackupManager';
 import { BACKUP_DIR } from './utils/backup';
 import { SidebarManager } from './SidebarManager';
+import { ScriptLogManager } from './scriptLogManager';
+import { MessageQueueManager, SendMessageOptions } from './messageQueueManager';
+import { RunHistoryManager, RunOrigin } from './runHistoryManager';
+import { RevisionManager } from './revisionManager';
+import { ScriptFileSystemProvider, SCRIPT_SCHEME, openScriptFile, scriptUri } from './scriptFileSystem';
+import { ScriptCompiler, ScriptDiagnostic } from './scriptCompiler';
+import { LIB_PREFIX, LibraryLoader, createLibraryRequire, usesModuleSyntax } from './scriptLibraries';
+import { libraryFileName, remapStack, scriptFileName, setSourceMap } from './sourceMaps';
+import { VmRequestError, VmRpc } from './vmRpc';
+import { VmPubSub } from './vmPubSub';
+import { StateStore, STATE_KEY_PREFIX, stateKeyMatches } from './stateStore';
+import { KvChange, KvChangeTracker, KvScope, scopedKeyPrefix } from './kvStorage';
+import { ItemScheduler, scheduleFingerprint } from './scheduler';
+import { TriggerManager, TriggerPayload, triggersFingerprint } from './triggers';
+import { StatusBarItemManager, ItemBackground, toItemColor, toItemTooltip } from './statusBarItemManager';
+import { WorkspaceItem, WorkspaceItemSource, autorunFingerprint, autorunId, autorunKinds, isWorkspaceItem } from './workspaceItems';
+import { WhenClauseManager } from './whenClause';
+import { actionArgs, actionsFingerprint, pickItemAction, SbhAction, toPlain } from './itemActions';
+import { RUN_ITEM_COMMAND, parseRunItemArgs } from './keybindings';
 import { addSecretKey, loadSecretKeys, removeSecretKey } from './secretKeyManager';
 
 const sidebarMgr = new SidebarManager();
+const scriptLogs = new ScriptLogManager();
+const runHistory = new RunHistoryManager();
+const revisions = new RevisionManager();
+const messageQueues = new MessageQueueManager();
+const scriptCompiler = new ScriptCompiler();
+const libraries = new LibraryLoader(item => compileForRun(item.script, libraryFileName(item.library!), item.command, item.language));
+const statusItems = new StatusBarItemManager();
+const workspaceItems = new WorkspaceItemSource();
 
 let _smartBackupManager: SmartBackupManager | null = null;
+let _itemScheduler: ItemScheduler | null = null;
+let _triggerManager: TriggerManager | null = null;
+let _whenManager: WhenClauseManager | null = null;
 
 // ============================================================================
 // Global State - VM Management & Status Bar Runtime
@@ -131,6 +181,10 @@ function _calcAdaptiveInterval(isPanelOpen: boolean, stable: number): number {
 // ─────────────────────────────────────────────────────────────
 const fsp = fs.promises;
 const KV_PREFIX = 'sbh.kv.';
+/** v1.state：persist 的 key 存在 KV 命名空間的 state/ 下 */
+const stateStore = new StateStore(KV_PREFIX);
+/** storage.*.onDidChange 的來源（_bridge 寫入 + 背景輪詢其他視窗 / 裝置的寫入） */
+const kvChanges = new KvChangeTracker(KV_PREFIX);
 const STORAGE_KEY_LIMIT   =  5 * 1024 * 1024;  // 5MB
 const STORAGE_TOTAL_LIMIT = 200 * 1024 * 1024; // 200MB
 const JSON_SIZE_LIMIT     =  15 * 1024 * 1024; // 15MB
@@ -311,11 +365,229 @@ type RuntimeCtx = {
   timers: Set<NodeJS.Timeout>;
   /** VS Code disposable resources (listeners, providers, etc.) */
   disposables: Set<vscode.Disposable>;
+  /** 單次同步執行片段上限（ms，0 = 停用 watchdog） */
+  maxSyncMs: number;
+  /** 最近一次進入 VM 執行（bootstrap / callback / API 呼叫）的時間，供 watchdog 判斷 */
+  lastActiveAt: number;
+  /** 權限宣告（undefined = 不限制），_bridge 依此檢查呼叫 */
+  permissions?: SbhPermissions;
+  /** 執行來源，寫入日誌時標記 */
+  origin: string;
+  /** 對應的執行紀錄 id（RunHistoryManager） */
+  runId: string;
 };
 
 /** Active VM runtimes mapped by command ID */
 const RUNTIMES = new Map<string, RuntimeCtx>();
 
+/**
+ * 執行前的轉換：TypeScript 或使用 import / export 的腳本轉成 CommonJS，其餘原樣回傳；
+ * 轉換後的 source map 以 VM 檔名（filename）登記，供錯誤位置換算。有語法錯誤時 throw（訊息含行列）
+ */
+function compileForRun(code: string, filename: string, command: string, language?: 'js' | 'ts'): string {
+  if (language !== 'ts' && !usesModuleSyntax(code)) {
+    setSourceMap(filename, undefined);
+    return code;
+  }
+  const result = scriptCompiler.transpile(code, command, language === 'ts' ? 'ts' : 'js');
+  const error = result.diagnostics.find(d => d.severity === 'error');
+  if (error) {
+    throw new Error(localize('err.tsCompile', 'Compile error at line {0}, column {1}: {2}', String(error.line), String(error.column), error.message));
+  }
+  setSourceMap(filename, result.map);
+  return result.code;
+}
+
+/**
+ * runScriptInVm 執行選項（來源為 item 設定）
+ */
+interface RunOptions {
+  /** 整體執行時間上限（ms）；0 或未設定 = 不限 */
+  timeoutMs?: number;
+  /** 單次同步執行片段上限（ms）；0 = 停用，未設定 = DEFAULT_MAX_SYNC_MS */
+  maxSyncMs?: number;
+  /** 執行隔離模式；'worker' = 在 worker_threads 內執行 */
+  isolation?: 'vm' | 'worker';
+  /** 'ts' = code 為 TypeScript 原始碼，執行前 transpile */
+  language?: 'js' | 'ts';
+  /** 權限宣告；未設定 = 不限制 */
+  permissions?: SbhPermissions;
+  /** 由事件觸發時的事件內容（vm.trigger） */
+  trigger?: TriggerPayload;
+  /** 呼叫參數（vm.args）：executeCommand 的參數或動作的 args */
+  args?: unknown[];
+  /** 選擇的動作 id（vm.action） */
+  action?: string;
+}
+
+/** 頂層程式結束且沒有留下計時器 / 監聽時自動停止 VM 的執行來源（否則之後的觸發都會因仍在執行而略過） */
+const AUTO_FINISH_ORIGINS: ReadonlySet<RunOrigin> = new Set<RunOrigin>(['trigger', 'schedule']);
+
+/** 單次同步執行片段預設上限：避免 `while(true){}` 之類的腳本卡死整個 extension host */
+const DEFAULT_MAX_SYNC_MS = 5000;
+/** console 方法對應的日誌等級 */
+const CONSOLE_LOG_LEVEL: Record<'log' | 'debug' | 'info' | 'warn' | 'error', LogLevel> = {
+  log: 'info', debug: 'debug', info: 'info', warn: 'warn', error: 'error'
+};
+
+/** Event-loop watchdog 取樣間隔 */
+const WATCHDOG_TICK_MS = 500;
+
+const isVmTimeoutError = (e: unknown) => (e as any)?.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT';
+
+const timeoutReason = (phase: 'bootstrap' | 'callback' | 'eventLoop' | 'total', limitMs: number, extra: Record<string, any> = {}) =>
+  ({ type: 'timeout', phase, limitMs, ...extra, at: Date.now() });
+
+/** 逾時中止時通知使用者（設定面板輸出 + 警告訊息） */
+function notifyTimeout(command: string, reason: any, postToPanel: (m: any) => void) {
+  const msg = localize('msg.scriptTimedOut', 'Script "{0}" was stopped: exceeded {1} ms ({2}).', command, String(reason.limitMs), String(reason.phase));
+  postToPanel({ command: 'runLog', chunk: `⏱ ${msg}\n` });
+  scriptLogs.append(command, 'warn', [msg], 'host');
+  vscode.window.showWarningMessage(msg);
+}
+
+// ─────────────────────────────────────────────────────────────
+// 權限同意（首次執行或權限變更時詢問）
+// ─────────────────────────────────────────────────────────────
+const _pendingConsents = new Map<string, Promise<boolean>>();
+
+const permissionError = (what: string) =>
+  new Error(localize('err.permissionDenied', 'Permission denied: {0}', what));
+
+/** 權限內容轉為給使用者閱讀的條列 */
+function describePermissions(perms: SbhPermissions): string[] {
+  const list = (v: string[] | boolean | undefined) => v === true ? localize('perm.all', 'all') : (v || []).join(', ');
+  const lines: string[] = [];
+  if (perms.files === true || (Array.isArray(perms.files) && perms.files.length)) {
+    lines.push(localize('perm.files', 'Files: {0}', list(perms.files)));
+  }
+  if (perms.secret === true || (Array.isArray(perms.secret) && perms.secret.length)) {
+    lines.push(localize('perm.secret', 'Secrets: {0}', list(perms.secret)));
+  }
+  if (perms.node === true || (Array.isArray(perms.node) && perms.node.length)) {
+    lines.push(localize('perm.node', 'Node modules: {0}', list(perms.node)));
+  }
+  if (perms.commands === true || (Array.isArray(perms.commands) && perms.commands.length)) {
+    lines.push(localize('perm.commands', 'Commands: {0}', list(perms.commands)));
+  }
+  if (perms.packages) { lines.push(localize('perm.packages', 'npm packages')); }
+  if (perms.network) { lines.push(localize('perm.network', 'Network access')); }
+  return lines;
+}
+
+/** 同意紀錄綁定權限與腳本內容；腳本改變後需重新同意 */
+function hasPermissionConsent(context: vscode.ExtensionContext, command: string, perms: SbhPermissions, script: string): boolean {
+  if (!requestsAnything(perms)) { return true; }
+  return loadPermissionGrants(context)[command]?.fingerprint === consentFingerprint(perms, script);
+}
+
+/** 以 modal 詢問使用者是否允許；同一 command 同時只會有一個詢問 */
+function requestPermissionConsent(context: vscode.ExtensionContext, command: string, perms: SbhPermissions, script: string): Promise<boolean> {
+  const pending = _pendingConsents.get(command);
+  if (pending) { return pending; }
+  const p = (async () => {
+    const allow = localize('perm.allow', 'Allow');
+    const pick = await vscode.window.showWarningMessage(
+      localize('perm.consentTitle', 'Script "{0}" requests the following permissions', command),
+      {
+        modal: true,
+        detail: [
+          ...describePermissions(perms).map(l => `• ${l}`),
+          '',
+          localize('perm.consentScope', 'This applies to the current script content; you will be asked again after it changes.'),
+        ].join('\n')
+      },
+      allow
+    );
+    if (pick !== allow) { return false; }
+    await savePermissionGrant(context, command, consentFingerprint(perms, script));
+    SettingsPanel.currentPanel?.sendPermissionGrants();
+    return true;
+  })().finally(() => _pendingConsents.delete(command));
+  _pendingConsents.set(command, p);
+  return p;
+}
+
+// ─────────────────────────────────────────────────────────────
+// 工作區項目自動執行（逐項允許；受信任的工作區也不例外）
+// ─────────────────────────────────────────────────────────────
+const _pendingAutorunPrompts = new Set<string>();
+/** 本次工作階段已拒絕的（id + fingerprint），重新載入前不再詢問 */
+const _declinedAutoruns = new Set<string>();
+
+/** 全域項目一律允許；工作區項目的 enableOnInit / schedule / triggers 需使用者允許過目前的內容 */
+function isAutorunAllowed(context: vscode.ExtensionContext, item: SbhItem): boolean {
+  if (!isWorkspaceItem(item) || !autorunKinds(item).length) { return true; }
+  return loadWorkspaceAutorunApprovals(context)[autorunId(item)]?.fingerprint === autorunFingerprint(item);
+}
+
+/** 詢問是否允許自動執行（非 modal）；允許後重新同步排程 / 觸發，並補跑 enableOnInit */
+function requestWorkspaceAutorun(context: vscode.ExtensionContext, item: WorkspaceItem) {
+  const fingerprint = autorunFingerprint(item);
+  const key = `${autorunId(item)}\0${fingerprint}`;
+  if (_pendingAutorunPrompts.has(key) || _declinedAutoruns.has(key)) { return; }
+  _pendingAutorunPrompts.add(key);
+  const kinds = autorunKinds(item).map(k =>
+    k === 'startup' ? localize('autorun.startup', 'on startup')
+      : k === 'schedule' ? localize('autorun.schedule', 'on a schedule')
+      : localize('autorun.triggers', 'on editor events')).join(', ');
+  const allow = localize('perm.allow', 'Allow');
+  vscode.window.showWarningMessage(
+    localize('msg.workspaceAutorunPrompt', 'Workspace item "{0}" ({1}) wants to run automatically: {2}. Allow it?', item.command, item.file, kinds),
+    allow
+  ).then(async pick => {
+    _pendingAutorunPrompts.delete(key);
+    if (pick !== allow) { _declinedAutoruns.add(key); return; }
+    await saveWorkspaceAutorunApproval(context, autorunId(item), fingerprint);
+    updateStatusBarItems(context, false);
+    if (item.enableOnInit && item.script && !_runOnceExecutedCommands.has(item.command)) {
+      _runOnceExecutedCommands.add(item.command);
+      runScriptInVm(context, item.command, item.script, 'autorun', item);
+    }
+  }, e => console.error('[SBH] workspace autorun prompt failed:', e));
+}
+
+// ─────────────────────────────────────────────────────────────
+// Event-loop watchdog
+// ─────────────────────────────────────────────────────────────
+// bootstrap 與 timer / event callback 由 vm timeout 直接中斷；
+// await 之後的續行（microtask）無法被 vm timeout 涵蓋，改由 watchdog 偵測 event loop 停頓：
+// 停頓結束後，找出停頓期間最後進入執行的 VM（callback、API 呼叫或其結果 settle 時標記），
+// 超過其 maxSyncMs 即以 { type: 'timeout', phase: 'eventLoop' } 中止，避免同一段程式反覆卡住 host。
+// 同一執行緒上的計時器無法打斷仍在進行的阻塞：`await` 之後的無窮迴圈仍會卡住，請改用 isolation: 'worker'。
+let _watchdogTimer: NodeJS.Timeout | null = null;
+let _watchdogLastTick = 0;
+
+function ensureVmWatchdog() {
+  if (_watchdogTimer) { return; }
+  _watchdogLastTick = Date.now();
+  _watchdogTimer = setInterval(() => {
+    const now = Date.now();
+    const since = _watchdogLastTick;
+    const stalledMs = now - since - WATCHDOG_TICK_MS;
+    _watchdogLastTick = now;
+    if (RUNTIMES.size === 0) { stopVmWatchdog(); return; }
+    if (stalledMs <= 0) { return; }
+
+    let culprit: [string, RuntimeCtx] | undefined;
+    for (const entry of RUNTIMES) {
+      const rt = entry[1];
+      if (rt.lastActiveAt < since) { continue; }
+      if (!culprit || rt.lastActiveAt > culprit[1].lastActiveAt) { culprit = entry; }
+    }
+    if (!culprit) { return; }
+    const [cmd, rt] = culprit;
+    if (rt.maxSyncMs > 0 && stalledMs > rt.maxSyncMs) {
+      abortByCommand(cmd, timeoutReason('eventLoop', rt.maxSyncMs, { stalledMs }));
+    }
+  }, WATCHDOG_TICK_MS);
+  _watchdogTimer.unref?.();
+}
+
+function stopVmWatchdog() {
+  if (_watchdogTimer) { clearInterval(_watchdogTimer); _watchdogTimer = null; }
+}
+
 /**
  * Explorer Menu Registration
  * 
@@ -459,6 +731,105 @@ function registerExplorerMenuCommand(context: vscode.ExtensionContext): void {
   context.subscriptions.push(disposable);
 }
 
+/**
+ * 指令面板：statusBarHelper.runScript
+ * 列出所有項目（含隱藏與工作區項目）供執行；按鈕可停止、開啟編輯頁、切換狀態列顯示
+ */
+function registerRunScriptCommand(context: vscode.ExtensionContext): void {
+  const stopButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('debug-stop'), tooltip: localize('pick.stop', 'Stop') };
+  const editButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('edit'), tooltip: localize('pick.edit', 'Edit') };
+  const hideButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('eye'), tooltip: localize('pick.hide', 'Hide from status bar') };
+  const showButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('eye-closed'), tooltip: localize('pick.show', 'Show in status bar') };
+
+  type Entry = vscode.QuickPickItem & { item: SbhItem; global: boolean };
+
+  const toEntries = (): Entry[] => {
+    const globalCommands = new Set(loadFromGlobal(context).map(i => i.command));
+    return loadAllItems(context).filter(item => !item.library).map(item => {
+      const global = globalCommands.has(item.command);
+      const running = RUNTIMES.has(item.command);
+      const folder = (item as Partial<WorkspaceItem>).workspaceFolder;
+      const description = [
+        running ? `$(sync~spin) ${localize('pick.running', 'running')}` : '',
+        item.hidden ? `$(eye-closed) ${localize('pick.hidden', 'hidden')}` : '',
+        folder ? `$(folder) ${folder}` : '',
+        ...(item.tags ?? []).map(t => `#${t}`),
+        item.keybinding ? `[${item.keybinding}]` : '',
+      ].filter(Boolean).join('  ');
+      const buttons = [
+        ...(running ? [stopButton] : []),
+        ...(global ? [editButton, item.hidden ? showButton : hideButton] : []),
+      ];
+      return { label: item.text || item.command, description, detail: item.tooltip || item.command, buttons, item, global };
+    });
+  };
+
+  const disposable = vscode.commands.registerCommand('statusBarHelper.runScript', () => {
+    const entries = toEntries();
+    if (!entries.length) {
+      vscode.window.showInformationMessage(localize('msg.noScripts', 'No scripts yet. Open the Status Bar Helper settings to add one.'));
+      return;
+    }
+    const qp = vscode.window.createQuickPick<Entry>();
+    qp.placeholder = localize('pick.runScript', 'Select a script to run');
+    qp.matchOnDescription = true;
+    qp.matchOnDetail = true;
+    qp.items = entries;
+
+    qp.onDidTriggerItemButton(async ({ item: entry, button }) => {
+      const cmd = entry.item.command;
+      if (button === stopButton) {
+        abortByCommand(cmd, { type: 'userStop', from: 'commandPalette', at: Date.now() });
+      } else if (button === editButton) {
+        qp.hide();
+        SettingsPanel.showEditView(context.extensionUri, context, cmd);
+        return;
+      } else if (button === hideButton || button === showButton) {
+        const target = loadFromGlobal(context).find(i => i.command === cmd);
+        if (!target) { return; }
+        await saveOneToGlobal(context, { ...target, hidden: button === hideButton });
+        updateStatusBarItems(context, false);
+        try { (SettingsPanel.currentPanel as any)?._sendStateToWebview?.(); } catch {}
+      }
+      const active = qp.activeItems[0]?.item.command;
+      qp.items = toEntries();
+      qp.activeItems = qp.items.filter(e => e.item.command === active);
+    });
+    qp.onDidAccept(() => {
+      const picked = qp.selectedItems[0];
+      qp.hide();
+      if (picked) { void runItemByArgs(context, { command: picked.item.command }); }
+    });
+    qp.onDidHide(() => qp.dispose());
+    qp.show();
+  });
+
+  context.subscriptions.push(disposable);
+}
+
+/** TS 項目在編輯器分頁（sbh:）存檔後型別檢查，結果顯示在分頁與 Problems 面板 */
+function reportScriptDiagnostics(collection: vscode.DiagnosticCollection, item: SbhItem): void {
+  const uri = scriptUri(item);
+  if (item.language !== 'ts') {
+    collection.delete(uri);
+    return;
+  }
+  let list: ScriptDiagnostic[] = [];
+  try {
+    list = scriptCompiler.check(item.script);
+  } catch (e) {
+    console.warn('[SBH] type check failed:', item.command, e);
+  }
+  collection.set(uri, list.map(d => {
+    const range = new vscode.Range(d.line - 1, d.column - 1, d.endLine - 1, d.endColumn - 1);
+    const diagnostic = new vscode.Diagnostic(range, d.message,
+      d.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning);
+    diagnostic.source = 'ts';
+    diagnostic.code = d.code;
+    return diagnostic;
+  }));
+}
+
 // ============================================================================
 // Inter-VM Message Bus - Script Communication System
 // ============================================================================
@@ -467,36 +838,93 @@ function registerExplorerMenuCommand(context: vscode.ExtensionContext): void {
  * 腳本間訊息傳遞系統
  * 
  * 功能：
- * - vm.sendMessage(target, msg)：向指定 command 發送訊息
+ * - vm.sendMessage(target, msg, { ttlMs, durable }?)：向指定 command 發送訊息
  * - vm.onMessage(handler)：註冊訊息接收處理器
  * - vm.open(cmdId, payload?)：啟動目標腳本並可選傳遞初始資料
+ * - vm.request(target, method, payload?, { timeoutMs })／vm.handle(method, fn)：等待回覆的呼叫（vmRpc.ts）
+ * - vm.publish(topic, msg, { retain })／vm.subscribe(pattern, handler)：依 topic 廣播（vmPubSub.ts）
  * 
  * 特性：
- * - 訊息只在當次 VM 生命週期內有效
- * - 目標 VM 未啟動時訊息會暫存於佇列
- * - VM 關閉時自動清理相關 handlers 與 queue
+ * - handler 只在當次 VM 生命週期內有效
+ * - 目標尚未註冊 onMessage 時訊息暫存於佇列（messageQueueManager.ts：筆數上限、TTL、durable 持久化），
+ *   VM 停止時佇列保留；request 則立即失敗
+ * - VM 關閉時自動清理相關 handlers，並取消雙方未完成的 request
  */
-type MessageRecord = { from: string; message: any };
 
 /** Message handlers registered by each VM */
 const MESSAGE_HANDLERS = new Map<string, Set<(from: string, message: any) => void>>();
 
-/** Queued messages for VMs that haven't registered handlers yet */
-const MESSAGE_QUEUES   = new Map<string, MessageRecord[]>();
+/** request / response（vm.request / vm.handle） */
+const vmRpc = new VmRpc(command => RUNTIMES.has(command));
+
+/** topic 廣播（vm.publish / vm.subscribe）；保留訊息在 extension host 存活期間有效 */
+const vmPubSub = new VmPubSub();
+
+/**
+ * v1.state.watch：key 為 '*' 時監看全部，結尾為 * 時比對前綴
+ * handler 拿到的是複本；例外只記錄，不影響其他監看者
+ */
+function watchState(command: string, key: string, handler: (value: any, e: StateWatchEvent) => void, signal: AbortSignal): () => void {
+  const pattern = typeof key === 'string' && key ? key : '*';
+  const sub = stateStore.onDidChange(e => {
+    if (!stateKeyMatches(pattern, e.key)) { return; }
+    const report = (err: unknown) => console.error(`[state watch error] ${command} (${e.key})`, err);
+    try {
+      const r: any = handler(structuredClone(e.value), { key: e.key, oldValue: structuredClone(e.oldValue), from: e.from });
+      if (r && typeof r.then === 'function') { r.then(undefined, report); }
+    } catch (err) {
+      report(err);
+    }
+  });
+  const off = () => {
+    sub.dispose();
+    signal.removeEventListener('abort', off);
+  };
+  signal.addEventListener('abort', off, { once: true });
+  return off;
+}
+
+/**
+ * storage.*.onDidChange：nsPrefix 為 scoped 命名空間（一般 storage 為 ''），key 省略時監看全部
+ * handler 拿到的 key 不含命名空間前綴
+ */
+function watchStorage(command: string, scope: KvScope, nsPrefix: string, key: string | undefined, handler: (e: StorageChangeEvent) => void, signal: AbortSignal): () => void {
+  const clone = (v: any) => { try { return structuredClone(v); } catch { return v; } };
+  const sub = kvChanges.watch((e: KvChange) => {
+    if (e.scope !== scope || !e.key.startsWith(nsPrefix)) { return; }
+    const k = e.key.slice(nsPrefix.length);
+    if (key !== undefined && k !== key) { return; }
+    const report = (err: unknown) => console.error(`[storage watch error] ${command} (${e.key})`, err);
+    try {
+      const r: any = handler({ key: k, value: clone(e.value), oldValue: clone(e.oldValue), from: e.from });
+      if (r && typeof r.then === 'function') { r.then(undefined, report); }
+    } catch (err) {
+      report(err);
+    }
+  });
+  const off = () => {
+    sub.dispose();
+    signal.removeEventListener('abort', off);
+  };
+  signal.addEventListener('abort', off, { once: true });
+  return off;
+}
 
 /**
  * 分發訊息到目標 VM
  * @param target 目標 command ID
  * @param from 發送者 command ID  
  * @param message 訊息內容
+ * @param options 暫存於佇列時的 TTL / 持久化
  */
-function dispatchMessage(target: string, from: string, message: any) {
+function dispatchMessage(target: string, from: string, message: any, options: SendMessageOptions = {}) {
   const handlers = MESSAGE_HANDLERS.get(target);
   if (!handlers || handlers.size === 0) {
-    // 目標尚未註冊 handler，加入佇列
-    let q = MESSAGE_QUEUES.get(target);
-    if (!q) { q = []; MESSAGE_QUEUES.set(target, q); }
-    q.push({ from, message });
+    // 目標尚未註冊 handler，加入佇列（dropPolicy 為 reject 且已滿時丟出錯誤）
+    const dropped = messageQueues.enqueue(target, from, message, options);
+    if (dropped > 0) {
+      scriptLogs.append(from, 'warn', [localize('msg.messagesDropped', 'Message queue for {0} is full; dropped {1} message(s).', target, String(dropped))], 'host');
+    }
     return;
   }
   // 立即分發給所有註冊的 handlers
@@ -509,17 +937,46 @@ function registerMessageHandler(command: string, handler: (from: string, message
   let set = MESSAGE_HANDLERS.get(command);
   if (!set) { set = new Set(); MESSAGE_HANDLERS.set(command, set); }
   set.add(handler);
-  // flush queued
-  const q = MESSAGE_QUEUES.get(command);
-  if (q && q.length) {
-    for (const rec of q) {
-      try { handler(rec.from, rec.message); } catch {}
-    }
-    MESSAGE_QUEUES.delete(command);
+  // flush queued（過期的訊息不會送出）
+  for (const rec of messageQueues.take(command)) {
+    try { handler(rec.from, rec.message); } catch (e) { console.error('[vm message handler error]', e); }
   }
   return () => { try { set?.delete(handler); } catch {} };
 }
 
+/**
+ * 依 command 啟動另一個腳本（已在執行則直接送 payload）
+ * vm.open 使用；VM 與 worker 模式共用
+ */
+function openScriptByCommand(context: vscode.ExtensionContext, from: string, cmdId: string, payload: any, hasPayload: boolean) {
+  if (!cmdId || typeof cmdId !== 'string') { throw new Error(localize('err.vmOpenInvalidCmd', 'vm.open: invalid cmdId')); }
+  // 已在跑 → 直接送 payload
+  if (RUNTIMES.has(cmdId)) {
+    if (hasPayload) { dispatchMessage(cmdId, from, payload); }
+    return;
+  }
+  // 從 globalState / 工作區載入腳本
+  const items = loadAllItems(context);
+  const targetItem = items.find(i => i && i.command === cmdId);
+  if (!targetItem || !targetItem.script) { throw new Error(localize('err.vmOpenCmdNotFound', 'vm.open: command not found or empty script: {0}', String(cmdId))); }
+  try {
+    runScriptInVm(context, cmdId, targetItem.script, 'statusbar', targetItem);
+  } catch (e) {
+    throw new Error(localize('err.vmOpenStartFailed', 'vm.open: failed to start target: {0}', (e as any)?.message || String(e)));
+  }
+  // 等待下一輪 tick 讓目標 VM 有機會註冊 onMessage 再送 payload（若有）；
+  // 此時已無呼叫者可接收例外（佇列已滿且為 reject 等），改寫入發送者的日誌
+  if (hasPayload) {
+    setTimeout(() => {
+      try {
+        dispatchMessage(cmdId, from, payload);
+      } catch (e) {
+        scriptLogs.append(from, 'error', [(e as any)?.message || String(e)], 'host');
+      }
+    }, 0);
+  }
+}
+
 /**
  * 清理 VM 執行環境
  * @param command 要終止的 command ID
@@ -529,7 +986,7 @@ function registerMessageHandler(command: string, handler: (from: string, message
  * 完整清理流程：
  * 1. 發送 abort 信號給 VM
  * 2. 從 RUNTIMES 移除執行上下文
- * 3. 清理該 VM 的訊息處理器和佇列
+ * 3. 清理該 VM 的訊息處理器（佇列中的訊息保留到下次執行）
  */
 function abortByCommand(command: string, reason: any = { type: 'external', at: Date.now() }) {
   const ctx = RUNTIMES.get(command);
@@ -537,7 +994,7 @@ function abortByCommand(command: string, reason: any = { type: 'external', at: D
   try { ctx.abort.abort(reason); } catch {}
   RUNTIMES.delete(command);
   MESSAGE_HANDLERS.delete(command);
-  MESSAGE_QUEUES.delete(command);
+  vmRpc.release(command);
   return true;
 }
 
@@ -553,81 +1010,31 @@ function abortByCommand(command: string, reason: any = { type: 'external', at: D
  * - 統一的錯誤處理和日誌記錄
  * - 可以追蹤和限制 API 使用
  */
-function buildSbh() {
-  // 透過 _bridge 指令統一呼叫；提供給 VM 沙箱
+function buildSbh(command: string) {
+  // 透過 _bridge 指令統一呼叫；提供給 VM 沙箱（帶上呼叫者 command 供權限檢查）
   const call = async (ns: string, fn: string, ...args: any[]) => {
-    const r = await vscode.commands.executeCommand('statusBarHelper._bridge', { ns, fn, args }) as any;
+    let r: any;
+    try {
+      r = await vscode.commands.executeCommand('statusBarHelper._bridge', { ns, fn, args, from: command });
+    } finally {
+      // 呼叫端的續行接著執行：標記給 event-loop watchdog
+      const rt = RUNTIMES.get(command);
+      if (rt) { rt.lastActiveAt = Date.now(); }
+    }
   if (r && r.ok) { return r.data; }
     throw new Error(r?.error || 'bridge error');
   };
 
-  return {
-    v1: {
-      // Key-Value 持久化儲存 - 適合設定、小型資料
-      storage: {
-        // 全域儲存 - 跨工作區共享
-        global: {
-          get:  (key: string, def?: any) => call('storage', 'getGlobal', key, def),
-          set:  (key: string, val: any)  => call('storage', 'setGlobal', key, val),
-          remove: (key: string)          => call('storage', 'removeGlobal', key),
-          keys: ()                       => call('storage', 'keysGlobal'),
-        },
-        // 工作區儲存 - 僅當前工作區可見
-        workspace: {
-          get:  (key: string, def?: any) => call('storage', 'getWorkspace', key, def),
-          set:  (key: string, val: any)  => call('storage', 'setWorkspace', key, val),
-          remove: (key: string)          => call('storage', 'removeWorkspace', key),
-          keys: ()                       => call('storage', 'keysWorkspace'),
-        },
-      },
-      // 檔案系統操作 - 支援文字、JSON、二進位格式
-      files: {
-        dirs:       () => call('files', 'dirs'),
-        readText:   (scope: 'global'|'workspace', rel: string) => call('files', 'readText', scope, rel),
-        writeText:  (scope: 'global'|'workspace', rel: string, s: string) => call('files', 'writeText', scope, rel, s),
-        readJSON:   (scope: 'global'|'workspace', rel: string) => call('files', 'readJSON', scope, rel),
-        writeJSON:  (scope: 'global'|'workspace', rel: string, data: any) => call('files', 'writeJSON', scope, rel, data),
-        readBytes:  (scope: 'global'|'workspace', rel: string) => call('files', 'readBytes', scope, rel),
-        writeBytes: (scope: 'global'|'workspace', rel: string, data: Uint8Array|ArrayBuffer|string) => call('files', 'writeBytes', scope, rel, data),
-        exists:     (scope: 'global'|'workspace', rel: string) => call('files', 'exists', scope, rel),
-        list:       (scope: 'global'|'workspace', rel?: string) => call('files', 'list', scope, rel ?? ''),
-        listStats:  (scope: 'global'|'workspace', rel?: string) => call('files', 'listStats', scope, rel ?? ''),
-        remove:     (scope: 'global'|'workspace', rel: string) => call('files', 'remove', scope, rel),
-        clearAll:   (scope: 'global'|'workspace') => call('files', 'clearAll', scope),
-      },
-      // 密碼管理
-      secret: {
-        get:    (key: string) => call('secret', 'get', key),
-        set:    (key: string, value: string) => call('secret', 'set', key, value),
-        delete: (key: string) => call('secret', 'delete', key),
-        keys:   () => call('secret', 'keys'),  
-      },
-      // 側邊欄操作
-      sidebar: {
-        open:       (spec: any) => sidebarMgr.open(spec),
-        postMessage:(msg: any) => sidebarMgr.postMessage(msg),
-        onMessage:  (handler: (m:any)=>void) => sidebarMgr.onMessage(handler),
-        close:      () => sidebarMgr.close(),
-        onClose:    (handler: ()=>void) => sidebarMgr.onClose(handler),
-      },
-      // npm 套件管理
-      packages: {
-        dir:     () => call('packages', 'dir'),
-        list:    () => call('packages', 'list'),
-        exists:  (name: string) => call('packages', 'exists', name),
-        info:    (name: string) => call('packages', 'info', name),
-        install: (name: string, options?: { version?: string; force?: boolean; showProgress?: boolean }) => 
-          call('packages', 'install', name, options),
-        remove:  (name: string) => call('packages', 'remove', name),
-        // require 會在 runScriptInVm 執行時注入（需要同步存取）
-        require: null as any,
-      },
-      // vm 會在 runScriptInVm 執行時注入 (需要 command context)
-      vm: {} as any,
-      // explorerAction 會在 runScriptInVm 執行時注入 (需要 command context)
-      explorerAction: {} as any,
-    }
+  const api = buildSbhApi(call);
+  // 側邊欄操作
+  api.v1.sidebar = {
+    open:       (spec: any) => sidebarMgr.open(spec),
+    postMessage:(msg: any) => sidebarMgr.postMessage(msg),
+    onMessage:  (handler: (m:any)=>void) => sidebarMgr.onMessage(handler),
+    close:      () => sidebarMgr.close(),
+    onClose:    (handler: ()=>void) => sidebarMgr.onClose(handler),
   };
+  return api;
 }
 
 /**
@@ -642,16 +1049,62 @@ function buildSbh() {
  * @param context VS Code 擴充套件上下文
  * @param command 指令 ID（用作 VM 識別）
  * @param code 要執行的 JavaScript 程式碼
- * @param origin 執行來源（狀態列按鈕/自動執行/設定面板預覽）
+ * @param origin 執行來源（狀態列按鈕/自動執行/設定面板預覽/排程/事件觸發）
+ * @param options 執行限制（timeoutMs / maxSyncMs）
  */
 function runScriptInVm(
   context: vscode.ExtensionContext,
   command: string,
   code: string,
-  origin: 'statusbar' | 'autorun' | 'settingsPanel'
+  origin: RunOrigin,
+  options: RunOptions = {}
 ) {
+  // 宣告了權限但尚未同意 → 先詢問，同意後再啟動
+  if (options.permissions && !hasPermissionConsent(context, command, options.permissions, code)) {
+    requestPermissionConsent(context, command, options.permissions, code).then(ok => {
+      if (ok) {
+        runScriptInVm(context, command, code, origin, options);
+      } else if (origin === 'settingsPanel') {
+        (SettingsPanel.currentPanel as any)?._panel?.webview?.postMessage?.({
+          command: 'runDone', code: 1, chunk: `[${localize('perm.declined', 'Permissions declined')}]`
+        });
+      }
+    }, e => console.error('[SBH] permission consent failed:', e));
+    return;
+  }
+
+  // VM 檔名：錯誤的 stack 顯示 sbh://<command>.js:行:欄
+  const filename = scriptFileName(command, options.language);
+  let prologue = '';
+  // TypeScript / import 語法：執行轉換後的 CommonJS；有語法錯誤時不啟動
+  if (options.language === 'ts' || usesModuleSyntax(code)) {
+    let failure: string | undefined;
+    try {
+      code = compileForRun(code, filename, command, options.language);
+      // 有 import / export 時 CommonJS 輸出會寫入 exports
+      prologue = 'var exports = {};';
+    } catch (e) {
+      failure = (e as any)?.message || String(e);
+    }
+    if (failure !== undefined) {
+      scriptLogs.append(command, 'error', [failure], origin);
+      if (origin === 'settingsPanel') {
+        (SettingsPanel.currentPanel as any)?._panel?.webview?.postMessage?.({ command: 'runDone', code: 1, chunk: `${failure}\n` });
+      }
+      return;
+    }
+  }
+
   // 同 command 舊 VM 先替換（確保單一實例）
   abortByCommand(command, { type: 'replaced', from: origin, at: Date.now() });
+  // 上一次執行（含自動結束）留下的狀態列覆寫在新執行開始時清除
+  statusItems.reset(command);
+
+  // worker 隔離模式另外處理
+  if (options.isolation === 'worker') {
+    runScriptInWorker(context, command, `${prologue}\n${code}`, filename, origin, options);
+    return;
+  }
 
   // 建立執行上下文
   const abort = new AbortController();
@@ -659,12 +1112,98 @@ function runScriptInVm(
   const timers = new Set<NodeJS.Timeout>();           // 追蹤計時器供清理
   const disposables = new Set<vscode.Disposable>();   // 追蹤 VS Code 資源供清理
 
+  // 執行限制：maxSyncMs 未設定時套用預設值，0 表示停用
+  const maxSyncMs = options.maxSyncMs ?? DEFAULT_MAX_SYNC_MS;
+  const timeoutMs = options.timeoutMs || 0;
+  const permissions = options.permissions;
+  const runtime: RuntimeCtx = {
+    abort, timers, disposables, maxSyncMs, lastActiveAt: Date.now(), permissions, origin,
+    runId: runHistory.begin(command, origin, 'vm')
+  };
+  const markActive = () => { runtime.lastActiveAt = Date.now(); };
+
+  /** 權限檢查：未宣告 permissions 時一律允許 */
+  const assertRequire = (name: string, kind: 'builtin' | 'package') => {
+    const denied = permissions && checkRequire(permissions, name, kind);
+    if (denied) { throw permissionError(denied); }
+  };
+
+  /**
+   * 以 vm.Script + timeout 執行 VM 內的 callback（timer / 事件 listener）
+   * 同步無窮迴圈會被 vm timeout 中斷，並以 { type: 'timeout' } 中止整顆 VM
+   */
+  const sliceScript = new vm.Script('__sbhSlice.fn.apply(__sbhSlice.self, __sbhSlice.args)');
+  let sliceDepth = 0;
+  const runSlice = (fn: Function, self: any, args: any[]) => {
+    if (signal.aborted) { return undefined; }
+    markActive();
+    // 巢狀呼叫（callback 內同步觸發另一個 callback）交給外層計時
+    if (maxSyncMs <= 0 || sliceDepth > 0 || !vm.isContext(sandbox)) { return fn.apply(self, args); }
+    sliceDepth++;
+    sandbox.__sbhSlice = { fn, self, args };
+    try {
+      return sliceScript.runInContext(sandbox, { timeout: maxSyncMs });
+    } catch (e) {
+      if (!isVmTimeoutError(e)) { throw e; }
+      abort.abort(timeoutReason('callback', maxSyncMs));
+      return undefined;
+    } finally {
+      sliceDepth--;
+      sandbox.__sbhSlice = undefined;
+    }
+  };
+  /** host 端直接呼叫的腳本 callback（vm.onMessage / handle / subscribe、state.watch、storage.onDidChange）同樣受 maxSyncMs 限制 */
+  const sliced = <F extends (...a: any[]) => any>(fn: F) => ((...a: any[]) => runSlice(fn, undefined, a)) as F;
+
+  /**
+   * 自動結束（AUTO_FINISH_ORIGINS）：頂層程式執行完，且沒有留下計時器、VS Code 資源或監聽（onMessage /
+   * handle / subscribe / watch / explorerAction）時停止 VM，下一次觸發才能再執行；有留下的則由腳本自行 vm.stop()
+   */
+  const autoFinish = AUTO_FINISH_ORIGINS.has(origin);
+  let topLevelDone = false;
+  let listeners = 0;
+  const maybeFinish = () => {
+    if (!autoFinish || !topLevelDone || signal.aborted) { return; }
+    if (timers.size || disposables.size || listeners) { return; }
+    abort.abort({ type: 'completed', at: Date.now() });
+  };
+  /** 登記一個監聽；回傳的取消函式只會生效一次 */
+  const retain = (off: () => void) => {
+    listeners++;
+    let released = false;
+    return () => {
+      if (released) { return; }
+      released = true;
+      listeners--;
+      try { off(); } finally { maybeFinish(); }
+    };
+  };
+  /** callback 結束後（async callback 等到 settle）再檢查是否可自動結束 */
+  const finishAfter = (result: any) => {
+    if (result && typeof result.then === 'function') {
+      result.then(maybeFinish, maybeFinish);
+    } else {
+      maybeFinish();
+    }
+    return result;
+  };
+
   /**
    * 包裝 Timer 函數以追蹤資源
-   * 確保 VM 結束時可以清理所有 setTimeout/setInterval
+   * 確保 VM 結束時可以清理所有 setTimeout/setInterval，並讓 callback 受 maxSyncMs 限制
+   * @param once setTimeout：執行後即移出追蹤
    */
-  const wrapTimeout = <T extends (...a: any[]) => any>(orig: T) =>
-    ((...args: any[]) => { const h = orig(...args); timers.add(h as any); return h; }) as unknown as T;
+  const wrapTimeout = <T extends (...a: any[]) => any>(orig: T, once = false) =>
+    ((cb: any, ...rest: any[]) => {
+      let h: any;
+      const fn = typeof cb !== 'function' ? cb : (...a: any[]) => {
+        if (once) { timers.delete(h); }
+        return once ? finishAfter(runSlice(cb, undefined, a)) : runSlice(cb, undefined, a);
+      };
+      h = orig(fn, ...rest);
+      timers.add(h);
+      return h;
+    }) as unknown as T;
 
   /**
    * 向設定面板發送訊息（僅限面板預覽模式）
@@ -677,23 +1216,21 @@ function runScriptInVm(
   };
 
   /**
-   * 代理 console 輸出到設定面板
-   * 讓 VM 內的 console.log 等可以顯示在 Output 面板
+   * 代理 console 輸出
+   * 所有來源都寫入該腳本的日誌（v1.log / Logs 分頁 / Output Channel），面板預覽時另外回傳給 webview
    */
   const makeConsoleProxy = (base: Console) => {
-    const forward = (level: 'log'|'info'|'warn'|'error') =>
+    const forward = (level: 'log'|'debug'|'info'|'warn'|'error') =>
       (...args: any[]) => {
         try { (base as any)[level](...args); } catch {}
-        // 轉成字串（盡量好看）
-        const text = args.map(a => {
-          if (typeof a === 'string') { return a; }
-          try { return JSON.stringify(a, null, 2); } catch { return String(a); }
-        }).join(' ') + '\n';
-        postToSettingsPanel({ command: 'runLog', chunk: text });
+        const parts = args.map(a => remapStack(formatLogArg(a)));
+        scriptLogs.append(command, CONSOLE_LOG_LEVEL[level], parts, origin);
+        postToSettingsPanel({ command: 'runLog', chunk: parts.join(' ') + '\n' });
       };
     return {
       ...base,
       log:  forward('log'),
+      debug: forward('debug'),
       info: forward('info'),
       warn: forward('warn'),
       error: forward('error'),
@@ -703,11 +1240,26 @@ function runScriptInVm(
   // 用來收集並追蹤所有可釋放資源，像是 VM 停止時，相關在 VM 使用的 VS Code API 都要釋放 (停止)
   function buildVscodeFacade(raw: typeof import('vscode'), ctx: {
     signal: AbortSignal,
-    disposables: Set<vscode.Disposable>
+    disposables: Set<vscode.Disposable>,
+    invoke: (fn: Function, self: any, args: any[]) => any,
+    permissions?: SbhPermissions
   }) {
-    const { signal, disposables } = ctx;
+    const { signal, disposables, invoke, permissions: perms } = ctx;
+    // 宣告了 permissions：facade 不以原始命名空間為原型，未包裝的命名空間不提供，
+    // 可繞過權限的 API（workspace.fs、env.openExternal…）與 executeCommand 依權限檢查
+    const restricted = !!perms;
+    /** 腳本自己註冊的指令：受限時仍可用 executeCommand 呼叫 */
+    const ownCommands = new Set<string>();
 
-    const guard = () => { if (signal.aborted) throw new Error('Execution stopped'); };
+    const guard = () => {
+      if (signal.aborted) { throw new Error('Execution stopped'); }
+      markActive();
+    };
+    /** 非同步結果 settle 時同樣標記：await 之後的續行緊接著在這顆 VM 執行，watchdog 才能找到它 */
+    const activeOnSettle = (val: any) => {
+      if (val && typeof val.then === 'function') { val.then(markActive, markActive); }
+      return val;
+    };
 
     const track = (val: any) => {
       const addOne = (x: any) => { if (x && typeof x.dispose === 'function') { try { disposables.add(x); } catch {} } };
@@ -715,7 +1267,17 @@ function runScriptInVm(
       return val;
     };
 
-    const out: any = Object.create(raw);
+    const out: any = Object.create(restricted ? null : raw);
+
+    /** 受限時可繞過權限的成員改為拒絕存取的 getter */
+    const blockIfDenied = (nsOut: any, nsName: string, key: string) => {
+      const denied = perms && checkVscodeApi(perms, `${nsName}.${key}`);
+      if (!denied) { return; }
+      Object.defineProperty(nsOut, key, {
+        configurable: true, enumerable: true,
+        get() { throw permissionError(denied); }
+      });
+    };
 
     const wrapEventProp = (nsOut: any, nsRaw: any, key: string) => {
       try {
@@ -728,7 +1290,8 @@ function runScriptInVm(
             if (typeof current !== 'function') return current;
             const wrapped: vscode.Event<any> = (listener: any, thisArgs?: any, disposablesArg?: vscode.Disposable[]) => {
               guard();
-              const d = current(listener, thisArgs, disposablesArg);
+              const l = typeof listener === 'function' ? (e: any) => invoke(listener, thisArgs, [e]) : listener;
+              const d = current(l, undefined, disposablesArg);
               return track(d);
             };
             return wrapped;
@@ -750,7 +1313,7 @@ function runScriptInVm(
       const nsRaw: any = (raw as any)[nsName];
       if (!nsRaw) return;
 
-      const nsOut: any = Object.create(nsRaw);
+      const nsOut: any = Object.create(restricted ? null : nsRaw);
 
       // 1) 包所有「值為 function」的 own props（避免動到 accessor）
       for (const key of Object.getOwnPropertyNames(nsRaw)) {
@@ -766,15 +1329,31 @@ function runScriptInVm(
             try { byId.get(id)?.dispose(); } catch {}
             const disp = orig.call(nsRaw, id, fn, thisArg);
             byId.set(id, disp);
+            ownCommands.add(id);
             return track(disp);
           });
           continue;
         }
 
+        // commands.executeCommand：呼叫 _bridge 時強制帶上呼叫者，避免繞過權限檢查
+        if (nsName === 'commands' && key === 'executeCommand') {
+          defineFn(nsOut, key, (id: string, ...rest: any[]) => {
+            guard();
+            if (id === 'statusBarHelper._bridge' && rest[0] && typeof rest[0] === 'object') {
+              rest[0] = { ...rest[0], from: command };
+            } else if (perms && !ownCommands.has(id)) {
+              const denied = checkCommand(perms, String(id));
+              if (denied) { throw permissionError(denied); }
+            }
+            return activeOnSettle(orig.call(nsRaw, id, ...rest));
+          });
+          continue;
+        }
+
         // 一般函式：guard + 自動 track 回傳
         defineFn(nsOut, key, (...args: any[]) => {
           guard();
-          return track(orig.apply(nsRaw, args));
+          return activeOnSettle(track(orig.apply(nsRaw, args)));
         });
       }
 
@@ -788,6 +1367,15 @@ function runScriptInVm(
       // 3) 自訂補強：常見工廠/註冊（可能是 accessor 或不同版本差異）
       extra?.(nsOut, nsRaw);
 
+      // 4) 受限：檢查可繞過權限的成員，其餘（activeTextEditor、clipboard…）補成讀取原始值的 getter
+      if (restricted) {
+        for (const key of Object.getOwnPropertyNames(nsRaw)) {
+          blockIfDenied(nsOut, String(nsName), key);
+          if (Object.prototype.hasOwnProperty.call(nsOut, key)) { continue; }
+          Object.defineProperty(nsOut, key, { configurable: true, enumerable: true, get: () => nsRaw[key] });
+        }
+      }
+
       // 把子命名空間掛到 facade
       Object.defineProperty(out, nsName, { value: nsOut, enumerable: true, configurable: true });
     };
@@ -844,23 +1432,49 @@ function runScriptInVm(
       configurable: true
     });
 
+    // 其餘成員（Uri、Range、StatusBarAlignment…）補成 own 屬性：
+    // transpile 後的 `import * as vscode` 經 __importStar 只複製 own 屬性，原型鏈上的不會出現在 namespace 物件
+    // 受限時不提供未包裝的命名空間（extensions、authentication…），只保留類別、列舉與常數
+    const isNamespace = (v: any) => !!v && typeof v === 'object' && Object.getOwnPropertyNames(v).some(k => {
+      const d = Object.getOwnPropertyDescriptor(v, k);
+      return !!d && (!!d.get || typeof d.value === 'function' || (typeof d.value === 'object' && d.value !== null));
+    });
+    for (const key of Object.getOwnPropertyNames(raw)) {
+      if (Object.prototype.hasOwnProperty.call(out, key)) { continue; }
+      if (restricted && isNamespace((raw as any)[key])) { continue; }
+      Object.defineProperty(out, key, { configurable: true, enumerable: true, get: () => (raw as any)[key] });
+    }
+
     return out as typeof import('vscode');
   }
 
   // ---- packages.require 的路徑支援 ----
   const packagesRoot = path.join(context.globalStorageUri.fsPath, 'sbh.packages', 'node_modules');
   
+  // 共用函式庫：在這個 sandbox 內執行，與腳本受相同的權限限制
+  const requireLibrary = createLibraryRequire(
+    name => {
+      const lib = libraries.load(name, loadAllItems(context));
+      if (lib === undefined) { throw new Error(localize('err.libraryNotFound', 'Library not found: {0}', LIB_PREFIX + name)); }
+      return lib;
+    },
+    (source, runOptions) => vm.runInContext(source, sandbox, runOptions),
+    (m: string) => sandbox.require(m)
+  );
+
   const sandbox: any = {
-    fs, path, process,
-    // ▶ 如果從 settingsPanel 跑，就用 proxy console，把輸出回傳給 webview
-    console: origin === 'settingsPanel' ? makeConsoleProxy(console) : console,
+    // ▶ proxy console：寫入腳本日誌；從 settingsPanel 跑時一併回傳給 webview
+    console: makeConsoleProxy(console),
     __dirname: path.dirname(context.extensionPath),
     require: (m: string) => {
       // vscode 模組
       if (m === 'vscode') { return sandbox.vscode; }
+      // 共用函式庫（sbh:lib/<name>）
+      if (m.startsWith(LIB_PREFIX)) { return requireLibrary(m.slice(LIB_PREFIX.length)); }
       // Node 內建模組
-      if (require.resolve(m) === m) { return require(m); }
+      if (require.resolve(m) === m) { assertRequire(m, 'builtin'); return require(m); }
       // 嘗試從 globalStorage/sbh.packages/node_modules 載入
+      assertRequire(m, 'package');
       try {
         const pkgPath = path.join(packagesRoot, m);
         if (fs.existsSync(pkgPath)) {
@@ -871,17 +1485,25 @@ function runScriptInVm(
       return require(m);
     }
   };
-  sandbox.Buffer = require('buffer').Buffer;
-  sandbox.vscode = buildVscodeFacade(vscode, { signal, disposables });
+  // fs / process / path / Buffer 全域也受 node 權限控制（存取時才檢查，未使用的腳本不受影響）；
+  // 受限的腳本不會直接拿到 host realm 的建構函式（例如 Buffer.constructor）
+  for (const [name, mod, value] of [['fs', 'fs', fs], ['process', 'process', process], ['path', 'path', path], ['Buffer', 'buffer', Buffer]] as const) {
+    Object.defineProperty(sandbox, name, {
+      configurable: true, enumerable: true,
+      get() { assertRequire(mod, 'builtin'); return value; }
+    });
+  }
+  sandbox.vscode = buildVscodeFacade(vscode, { signal, disposables, invoke: runSlice, permissions });
 
   // 注入 sbh 與 vm API
-  const api = buildSbh();
+  const api = buildSbh(command);
 
   // ---- packages.require 同步版本 ----
   (api as any).v1.packages.require = <T = any>(name: string): T => {
     if (!name || typeof name !== 'string') {
       throw new Error(localize('err.packagesInvalidName', 'Package name is required'));
     }
+    assertRequire(name, 'package');
     const pkgPath = path.join(packagesRoot, name);
     if (!fs.existsSync(pkgPath)) {
       throw new Error(localize('err.packagesNotInstalled', 'Package {0} is not installed', name));
@@ -893,6 +1515,7 @@ function runScriptInVm(
   (api as any).v1.sidebar = (() => {
     const base = (api as any).v1.sidebar;
     let openedByThisVm = false;
+    let releaseSidebar: (() => void) | undefined;
 
     const guard = () => {
       if (signal.aborted) throw new Error(localize('err.execStopped', 'Execution stopped'));
@@ -908,6 +1531,7 @@ function runScriptInVm(
       open: (spec: any) => {            // 可能回傳 Disposable，就一起收
         guard();
         openedByThisVm = true;
+        releaseSidebar ??= retain(() => {});
         return track(base.open(spec));
       },
       postMessage: (msg: any) => {      // 停止後就略過送訊息
@@ -915,7 +1539,13 @@ function runScriptInVm(
         return base.postMessage(msg);
       },
       onMessage: (handler: (m:any)=>void) => track(base.onMessage(handler)),
-      close: () => { openedByThisVm = false; return base.close(); },
+      close: () => {
+        openedByThisVm = false;
+        const r = base.close();
+        releaseSidebar?.();
+        releaseSidebar = undefined;
+        return r;
+      },
       onClose: (handler: ()=>void) => track(base.onClose(handler)),
     };
 
@@ -945,37 +1575,35 @@ function runScriptInVm(
     stopByCommand: (cmd?: string, reason?: any) => {
       try { abortByCommand(cmd ?? command, reason ?? { type: 'userStop', at: Date.now() }); } catch {}
     },
+    history: async (cmd?: string) => runHistory.history(cmd ?? command),
+    trigger: options.trigger,
+    args: options.args ?? [],
+    action: options.action,
     signal,
     // ─── 新增：訊息 / 啟動 API ───
-    sendMessage: (targetCmdId: string, message: any) => {
+    sendMessage: (targetCmdId: string, message: any, opts?: SendMessageOptions) => {
       if (!targetCmdId || typeof targetCmdId !== 'string') { return; }
-      dispatchMessage(targetCmdId, command, message);
+      dispatchMessage(targetCmdId, command, message, { ttlMs: opts?.ttlMs, durable: opts?.durable });
     },
     onMessage: (handler: (fromCmdId: string, message: any) => void) => {
       if (typeof handler !== 'function') { return () => {}; }
-      return registerMessageHandler(command, handler);
+      return retain(registerMessageHandler(command, sliced(handler)));
     },
-    open: async (cmdId: string, payload?: any) => {
-      if (!cmdId || typeof cmdId !== 'string') { throw new Error(localize('err.vmOpenInvalidCmd', 'vm.open: invalid cmdId')); }
-      // 已在跑 → 直接送 payload
-      if (RUNTIMES.has(cmdId)) {
-        if (arguments.length >= 2) { dispatchMessage(cmdId, command, payload); }
-        return;
-      }
-      // 從 globalState 載入腳本
-      const items = loadFromGlobal(context);
-      const targetItem = items.find(i => i && i.command === cmdId);
-  if (!targetItem || !targetItem.script) { throw new Error(localize('err.vmOpenCmdNotFound', 'vm.open: command not found or empty script: {0}', String(cmdId))); }
-      try {
-        runScriptInVm(context, cmdId, targetItem.script, 'statusbar');
-      } catch (e) {
-        throw new Error(localize('err.vmOpenStartFailed', 'vm.open: failed to start target: {0}', (e as any)?.message || String(e)));
-      }
-      // 等待下一輪 tick 讓目標 VM 有機會註冊 onMessage 再送 payload（若有）
-      if (arguments.length >= 2) {
-        setTimeout(() => dispatchMessage(cmdId, command, payload), 0);
-      }
+    request: async (targetCmdId: string, method: string, payload?: any, opts?: { timeoutMs?: number }) =>
+      vmRpc.request(command, String(targetCmdId || ''), String(method || ''), payload, { timeoutMs: opts?.timeoutMs, signal }),
+    handle: (method: string, handler: (payload: any, ctx: { from: string; signal: AbortSignal }) => any) => {
+      if (!method || typeof method !== 'string' || typeof handler !== 'function') { return () => {}; }
+      if (signal.aborted) { return () => {}; }
+      return retain(vmRpc.handle(command, method, sliced(handler)));
+    },
+    publish: (topic: string, message: any, opts?: { retain?: boolean }) => {
+      vmPubSub.publish(command, topic, message, { retain: Boolean(opts?.retain) });
+    },
+    subscribe: (pattern: string, handler: (message: any, topic: string, from: string) => void) => {
+      if (typeof handler !== 'function') { return () => {}; }
+      return retain(vmPubSub.subscribe(command, pattern, sliced(handler), signal));
     },
+    open: async (cmdId: string, payload?: any) => openScriptByCommand(context, command, cmdId, payload, arguments.length >= 2),
     // ─── 取得所有腳本清單 ───
     scripts: async () => {
       const result = await vscode.commands.executeCommand('statusBarHelper._bridge', {
@@ -992,6 +1620,24 @@ function runScriptInVm(
     }
   };
 
+  // ---- storage.*.onDidChange(key?, handler)：VM 停止時自動取消 ----
+  const storageApi = (api as any).v1.storage;
+  const onStorageChange = (scope: KvScope, nsPrefix: string) => (keyOrHandler: any, maybeHandler?: (e: StorageChangeEvent) => void) => {
+    const [key, handler] = typeof keyOrHandler === 'function' ? [undefined, keyOrHandler] : [String(keyOrHandler), maybeHandler];
+    if (typeof handler !== 'function' || signal.aborted) { return () => {}; }
+    return retain(watchStorage(command, scope, nsPrefix, key, sliced(handler), signal));
+  };
+  storageApi.global.onDidChange = onStorageChange('global', '');
+  storageApi.workspace.onDidChange = onStorageChange('workspace', '');
+  storageApi.scoped.global.onDidChange = onStorageChange('global', scopedKeyPrefix(command));
+  storageApi.scoped.workspace.onDidChange = onStorageChange('workspace', scopedKeyPrefix(command));
+
+  // ---- state.watch：VM 停止時自動取消 ----
+  (api as any).v1.state.watch = (key: string, handler: (value: any, e: StateWatchEvent) => void) => {
+    if (typeof handler !== 'function' || signal.aborted) { return () => {}; }
+    return retain(watchState(command, key, sliced(handler), signal));
+  };
+
   // ---- VM 專屬 explorerAction 包裝：自動收 Disposable + VM 停止時清理 ----
   (api as any).v1.explorerAction = (() => {
     const registeredMenus = new Set<string>(); // 追蹤這個 VM 註冊的 menuIds
@@ -1027,13 +1673,14 @@ function runScriptInVm(
 
         const { menuId } = result.data;
         registeredMenus.add(menuId);
+        const release = retain(() => registeredMenus.delete(menuId));
 
         // 返回 ExplorerMenuHandle
         return {
           get menuId() { return menuId; },
           dispose: async () => {
             if (signal.aborted) return; // VM 已停止，無需手動清理
-            registeredMenus.delete(menuId);
+            release();
             
             const result = await vscode.commands.executeCommand('statusBarHelper._bridge', {
               ns: 'explorerAction',
@@ -1080,56 +1727,360 @@ function runScriptInVm(
   })();
 
   // 當 VM 結束時通知 webview（對 Trusted VM 也要有 runDone）
-  sandbox.__sbhDone = (code: number) => {
+  sandbox.__sbhDone = (code: number, err?: any) => {
+    runHistory.done(command, runtime.runId, code, err);
     if (code === 0) {
       postToSettingsPanel({ command: 'runDone', code, chunk: '[Run succeeded]' });
     } else {
       postToSettingsPanel({ command: 'runDone', code, chunk: '[Run failed]' });
     }
+    topLevelDone = true;
+    maybeFinish();
   };
 
   sandbox.sbh = sandbox.statusBarHelper = sandbox.SBH = api;
 
   // 攔住計時器，便於 stop 清掉
-  sandbox.setTimeout  = wrapTimeout(setTimeout);
+  sandbox.setTimeout  = wrapTimeout(setTimeout, true);
   sandbox.setInterval = wrapTimeout(setInterval);
-  sandbox.clearTimeout  = (h: any) => { timers.delete(h); clearTimeout(h); };
-  sandbox.clearInterval = (h: any) => { timers.delete(h); clearInterval(h); };
+  sandbox.clearTimeout  = (h: any) => { timers.delete(h); clearTimeout(h); maybeFinish(); };
+  sandbox.clearInterval = (h: any) => { timers.delete(h); clearInterval(h); maybeFinish(); };
 
   // 記錄這顆 VM
-  RUNTIMES.set(command, { abort, timers, disposables });
+  RUNTIMES.set(command, runtime);
+  if (maxSyncMs > 0) { ensureVmWatchdog(); }
   // 初始化訊息 handler 集合（確保存在，方便 queue flush）
   if (!MESSAGE_HANDLERS.has(command)) { MESSAGE_HANDLERS.set(command, new Set()); }
 
   // 被 stop 時清理
   signal.addEventListener('abort', () => {
+    const reason = (signal as any).reason;
+    if (reason?.type === 'timeout') { notifyTimeout(command, reason, postToSettingsPanel); }
+    runHistory.end(command, runtime.runId, reason);
+    // 自動結束（completed）保留腳本設定的狀態列文字，下一次執行開始時才清除
+    if (reason?.type !== 'completed') { statusItems.reset(command); }
     for (const t of timers) { try { clearTimeout(t); clearInterval(t as any); } catch {} }
     for (const d of disposables) { try { d.dispose(); } catch {} }
     RUNTIMES.delete(command);
   MESSAGE_HANDLERS.delete(command);
-  MESSAGE_QUEUES.delete(command);
+  vmRpc.release(command);
     // 如果是從設定面板跑的，中止也當作 done（非 0 退出碼）
     postToSettingsPanel({ command: 'runDone', code: 0 , chunk: '[VM closed]' });
   }, { once: true });
 
   // 包起來：resolve / reject 都會呼叫 __sbhDone
+  // 腳本從第 2 行開始（lineOffset -1），錯誤的行號即為腳本本身的行號
   const wrapped =
-    `(async()=>{try{${code}}catch(e){console.error('❌',e&&(e.stack||e.message||e));throw e}})()
+    `(async()=>{try{${prologue}\n${code}\n}catch(e){console.error('❌',e&&(e.stack||e.message||e));throw e}})()
       .then(()=>{try{__sbhDone?.(0)}catch{}})
-      .catch(()=>{try{__sbhDone?.(1)}catch{}})`;
+      .catch((e)=>{try{__sbhDone?.(1,e)}catch{}})`;
+
+  // 整體執行時間上限
+  if (timeoutMs > 0) {
+    const h = setTimeout(() => abort.abort(timeoutReason('total', timeoutMs)), timeoutMs);
+    signal.addEventListener('abort', () => clearTimeout(h), { once: true });
+  }
 
   try {
-    vm.runInNewContext(wrapped, sandbox);
+    vm.runInNewContext(wrapped, sandbox, { filename, lineOffset: -1, ...(maxSyncMs > 0 ? { timeout: maxSyncMs } : {}) });
   } catch (e) {
+    if (isVmTimeoutError(e)) {
+      abort.abort(timeoutReason('bootstrap', maxSyncMs));
+      return;
+    }
     RUNTIMES.delete(command);
+    runHistory.done(command, runtime.runId, 1, e);
+    runHistory.end(command, runtime.runId, { type: 'bootstrapError', at: Date.now() });
     // 啟動失敗也要把錯誤丟給 webview
-    postToSettingsPanel({ command: 'runLog', chunk: `[VM bootstrap error] ${(e as any)?.message || String(e)}\n` });
+    scriptLogs.append(command, 'error', ['[VM bootstrap error]', remapStack(formatLogArg(e))], origin);
+    // SyntaxError 的 stack 開頭是 sbh://<command>.js:行 與出錯的程式碼
+    postToSettingsPanel({ command: 'runLog', chunk: `[VM bootstrap error] ${remapStack((e as any)?.stack || (e as any)?.message || String(e))}\n` });
     postToSettingsPanel({ command: 'runDone', code: 1  , chunk: '[Run failed]' });
     throw e;
   }
 }
 
 
+// ─────────────────────────────────────────────────────────────
+// Worker 隔離模式
+// ─────────────────────────────────────────────────────────────
+
+/** 停止 worker 前保留給 onStop handler 的時間 */
+const WORKER_STOP_GRACE_MS = 200;
+
+/**
+ * worker 模式可用的 vscode API 白名單
+ * 參數與回傳值需可 structured clone，因此不提供事件、Disposable 類 API
+ */
+const WORKER_VSCODE_API: Record<string, (...args: any[]) => Thenable<any>> = {
+  'window.showInformationMessage': (...a) => (vscode.window.showInformationMessage as any)(...a),
+  'window.showWarningMessage':     (...a) => (vscode.window.showWarningMessage as any)(...a),
+  'window.showErrorMessage':       (...a) => (vscode.window.showErrorMessage as any)(...a),
+  'commands.executeCommand':       (id: string, ...a) => vscode.commands.executeCommand(id, ...a),
+  'env.clipboard.readText':        () => vscode.env.clipboard.readText(),
+  'env.clipboard.writeText':       (text: any) => vscode.env.clipboard.writeText(String(text ?? '')),
+  'env.openExternal':              (uri: any) => vscode.env.openExternal(vscode.Uri.parse(String(uri))),
+};
+
+/**
+ * 在 worker_threads 內執行腳本（isolation: 'worker'）
+ *
+ * - 腳本在獨立執行緒，CPU 密集運算不會阻塞 extension host
+ * - statusBarHelper.v1.* 透過 message channel 轉送到 _bridge，vscode 僅提供白名單 API
+ * - 與 VM 模式共用 RUNTIMES / 訊息匯流排，stop / vm.open / sendMessage 行為一致
+ */
+function runScriptInWorker(
+  context: vscode.ExtensionContext,
+  command: string,
+  code: string,
+  filename: string,
+  origin: RunOrigin,
+  options: RunOptions
+) {
+  const abort = new AbortController();
+  const signal = abort.signal;
+  const timers = new Set<NodeJS.Timeout>();
+  const disposables = new Set<vscode.Disposable>();
+  // worker 不佔用 host 執行緒，不需要 event-loop watchdog
+  const runtime: RuntimeCtx = {
+    abort, timers, disposables, maxSyncMs: 0, lastActiveAt: Date.now(), permissions: options.permissions, origin,
+    runId: runHistory.begin(command, origin, 'worker')
+  };
+  const timeoutMs = options.timeoutMs || 0;
+
+  const postToSettingsPanel = (m: any) => {
+    if (origin !== 'settingsPanel') { return; }
+    const p = (SettingsPanel.currentPanel as any);
+    p?._panel?.webview?.postMessage?.(m);
+  };
+
+  const init: WorkerInit = {
+    command,
+    code,
+    filename,
+    packagesRoot: path.join(context.globalStorageUri.fsPath, 'sbh.packages', 'node_modules'),
+    dirname: path.dirname(context.extensionPath),
+    permissions: options.permissions,
+    trigger: options.trigger,
+    args: toPlain(options.args) ?? [],
+    action: options.action,
+  };
+
+  let worker: Worker;
+  try {
+    // worker 無法讀取 globalState：用到的函式庫（含間接 import）在啟動時一併帶入
+    init.libraries = libraries.collect(code, loadAllItems(context));
+    worker = new Worker(path.join(__dirname, 'worker', 'scriptWorker.js'), { workerData: init });
+  } catch (e) {
+    postToSettingsPanel({ command: 'runLog', chunk: `[Worker bootstrap error] ${(e as any)?.message || String(e)}\n` });
+    postToSettingsPanel({ command: 'runDone', code: 1, chunk: '[Run failed]' });
+    throw e;
+  }
+  let exited = false;
+
+  const send = (m: ToWorker) => {
+    if (exited) { return; }
+    try {
+      worker.postMessage(m);
+    } catch (e) {
+      // 回傳值無法 structured clone 時改回傳錯誤，避免 worker 端永遠等待
+      if (m.type === 'result' && m.ok) {
+        try { worker.postMessage({ type: 'result', id: m.id, ok: false, error: (e as any)?.message || String(e) }); } catch {}
+      }
+    }
+  };
+
+  // vm.handle：host 收到的 request 轉給 worker，等待 response
+  let rpcSeq = 0;
+  const rpcPending = new Map<number, { resolve: (v: any) => void; reject: (e: Error) => void }>();
+  const rpcHandles = new Map<string, () => void>();
+  /** vm.subscribe：worker 端訂閱 id → 取消函式 */
+  const topicSubs = new Map<number, () => void>();
+  /** state.watch / storage.*.onDidChange：worker 端監看 id → 取消函式 */
+  const stateWatches = new Map<number, () => void>();
+  const forwardRequest = (method: string) => (payload: any, ctx: { from: string; signal: AbortSignal }) =>
+    new Promise((resolve, reject) => {
+      const id = ++rpcSeq;
+      rpcPending.set(id, { resolve, reject });
+      ctx.signal.addEventListener('abort', () => {
+        if (rpcPending.delete(id)) { send({ type: 'cancelRequest', id }); }
+      }, { once: true });
+      try {
+        const m: ToWorker = { type: 'request', id, from: ctx.from, method, payload };
+        worker.postMessage(m);
+      } catch (e) {
+        rpcPending.delete(id);
+        reject(e);
+      }
+    });
+
+  const handleCall = async (ns: string, fn: string, args: any[]): Promise<any> => {
+    if (ns === 'vscode') {
+      const impl = WORKER_VSCODE_API[fn];
+      if (!impl) { throw new Error(localize('err.workerApiUnavailable', '{0} is not available in worker isolation', `vscode.${fn}`)); }
+      // 宣告 permissions 時與 VM 模式相同：executeCommand 只能呼叫列出的指令，openExternal 需要 network
+      if (options.permissions && !(fn === 'commands.executeCommand' && args[0] === 'statusBarHelper._bridge')) {
+        const denied = fn === 'commands.executeCommand'
+          ? checkCommand(options.permissions, String(args[0]))
+          : checkVscodeApi(options.permissions, fn);
+        if (denied) { throw permissionError(denied); }
+      }
+      // 直接呼叫 _bridge 時同樣帶上呼叫者，避免繞過權限檢查
+      if (fn === 'commands.executeCommand' && args[0] === 'statusBarHelper._bridge' && args[1] && typeof args[1] === 'object') {
+        args[1] = { ...args[1], from: command };
+      }
+      return impl(...args);
+    }
+    if (ns === 'state' && (fn === 'watch' || fn === 'unwatch')) {
+      const watchId = Number(args[0]);
+      stateWatches.get(watchId)?.();
+      stateWatches.delete(watchId);
+      if (fn === 'watch' && !signal.aborted) {
+        stateWatches.set(watchId, watchState(command, args[1], (value, e) => send({ type: 'state', watchId, value, ...e }), signal));
+      }
+      return;
+    }
+    if (ns === 'storage' && (fn === 'watch' || fn === 'unwatch')) {
+      const [watchId, scope, scoped, key] = args as [number, KvScope, boolean, string | undefined];
+      stateWatches.get(watchId)?.();
+      stateWatches.delete(watchId);
+      if (fn === 'watch' && !signal.aborted) {
+        const nsPrefix = scoped ? scopedKeyPrefix(command) : '';
+        stateWatches.set(watchId, watchStorage(command, scope === 'workspace' ? 'workspace' : 'global', nsPrefix, key ?? undefined,
+          e => send({ type: 'storage', watchId, ...e }), signal));
+      }
+      return;
+    }
+    if (ns === 'vm') {
+      switch (fn) {
+        case 'sendMessage':
+          dispatchMessage(String(args[0] || ''), command, args[1], { ttlMs: args[2]?.ttlMs, durable: args[2]?.durable });
+          return;
+        case 'subscribe': {
+          const off = registerMessageHandler(command, (from, message) => send({ type: 'message', from, message }));
+          disposables.add(new vscode.Disposable(off));
+          return;
+        }
+        case 'request':
+          return vmRpc.request(command, String(args[0] || ''), String(args[1] || ''), args[2], { timeoutMs: args[3], signal });
+        case 'handle': {
+          const method = String(args[0] || '');
+          if (!method || signal.aborted) { return; }
+          rpcHandles.get(method)?.();
+          rpcHandles.set(method, vmRpc.handle(command, method, forwardRequest(method)));
+          return;
+        }
+        case 'unhandle':
+          rpcHandles.get(String(args[0] || ''))?.();
+          rpcHandles.delete(String(args[0] || ''));
+          return;
+        case 'publish':
+          vmPubSub.publish(command, args[0], args[1], { retain: Boolean(args[2]) });
+          return;
+        case 'topicSubscribe': {
+          const subId = Number(args[0]);
+          const off = vmPubSub.subscribe(command, args[1], (message, topic, from) => send({ type: 'topic', subId, topic, message, from }), signal);
+          topicSubs.set(subId, off);
+          return;
+        }
+        case 'topicUnsubscribe':
+          topicSubs.get(Number(args[0]))?.();
+          topicSubs.delete(Number(args[0]));
+          return;
+        case 'open':
+          openScriptByCommand(context, command, args[0], args[1], Boolean(args[2]));
+          return;
+        case 'stopByCommand':
+          abortByCommand(String(args[0] || ''), args[1] ?? { type: 'userStop', at: Date.now() });
+          return;
+      }
+    }
+    const r = await vscode.commands.executeCommand('statusBarHelper._bridge', { ns, fn, args, from: command }) as any;
+    if (r && r.ok) { return r.data; }
+    throw new Error(r?.error || 'bridge error');
+  };
+
+  worker.on('message', async (msg: FromWorker) => {
+    switch (msg.type) {
+      case 'call': {
+        try {
+          const data = await handleCall(msg.ns, msg.fn, msg.args || []);
+          send({ type: 'result', id: msg.id, ok: true, data });
+        } catch (e) {
+          send({ type: 'result', id: msg.id, ok: false, error: (e as any)?.message ?? String(e), ...(e instanceof VmRequestError ? { code: e.code } : {}) });
+        }
+        return;
+      }
+      case 'response': {
+        const p = rpcPending.get(msg.id);
+        if (!p) { return; }
+        rpcPending.delete(msg.id);
+        msg.ok ? p.resolve(msg.data) : p.reject(new Error(msg.error || 'handler error'));
+        return;
+      }
+      case 'log': {
+        try { (console as any)[msg.level]?.(...msg.args); } catch {}
+        const parts = msg.args.map(remapStack);
+        scriptLogs.append(command, CONSOLE_LOG_LEVEL[msg.level], parts, origin);
+        postToSettingsPanel({ command: 'runLog', chunk: parts.join(' ') + '\n' });
+        return;
+      }
+      case 'done': {
+        runHistory.done(command, runtime.runId, msg.code, msg.error);
+        postToSettingsPanel({ command: 'runDone', code: msg.code, chunk: msg.code === 0 ? '[Run succeeded]' : '[Run failed]' });
+        return;
+      }
+      case 'stop': {
+        try { abort.abort(msg.reason ?? { type: 'userStop', at: Date.now() }); } catch {}
+        return;
+      }
+      case 'idle': {
+        if (AUTO_FINISH_ORIGINS.has(origin) && !signal.aborted) { abort.abort({ type: 'completed', at: Date.now() }); }
+        return;
+      }
+    }
+  });
+
+  // 未捕捉的例外（含 bootstrap 語法錯誤）只會結束 worker，不影響 host
+  worker.on('error', (e) => {
+    console.error(`[SBH worker:${command}]`, e);
+    scriptLogs.append(command, 'error', ['[Worker error]', remapStack(formatLogArg(e))], origin);
+    runHistory.done(command, runtime.runId, 1, e);
+    postToSettingsPanel({ command: 'runLog', chunk: `[Worker error] ${remapStack(e?.stack || e?.message || String(e))}\n` });
+    if (!signal.aborted) { abort.abort({ type: 'crash', message: e?.message || String(e), at: Date.now() }); }
+  });
+  worker.on('exit', (exitCode) => {
+    exited = true;
+    if (!signal.aborted) { abort.abort({ type: 'exit', code: exitCode, at: Date.now() }); }
+  });
+
+  RUNTIMES.set(command, runtime);
+  if (!MESSAGE_HANDLERS.has(command)) { MESSAGE_HANDLERS.set(command, new Set()); }
+
+  signal.addEventListener('abort', () => {
+    const reason = (signal as any).reason;
+    if (reason?.type === 'timeout') { notifyTimeout(command, reason, postToSettingsPanel); }
+    runHistory.end(command, runtime.runId, reason);
+    if (reason?.type !== 'completed') { statusItems.reset(command); }
+    for (const d of disposables) { try { d.dispose(); } catch {} }
+    if (RUNTIMES.get(command) === runtime) { RUNTIMES.delete(command); }
+    MESSAGE_HANDLERS.delete(command);
+    vmRpc.release(command);
+    // 先讓 worker 內的 onStop 有機會執行，再強制結束
+    if (!exited) {
+      send({ type: 'abort', reason });
+      setTimeout(() => { worker.terminate().catch(() => {}); }, WORKER_STOP_GRACE_MS);
+    }
+    postToSettingsPanel({ command: 'runDone', code: 0, chunk: '[VM closed]' });
+  }, { once: true });
+
+  // 整體執行時間上限
+  if (timeoutMs > 0) {
+    const h = setTimeout(() => abort.abort(timeoutReason('total', timeoutMs)), timeoutMs);
+    signal.addEventListener('abort', () => clearTimeout(h), { once: true });
+  }
+}
+
 // ─────────────────────────────────────────────────────────────
 // 狀態列項目管理
 // ─────────────────────────────────────────────────────────────
@@ -1140,41 +2091,72 @@ function updateStatusBarItems(context: vscode.ExtensionContext, firstActivation
   // 清掉舊的
   itemDisposables.forEach(d => d.dispose());
   itemDisposables = [];
+  statusItems.clear();
 
-  // 從 globalState 載入項目
-  const items = loadFromGlobal(context);
+  // 從 globalState 載入項目，再合併工作區項目
+  const globalItems = loadFromGlobal(context);
+  // 函式庫只供其他腳本 import：不建立狀態列項目、不自動執行
+  const items = withWorkspaceItems(globalItems).filter(i => !i.library);
 
-  items.forEach((item, index) => {
+  // command 無法註冊的項目（例如已被其他擴充套件使用）：略過，不影響其他項目
+  const skipped = new Set<string>();
+
+  orderForStatusBar(items).forEach((item, index) => {
     const { text, tooltip, command, script, hidden, enableOnInit } = item;
-    
+
+    // 每個 item 對應一個 command：透過 runScriptInVm 執行
+    // 帶參數呼叫（keybinding / 其他擴充套件）時參數成為 vm.args；有 actions 的項目點擊時先選擇動作
+    let commandDisposable: vscode.Disposable;
+    try {
+      commandDisposable = vscode.commands.registerCommand(command, async (...args: unknown[]) => {
+        if (!script) { return; }
+        try {
+          if (args.length) {
+            runScriptInVm(context, command, script, 'command', { ...item, args });
+          } else if (item.actions?.length) {
+            const action = await pickItemAction(item);
+            if (action) { runItemAction(context, item, action, 'statusbar'); }
+          } else {
+            runScriptInVm(context, command, script, 'statusbar', item);
+          }
+        } catch (e: any) {
+          vscode.window.showErrorMessage(localize('err.script', '❌ Script error: {0}', e?.message || String(e)));
+          console.error(e);
+        }
+      });
+    } catch (e: any) {
+      const msg = localize('err.registerCommand', 'Cannot register command {0}; the item is skipped: {1}', command, e?.message || String(e));
+      console.error(`[SBH] ${msg}`);
+      scriptLogs.append(command, 'error', [msg], 'host');
+      skipped.add(command);
+      return;
+    }
+
     // 創建狀態列項目（即使隱藏也要創建，以便動態切換顯示）
-    const statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100 - index);
+    // 以 command 當 id：右鍵選單可個別隱藏，name 顯示在選單中
+    const statusBarItem = vscode.window.createStatusBarItem(
+      `sbh.item.${command}`,
+      item.alignment === 'right' ? vscode.StatusBarAlignment.Right : vscode.StatusBarAlignment.Left,
+      item.priority ?? 100 - index
+    );
+    statusBarItem.name = item.name || text.replace(/\$\([^)]*\)/g, '').trim() || command;
     statusBarItem.text = text;
     statusBarItem.tooltip = tooltip;
     statusBarItem.command = command;
 
-    // 每個 item 對應一個 command：透過 runScriptInVm 執行
-    const commandDisposable = vscode.commands.registerCommand(command, () => {
-    if (!script) { return; }
-      try {
-        runScriptInVm(context, command, script, 'statusbar');
-      } catch (e: any) {
-        vscode.window.showErrorMessage(localize('err.script', '❌ Script error: {0}', e?.message || String(e)));
-        console.error(e);
-      }
-    });
-
     itemDisposables.push(statusBarItem, commandDisposable);
 
     // 根據 hidden 狀態決定是否顯示
     if (!hidden) {
       statusBarItem.show();
     }
+    // 供 v1.item 存取（執行中的腳本若有覆寫會在此重新套用）
+    statusItems.register(command, statusBarItem, { text, tooltip, hidden });
 
-    // enableOnInit 邏輯（只在首次啟動時執行）
-    if (firstActivation && enableOnInit && !_runOnceExecutedCommands.has(command)) {
+    // enableOnInit 邏輯（只在首次啟動時執行；未允許的工作區項目等使用者允許後才執行）
+    if (firstActivation && enableOnInit && !_runOnceExecutedCommands.has(command) && isAutorunAllowed(context, item)) {
       try {
-        runScriptInVm(context, command, script, 'autorun');
+        runScriptInVm(context, command, script, 'autorun', item);
         _runOnceExecutedCommands.add(command);
       } catch (e: any) {
         vscode.window.showErrorMessage(localize('err.scriptRunOnce', '❌ Script error (Run Once): {0}', e?.message || String(e)));
@@ -1182,14 +2164,113 @@ function updateStatusBarItems(context: vscode.ExtensionContext, firstActivation
       }
     }
   });
-  // 更新簽章（用於遠端同步差異偵測）
-  try { _itemsSignature = computeItemsSignature(items); } catch {}
+  // 重建排程（設定未變的項目保留原本的計時）
+  const registered = skipped.size ? items.filter(i => !skipped.has(i.command)) : items;
+  const autorun = registered.filter(i => isAutorunAllowed(context, i));
+  _itemScheduler?.sync(autorun);
+  _triggerManager?.sync(autorun);
+  _whenManager?.sync(registered);
+  for (const item of registered) {
+    if (isWorkspaceItem(item) && !isAutorunAllowed(context, item)) { requestWorkspaceAutorun(context, item); }
+  }
+  // 更新簽章（用於遠端同步差異偵測；只比對 globalState 的項目）
+  try { _itemsSignature = computeItemsSignature(globalItems); } catch {}
   // 若是首次啟动尚未有同步紀錄，初始化基準時間（方便 UI 顯示）
   if (firstActivation && _lastSyncApplied === null) {
     _lastSyncApplied = Date.now();
   }
 }
 
+/** 合併工作區項目；與 globalState 項目 command 重複時以 globalState 為準 */
+function withWorkspaceItems(globalItems: SbhItem[]): SbhItem[] {
+  const taken = new Set(globalItems.map(i => i.command));
+  const extra = workspaceItems.list().filter(i => {
+    if (!taken.has(i.command)) { return true; }
+    console.warn(`[SBH] workspace item ${i.command} (${i.file}) is shadowed by a global item`);
+    return false;
+  });
+  return [...globalItems, ...extra];
+}
+
+/** globalState + 工作區的所有項目（執行用） */
+function loadAllItems(context: vscode.ExtensionContext): SbhItem[] {
+  return withWorkspaceItems(loadFromGlobal(context));
+}
+
+/** 執行項目的某個動作：args 成為 vm.args、id 成為 vm.action */
+function runItemAction(context: vscode.ExtensionContext, item: SbhItem, action: SbhAction, origin: RunOrigin) {
+  runScriptInVm(context, item.command, item.script, origin, { ...item, args: actionArgs(action), action: action.id });
+}
+
+/**
+ * statusBarHelper.runItem：keybinding / 其他擴充套件以 { command, action?, args? } 執行項目
+ * 未指定 action / args 時與點擊狀態列相同（有 actions 時先選擇動作）
+ */
+async function runItemByArgs(context: vscode.ExtensionContext, raw: unknown) {
+  const req = parseRunItemArgs(raw);
+  if (!req) {
+    vscode.window.showErrorMessage(localize('err.runItem.args', 'statusBarHelper.runItem needs {0} as args.', '{ "command": "<item command>" }'));
+    return;
+  }
+  const item = loadAllItems(context).find(i => i.command === req.command);
+  if (!item || !item.script) {
+    vscode.window.showErrorMessage(localize('err.runItem.notFound', 'Status Bar Helper: no item with command {0}.', req.command));
+    return;
+  }
+  let action: SbhAction | undefined;
+  if (req.action) {
+    action = item.actions?.find(a => a.id === req.action);
+    if (!action) {
+      vscode.window.showErrorMessage(localize('err.runItem.noAction', 'Status Bar Helper: item {0} has no action {1}.', req.command, req.action));
+      return;
+    }
+  } else if (!req.args && item.actions?.length) {
+    action = await pickItemAction(item);
+    if (!action) { return; }
+  }
+  if (action) {
+    runItemAction(context, item, action, 'command');
+  } else {
+    runScriptInVm(context, item.command, item.script, 'command', { ...item, args: req.args ?? [] });
+  }
+}
+
+/** 排程時間到：執行中則略過這一輪（回傳 false，不更新上次執行時間） */
+function runScheduledItem(context: vscode.ExtensionContext, command: string): boolean {
+  if (RUNTIMES.has(command)) {
+    scriptLogs.append(command, 'info', [localize('msg.scheduleSkipped', 'Scheduled run skipped: the previous run is still active.')], 'host');
+    return false;
+  }
+  const item = loadAllItems(context).find(i => i.command === command);
+  if (!item || !item.script || !isAutorunAllowed(context, item)) { return false; }
+  runScriptInVm(context, command, item.script, 'schedule', item);
+  return true;
+}
+
+/** 事件觸發：執行中則略過（避免頻繁事件反覆重啟同一個腳本） */
+function runTriggeredItem(context: vscode.ExtensionContext, command: string, payload: TriggerPayload) {
+  if (RUNTIMES.has(command)) {
+    scriptLogs.append(command, 'debug', [localize('msg.triggerSkipped', 'Trigger {0} skipped: the script is still running.', payload.event)], 'host');
+    return;
+  }
+  const item = loadAllItems(context).find(i => i.command === command);
+  if (!item || !item.script || !isAutorunAllowed(context, item)) { return; }
+  runScriptInVm(context, command, item.script, 'trigger', { ...item, trigger: payload });
+}
+
+/** 狀態列排列順序：同一 group 的項目緊接在該 group 第一個項目的位置 */
+function orderForStatusBar(items: SbhItem[]): SbhItem[] {
+  const slots: SbhItem[][] = [];
+  const groups = new Map<string, SbhItem[]>();
+  for (const item of items) {
+    if (!item.group) { slots.push([item]); continue; }
+    let members = groups.get(item.group);
+    if (!members) { members = []; groups.set(item.group, members); slots.push(members); }
+    members.push(item);
+  }
+  return slots.flat();
+}
+
 function refreshGearButton() {
   if (gearItem) { gearItem.dispose(); gearItem = null; }
   const enabled = vscode.workspace.getConfiguration('statusBarHelper')
@@ -1211,7 +2292,7 @@ function computeItemsSignature(items: ReturnType<typeof loadFromGlobal>): string
     return (h >>> 0).toString(36);
   };
   return items
-    .map(i => `${i.command}|${hash(i.script||'')}|${i.text||''}|${i.tooltip||''}|${i.hidden?'1':'0'}|${i.enableOnInit?'1':'0'}`)
+    .map(i => `${i.command}|${hash(i.script||'')}|${i.text||''}|${i.tooltip||''}|${i.hidden?'1':'0'}|${i.enableOnInit?'1':'0'}|${i.timeoutMs??''}|${i.maxSyncMs??''}|${i.isolation||''}|${i.language||''}|${i.library||''}|${i.permissions ? permissionsFingerprint(i.permissions) : ''}|${i.schedule ? scheduleFingerprint(i.schedule) : ''}|${i.triggers ? triggersFingerprint(i.triggers) : ''}|${i.alignment||''}|${i.priority??''}|${i.name||''}|${i.group||''}|${i.when||''}|${i.actions ? actionsFingerprint(i.actions) : ''}|${i.keybinding||''}`)
     .sort()
     .join('~');
 }
@@ -1229,6 +2310,8 @@ function startBackgroundPolling(context: vscode.ExtensionContext) {
 
 // 單次背景輪詢；若偵測到變更回傳 true。若未變更且 noAdapt=true，則不增加穩定次數（避免面板剛開造成過度升級）。
 function backgroundPollOnce(context: vscode.ExtensionContext, noAdapt = false): boolean {
+  // storage.global.onDidChange：其他視窗 / 裝置寫入的 key（只在有腳本監看時比對）
+  const kvChanged = kvChanges.poll();
   const items = loadFromGlobal(context);
   const sig = computeItemsSignature(items);
   if (sig !== _itemsSignature) {
@@ -1242,7 +2325,10 @@ function backgroundPollOnce(context: vscode.ExtensionContext, noAdapt = false):
     _lastSyncApplied = Date.now();
     return true;
   }
-  if (!noAdapt) {
+  if (kvChanged) {
+    _pollStableCount = 0;
+    _pollCurrentInterval = POLL_INTERVAL_STEPS[0];
+  } else if (!noAdapt) {
     _pollStableCount++;
     _pollCurrentInterval = _calcAdaptiveInterval(!!SettingsPanel.currentPanel, _pollStableCount);
   }
@@ -1389,7 +2475,45 @@ function registerBridge(context: vscode.ExtensionContext) {
   return vscode.commands.registerCommand('statusBarHelper._bridge', async (payload?: any) => {
     try {
       if (!payload || typeof payload !== 'object') { throw new Error('invalid payload'); }
-      const { ns, fn, args = [] } = payload as { ns: string; fn: string; args: any[] };
+      const { ns, fn, args = [], from } = payload as { ns: string; fn: string; args: any[]; from?: string };
+
+      // 來自腳本的呼叫：依該腳本的 permissions 檢查（未宣告 = 不限制）
+      const callerPerms = from ? RUNTIMES.get(from)?.permissions : undefined;
+      if (from && !RUNTIMES.has(from)) { throw new Error(localize('err.execStopped', 'Execution stopped')); }
+      if (callerPerms) {
+        const denied = checkBridge(callerPerms, ns, fn, args);
+        if (denied) { throw permissionError(denied); }
+      }
+
+      // --- TypeScript 型別檢查（編輯頁存檔後的診斷）---
+      if (ns === 'compiler') {
+        switch (fn) {
+          case 'check':
+            return { ok: true, data: scriptCompiler.check(String(args[0] ?? '')) };
+        }
+        throw new Error('unknown fn: ' + fn);
+      }
+
+      // --- 單一項目的版本紀錄（編輯頁的 History）---
+      if (ns === 'revisions') {
+        switch (fn) {
+          case 'list': {
+            return { ok: true, data: await revisions.list(String(args[0] || '')) };
+          }
+          case 'restore': {
+            const [cmd, id] = args as [string, string];
+            const item = loadFromGlobal(context).find(i => i.command === cmd);
+            const revision = item ? await revisions.get(item.command, String(id)) : undefined;
+            if (!item || !revision) { throw new Error(localize('err.revisionNotFound', 'Revision not found.')); }
+            // 只改寫這個項目的腳本與語言，其他項目與設定不變
+            const restored = { ...item, script: revision.script, language: revision.language };
+            await saveOneToGlobal(context, restored);
+            updateStatusBarItems(context, false);
+            return { ok: true, data: restored };
+          }
+        }
+        throw new Error('unknown fn: ' + fn);
+      }
 
       // --- 智慧備份 bridge API ---
       if (ns === 'backup') {
@@ -1739,14 +2863,11 @@ function registerBridge(context: vscode.ExtensionContext) {
             
             // 套用新資料
             for (const item of applyResult.result) {
-              manifest.items.push({
-                command: item.command,
-                text: item.text,
-                tooltip: item.tooltip,
+              manifest.items.push(toManifestMeta({
+                ...item,
                 hidden: Boolean(item.hidden),
-                enableOnInit: Boolean(item.enableOnInit),
-                ...(Array.isArray(item.tags) && item.tags.length ? { tags: item.tags.slice(0,12) } : {})
-              });
+                enableOnInit: Boolean(item.enableOnInit)
+              }));
               itemsMap[item.command] = item.script || '';
             }
             
@@ -1759,7 +2880,16 @@ function registerBridge(context: vscode.ExtensionContext) {
       }
       // ---------- storage ----------
       if (ns === 'storage') {
-        const mapKey = (k: string) => KV_PREFIX + String(k ?? '');
+        // *Scoped：storage.scoped.*，key 放在呼叫者自己的命名空間（@<command>/）
+        const scoped = fn.endsWith('Scoped');
+        if (scoped && !from) { throw new Error('storage.scoped: caller command is required'); }
+        const nsPrefix = scoped ? scopedKeyPrefix(from!) : '';
+        const mapKey = (k: string) => KV_PREFIX + nsPrefix + String(k ?? '');
+        const write = async (m: vscode.Memento, scope: KvScope, key: string, val: any) => {
+          const oldValue = m.get(mapKey(key));
+          await m.update(mapKey(key), val);
+          kvChanges.record(scope, nsPrefix + String(key ?? ''), val, oldValue, from);
+        };
 
         const keysOf = (m: vscode.Memento) =>
           (typeof (m as any).keys === 'function'
@@ -1792,7 +2922,7 @@ function registerBridge(context: vscode.ExtensionContext) {
           }
         };
 
-        switch (fn) {
+        switch (scoped ? fn.slice(0, -'Scoped'.length) : fn) {
           case 'getGlobal': {
             const [key, def] = args;
             return { ok: true, data: context.globalState.get(mapKey(key), def) };
@@ -1800,17 +2930,17 @@ function registerBridge(context: vscode.ExtensionContext) {
           case 'setGlobal': {
             const [key, val] = args;
             await enforceStorage(context.globalState, key, val);
-            await context.globalState.update(mapKey(key), val);
+            await write(context.globalState, 'global', key, val);
             return { ok: true, data: true };
           }
           case 'removeGlobal': {
             const [key] = args;
-            await context.globalState.update(mapKey(key), undefined);
+            await write(context.globalState, 'global', key, undefined);
             return { ok: true, data: true };
           }
           case 'keysGlobal': {
             const ks = (context.globalState as any).keys?.() as string[] | undefined;
-            const out = (ks ?? []).filter(k => k.startsWith(KV_PREFIX)).map(k => k.slice(KV_PREFIX.length));
+            const out = (ks ?? []).filter(k => k.startsWith(KV_PREFIX + nsPrefix)).map(k => k.slice(KV_PREFIX.length + nsPrefix.length));
             return { ok: true, data: out };
           }
 
@@ -1821,17 +2951,17 @@ function registerBridge(context: vscode.ExtensionContext) {
           case 'setWorkspace': {
             const [key, val] = args;
             await enforceStorage(context.workspaceState, key, val);
-            await context.workspaceState.update(mapKey(key), val);
+            await write(context.workspaceState, 'workspace', key, val);
             return { ok: true, data: true };
           }
           case 'removeWorkspace': {
             const [key] = args;
-            await context.workspaceState.update(mapKey(key), undefined);
+            await write(context.workspaceState, 'workspace', key, undefined);
             return { ok: true, data: true };
           }
           case 'keysWorkspace': {
             const ks = (context.workspaceState as any).keys?.() as string[] | undefined;
-            const out = (ks ?? []).filter(k => k.startsWith(KV_PREFIX)).map(k => k.slice(KV_PREFIX.length));
+            const out = (ks ?? []).filter(k => k.startsWith(KV_PREFIX + nsPrefix)).map(k => k.slice(KV_PREFIX.length + nsPrefix.length));
             return { ok: true, data: out };
           }
         }
@@ -1848,6 +2978,29 @@ function registerBridge(context: vscode.ExtensionContext) {
             const [cmd] = args as [string];
             return { ok: true, data: RUNTIMES.has(String(cmd || '')) };
           }
+          case 'history': {
+            const cmd = String(args[0] || from || '');
+            if (!cmd) { throw new Error('vm.history: command is required'); }
+            return { ok: true, data: runHistory.history(cmd) };
+          }
+          case 'runSummaries': {
+            return { ok: true, data: runHistory.summaries() };
+          }
+          case 'queues': {
+            return { ok: true, data: messageQueues.snapshot() };
+          }
+          case 'clearQueue': {
+            const [cmd, id] = args as [string, string | undefined];
+            messageQueues.clear(String(cmd || ''), typeof id === 'string' ? id : undefined);
+            return { ok: true };
+          }
+          case 'schedules': {
+            return { ok: true, data: _itemScheduler?.nextRuns() ?? {} };
+          }
+          case 'workspaceItems': {
+            const taken = new Set(loadFromGlobal(context).map(i => i.command));
+            return { ok: true, data: workspaceItems.list().map(i => ({ ...i, shadowed: taken.has(i.command) })) };
+          }
           case 'scripts': {
             const manifest = context.globalState.get<any>(GLOBAL_MANIFEST_KEY, { version: 1, items: [] });
             const items = (manifest.items || []).map((item: any) => ({
@@ -1855,6 +3008,11 @@ function registerBridge(context: vscode.ExtensionContext) {
               text: item.text,
               tooltip: item.tooltip
             }));
+            const taken = new Set(items.map((i: any) => i.command));
+            for (const item of workspaceItems.list()) {
+              if (taken.has(item.command)) { continue; }
+              items.push({ command: item.command, text: item.text, tooltip: item.tooltip, workspaceFolder: item.workspaceFolder });
+            }
             return { ok: true, data: items };
           }
         }
@@ -2045,7 +3203,7 @@ function registerBridge(context: vscode.ExtensionContext) {
             }
             case 'keys': {
               const list = loadSecretKeys(context);          // ← 取得清單（不含值）
-              return { ok: true, data: list };
+              return { ok: true, data: callerPerms ? filterSecretKeys(callerPerms, list) : list };
             }
             default:
               throw new Error('unknown fn: ' + fn);
@@ -2069,16 +3227,129 @@ function registerBridge(context: vscode.ExtensionContext) {
         }
       }
 
+      // ---------- item（僅限呼叫者自己的狀態列項目；VM 停止時還原） ----------
+      if (ns === 'item') {
+        if (!from) { throw new Error('item: only available to scripts'); }
+        const [value] = args;
+        switch (fn) {
+          case 'setText':
+            statusItems.update(from, { text: value === undefined || value === null ? undefined : String(value) });
+            break;
+          case 'setTooltip':
+            statusItems.update(from, { tooltip: toItemTooltip(value) });
+            break;
+          case 'setColor':
+            statusItems.update(from, { color: toItemColor(value) });
+            break;
+          case 'setBackground': {
+            if (value !== undefined && value !== null && value !== 'warning' && value !== 'error') {
+              throw new Error(`item.setBackground: expected 'warning', 'error' or undefined, got ${String(value)}`);
+            }
+            statusItems.update(from, { background: (value ?? undefined) as ItemBackground | undefined });
+            break;
+          }
+          case 'setBusy':
+            statusItems.update(from, { busy: !!value });
+            break;
+          case 'show':
+            statusItems.update(from, { visible: true });
+            break;
+          case 'hide':
+            statusItems.update(from, { visible: false });
+            break;
+          case 'reset':
+            statusItems.reset(from);
+            break;
+          default:
+            throw new Error('unknown fn: ' + fn);
+        }
+        return { ok: true, data: statusItems.has(from) };
+      }
+
+      // ---------- context（when clause 用的自訂 key，腳本與 VS Code 共用 sbh.<key>） ----------
+      if (ns === 'context') {
+        if (!_whenManager) { throw new Error('context: not ready'); }
+        switch (fn) {
+          case 'set': {
+            const [key, value] = args as [string, unknown];
+            if (typeof key !== 'string' || !/^[\w.-]+$/.test(key)) {
+              throw new Error(`context.set: invalid key ${String(key)}`);
+            }
+            _whenManager.setContext(key, value === null ? undefined : value);
+            return { ok: true };
+          }
+          case 'get':
+            return { ok: true, data: _whenManager.getContext(String(args[0] ?? '')) };
+          case 'keys':
+            return { ok: true, data: _whenManager.contextKeys() };
+          case 'evaluate':
+            return { ok: true, data: await _whenManager.evaluate(String(args[0] ?? '')) };
+          default:
+            throw new Error('unknown fn: ' + fn);
+        }
+      }
+
+      // ---------- state（所有 VM 共用；寫入者記為 from） ----------
+      if (ns === 'state') {
+        switch (fn) {
+          case 'get':
+            return { ok: true, data: stateStore.get(args[0], args[1]) };
+          case 'entry':
+            return { ok: true, data: stateStore.entry(args[0]) };
+          case 'set':
+            stateStore.set(args[0], args[1], { persist: args[2]?.persist }, from);
+            return { ok: true };
+          case 'compareAndSet':
+            return { ok: true, data: stateStore.compareAndSet(args[0], Number(args[1]), args[2], { persist: args[3]?.persist }, from) };
+          case 'delete':
+            stateStore.delete(args[0], from);
+            return { ok: true };
+          case 'keys':
+            return { ok: true, data: stateStore.keys() };
+          default:
+            throw new Error('unknown fn: ' + fn);
+        }
+      }
+
+      // ---------- log（腳本呼叫時固定為自己的 command；設定面板可指定） ----------
+      if (ns === 'log') {
+        const target = from || (typeof args[0] === 'string' ? args[0] : undefined);
+        switch (fn) {
+          case 'append': {
+            if (!from) { throw new Error('log.append: caller is required'); }
+            const [level, parts] = args as [LogLevel, unknown];
+            const list = (Array.isArray(parts) ? parts : [parts]).map(p => remapStack(formatLogArg(p)));
+            scriptLogs.append(from, level, list, RUNTIMES.get(from)?.origin ?? '');
+            return { ok: true, data: true };
+          }
+          case 'history': {
+            const opts = (from ? args[0] : args[1]) || {};
+            const entries = scriptLogs.query({ command: target, level: opts.level, since: opts.since, limit: opts.limit });
+            return { ok: true, data: entries };
+          }
+          case 'commands':
+            return { ok: true, data: scriptLogs.commands() };
+          case 'clear':
+            scriptLogs.clear(target);
+            return { ok: true, data: true };
+          case 'show':
+            if (!target) { throw new Error('log.show: command is required'); }
+            scriptLogs.show(target);
+            return { ok: true, data: true };
+        }
+        throw new Error('unknown fn: ' + fn);
+      }
+
       // ---------- hostRun ----------
       if (ns === 'hostRun') {
         switch (fn) {
           case 'start': {
-            const [cmd, code] = args as [string, string];
+            const [cmd, code, runOptions] = args as [string, string, RunOptions | undefined];
             if (!cmd || !code) { throw new Error('hostRun.start: invalid args'); }
             // 啟動前先把同 command 的舊 VM 關掉（只影響同名）
             abortByCommand(cmd, { type: 'replaced', from: 'settingsPanel', at: Date.now() });
             // 直接用 host 端的 runScriptInVm 執行
-            runScriptInVm(context, cmd, code, 'settingsPanel');
+            runScriptInVm(context, cmd, code, 'settingsPanel', runOptions ?? {});
             return { ok: true, data: true };
           }
           case 'lastSyncInfo': {
@@ -2549,6 +3820,50 @@ export async function activate(context: vscode.ExtensionContext) {
     // 3) 執行一次性遷移（從 settings.json 到 globalState）
     await migrateFromSettingsIfNeeded(context);
 
+    // 3.5) 載入腳本日誌與執行紀錄（需在任何腳本執行前）
+    await scriptLogs.start(context);
+    await messageQueues.start(context);
+    stateStore.start(context);
+    kvChanges.start(context);
+    sidebarMgr.setStateSource(pattern => stateStore.snapshot(pattern));
+    runHistory.start(context);
+    revisions.start(context);
+    scriptCompiler.start(context);
+    context.subscriptions.push(
+      scriptLogs.onDidAppend(e => SettingsPanel.currentPanel?.queueLogEntry(e)),
+      scriptLogs.onDidClear(cmd => SettingsPanel.currentPanel?.postLogsCleared(cmd)),
+      runHistory.onDidChange(() => SettingsPanel.currentPanel?.scheduleRunHistoryUpdate()),
+      messageQueues.onDidChange(() => SettingsPanel.currentPanel?.scheduleQueuesUpdate()),
+      stateStore.onDidChange(e => sidebarMgr.notifyState(e.key, e.value)),
+      stateStore.onDidChange(e => e.persisted && kvChanges.record('global', STATE_KEY_PREFIX + e.key, e.value, e.oldValue, e.from)),
+      kvChanges.onDidChange(() => SettingsPanel.currentPanel?.scheduleStoredDataUpdate()),
+      onDidSaveScripts(changes => revisions.record(changes)),
+      onDidSaveScripts(changes => libraries.invalidate(changes)),
+      revisions.onDidChange(cmd => SettingsPanel.currentPanel?.postRevisionsChanged(cmd))
+    );
+
+    // 3.6) 項目排程器（狀態存於 globalState，updateStatusBarItems 時同步項目）
+    _itemScheduler = new ItemScheduler(cmd => runScheduledItem(context, cmd));
+    _itemScheduler.start(context);
+    context.subscriptions.push(
+      _itemScheduler.onDidChange(() => SettingsPanel.currentPanel?.postSchedules())
+    );
+
+    // 3.7) 事件觸發（host 端訂閱，事件發生時才啟動腳本）
+    _triggerManager = new TriggerManager((cmd, payload) => runTriggeredItem(context, cmd, payload));
+
+    // 3.75) 顯示條件（when clause；編輯器 / 工作區變動時重新計算）
+    _whenManager = new WhenClauseManager((cmd, visible) => statusItems.setWhen(cmd, visible));
+
+    // 3.8) 工作區項目（.vscode/status-bar-helper.json 與 .vscode/status-bar-helper/*.js）
+    await workspaceItems.start();
+    context.subscriptions.push(
+      workspaceItems.onDidChange(() => {
+        updateStatusBarItems(context, false);
+        SettingsPanel.currentPanel?.postWorkspaceItems();
+      })
+    );
+
     // 4) 初始化 SmartBackupManager
     _smartBackupManager = new SmartBackupManager(context);
     await _smartBackupManager.start();
@@ -2556,6 +3871,24 @@ export async function activate(context: vscode.ExtensionContext) {
     // 5) 註冊 Explorer Menu 統一指令（Quick Pick 選單）
     registerExplorerMenuCommand(context);
 
+    // 5.5) 註冊指令面板的「執行腳本」（含隱藏項目）
+    registerRunScriptCommand(context);
+
+    // 5.6) 腳本檔案系統（sbh:/scripts/<command>.js）：在一般編輯器分頁編輯腳本
+    const scriptFs = new ScriptFileSystemProvider(context);
+    const scriptDiagnostics = vscode.languages.createDiagnosticCollection('status-bar-helper');
+    context.subscriptions.push(
+      vscode.workspace.registerFileSystemProvider(SCRIPT_SCHEME, scriptFs, { isCaseSensitive: true }),
+      scriptFs,
+      scriptDiagnostics,
+      onDidSaveScripts(changes => scriptFs.notifySaved(changes)),
+      scriptFs.onDidWrite(item => {
+        SettingsPanel.currentPanel?.postItemUpdated(item);
+        reportScriptDiagnostics(scriptDiagnostics, item);
+      }),
+      vscode.commands.registerCommand('statusBarHelper.openScript', (command?: string) => openScriptFile(context, command))
+    );
+
     // 6) 建立使用者自訂的狀態列項目（用 Runtime Manager 跑）
     updateStatusBarItems(context, true);
     
@@ -2617,6 +3950,11 @@ export async function activate(context: vscode.ExtensionContext) {
     )
   );
 
+  // 10.5) 對外：keybinding / 其他擴充套件以 { command, action?, args? } 執行項目
+  context.subscriptions.push(
+    vscode.commands.registerCommand(RUN_ITEM_COMMAND, (args?: unknown) => runItemByArgs(context, args))
+  );
+
   // 11) 內部：重新整理狀態列項目（給 SettingsPanel 用）
   context.subscriptions.push(
     vscode.commands.registerCommand('statusBarHelper._refreshStatusBar', () => {
@@ -2638,6 +3976,17 @@ export function deactivate() {
   itemDisposables.forEach(d => d.dispose());
   // 安全收掉所有仍在跑的 VM
   for (const [cmd] of RUNTIMES) { abortByCommand(cmd, { type: 'deactivate', at: Date.now() }); }
+  if (_itemScheduler) { _itemScheduler.dispose(); _itemScheduler = null; }
+  if (_triggerManager) { _triggerManager.dispose(); _triggerManager = null; }
+  if (_whenManager) { _whenManager.dispose(); _whenManager = null; }
+  workspaceItems.dispose();
+  stopVmWatchdog();
+  scriptLogs.dispose();
+  messageQueues.dispose();
+  stateStore.dispose();
+  kvChanges.dispose();
+  runHistory.dispose();
+  revisions.dispose();
   if (_pollTimer) { try { clearTimeout(_pollTimer); } catch {}; _pollTimer = null; }
   if (_smartBackupManager) {
     _smartBackupManager.stop();
@@ -1,4 +1,10 @@
 import * as vscode from 'vscode';
+import { SbhPermissions, normalizePermissions } from './permissions';
+import { SbhSchedule, normalizeSchedule } from './scheduler';
+import { SbhTrigger, normalizeTriggers } from './triggers';
+import { SbhAction, normalizeActions } from './itemActions';
+import { normalizeKeybinding } from './keybindings';
+import { normalizeLibraryName } from './scriptLibraries';
 
 // ─────────────────────────────────────────────────────────────
 // GlobalState 常數與介面
@@ -6,6 +12,12 @@ import * as vscode from 'vscode';
 export const GLOBAL_MANIFEST_KEY = 'sbh.sys.manifest';
 export const GLOBAL_ITEMS_KEY = 'sbh.sys.items';
 export const MIGRATION_FLAG_KEY = 'sbh.sys.migrated.v1';
+/** 已同意的腳本權限（僅存本機，不參與 Settings Sync） */
+export const PERMISSION_GRANTS_KEY = 'sbh.sys.permissionGrants';
+/** 已允許自動執行的工作區項目（僅存本機，不參與 Settings Sync） */
+export const WORKSPACE_AUTORUN_KEY = 'sbh.sys.workspaceAutorun';
+/** 每個項目的執行紀錄（僅存本機，不參與 Settings Sync） */
+export const RUN_HISTORY_KEY = 'sbh.sys.runHistory';
 
 export interface SbhManifest {
   version: number;
@@ -16,6 +28,21 @@ export interface SbhManifest {
     hidden?: boolean;
     enableOnInit?: boolean;
   tags?: string[]; // v2: optional tags classification
+    timeoutMs?: number;   // 整體執行時間上限（ms，0/未設 = 不限）
+    maxSyncMs?: number;   // 單次同步執行片段上限（ms，未設 = 5000，0 = 不限）
+    isolation?: 'vm' | 'worker'; // 執行隔離模式（未設 = vm）
+    language?: 'js' | 'ts'; // 腳本語言（未設 = js）
+    library?: string;     // 函式庫名稱（設定後為 sbh:lib/<name>，不顯示在狀態列）
+    permissions?: SbhPermissions; // 權限宣告（未設 = 不限制）
+    schedule?: SbhSchedule; // 排程（cron / interval / daily）
+    triggers?: SbhTrigger[]; // 事件觸發條件
+    alignment?: 'left' | 'right'; // 狀態列位置（未設 = left）
+    priority?: number;    // 狀態列排序優先權（未設 = 依清單順序）
+    name?: string;        // 狀態列右鍵選單顯示的名稱
+    group?: string;       // 群組：同群組的項目在狀態列上相鄰
+    when?: string;        // 顯示條件（when clause）
+    actions?: SbhAction[]; // 點擊時可選擇的動作
+    keybinding?: string;  // 快捷鍵（經由 statusBarHelper.runItem）
   }>;
 }
 
@@ -31,6 +58,107 @@ export interface SbhItem {
   enableOnInit?: boolean;
   script: string;
   tags?: string[]; // v2 optional
+  /** 整體執行時間上限（ms）；逾時由 host 中止 VM，0 或未設定表示不限 */
+  timeoutMs?: number;
+  /** 單次同步執行（bootstrap / timer / event callback / await 後的續行）上限（ms）；未設定 = 5000，0 = 不限 */
+  maxSyncMs?: number;
+  /** 執行隔離模式：'vm'（預設，extension host 內）或 'worker'（worker_threads） */
+  isolation?: 'vm' | 'worker';
+  /** 腳本語言：'ts' = script 為 TypeScript 原始碼，執行前 transpile；未設定 = JavaScript */
+  language?: 'js' | 'ts';
+  /** 函式庫名稱：設定後此項目不顯示在狀態列，其他腳本以 `import … from 'sbh:lib/<name>'` 載入 */
+  library?: string;
+  /** 權限宣告；未設定 = 不限制（舊行為），設定後未列出的能力一律拒絕 */
+  permissions?: SbhPermissions;
+  /** 排程：cron 表達式、固定間隔或每日指定時間；時間到時以 'schedule' 來源執行 */
+  schedule?: SbhSchedule;
+  /** 事件觸發條件：事件發生時以 'trigger' 來源執行，事件內容由 vm.trigger 取得 */
+  triggers?: SbhTrigger[];
+  /** 狀態列位置；未設定 = 'left' */
+  alignment?: 'left' | 'right';
+  /** 狀態列優先權（越大越靠左 / 越靠外側）；未設定 = 依清單順序 */
+  priority?: number;
+  /** 狀態列右鍵選單顯示的名稱；未設定 = 標籤文字 */
+  name?: string;
+  /** 群組名稱；同群組的項目在狀態列上排在一起 */
+  group?: string;
+  /** 顯示條件（例如 `editorLangId == typescript && workspaceContains:package.json`）；不成立時隱藏 */
+  when?: string;
+  /** 具名動作；有設定時點擊狀態列項目會以 Quick Pick 選擇，動作的 args 成為 vm.args */
+  actions?: SbhAction[];
+  /** 快捷鍵（例如 `ctrl+alt+t`）；由編輯頁寫入 keybindings.json，經 statusBarHelper.runItem 執行 */
+  keybinding?: string;
+}
+
+/** command → 已同意的指紋（權限 + 腳本內容，見 permissions.consentFingerprint）與時間 */
+export interface PermissionGrants {
+  [command: string]: { fingerprint: string; at: number };
+}
+
+/** 工作區項目的自動執行允許紀錄（key 見 workspaceItems.autorunId） */
+export interface WorkspaceAutorunApprovals {
+  [id: string]: { fingerprint: string; at: number };
+}
+
+/** 數值型限制欄位正規化：僅接受有限的非負整數 */
+const normalizeLimit = (v: unknown): number | undefined =>
+  typeof v === 'number' && Number.isFinite(v) && v >= 0 ? Math.floor(v) : undefined;
+
+/** 優先權：任意有限數值 */
+const normalizePriority = (v: unknown): number | undefined =>
+  typeof v === 'number' && Number.isFinite(v) ? v : undefined;
+
+/** 選填字串欄位：去除前後空白，空字串視為未設定 */
+const normalizeLabel = (v: unknown): string | undefined =>
+  typeof v === 'string' && v.trim() ? v.trim() : undefined;
+
+export const MAX_TAGS = 12;
+
+/** 標籤：去除空白與重複，最多 MAX_TAGS 個；沒有標籤時回傳 undefined */
+export function normalizeTags(v: unknown): string[] | undefined {
+  if (!Array.isArray(v)) { return undefined; }
+  const tags = [...new Set(v.filter((t): t is string => typeof t === 'string' && !!t.trim()).map(t => t.trim()))];
+  return tags.length ? tags.slice(0, MAX_TAGS) : undefined;
+}
+
+/** SbhItem → manifest metadata（不含 script） */
+export function toManifestMeta(item: SbhItem): SbhManifest['items'][number] {
+  const timeoutMs = normalizeLimit(item.timeoutMs);
+  const maxSyncMs = normalizeLimit(item.maxSyncMs);
+  const permissions = normalizePermissions(item.permissions);
+  const schedule = normalizeSchedule(item.schedule);
+  const triggers = normalizeTriggers(item.triggers);
+  const priority = normalizePriority(item.priority);
+  const name = normalizeLabel(item.name);
+  const group = normalizeLabel(item.group);
+  const when = normalizeLabel(item.when);
+  const actions = normalizeActions(item.actions);
+  const keybinding = normalizeKeybinding(item.keybinding);
+  const tags = normalizeTags(item.tags);
+  const library = normalizeLibraryName(item.library);
+  return {
+    command: item.command,
+    text: item.text,
+    tooltip: item.tooltip,
+    hidden: item.hidden,
+    enableOnInit: item.enableOnInit,
+    ...(tags ? { tags } : {}),
+    ...(timeoutMs !== undefined ? { timeoutMs } : {}),
+    ...(maxSyncMs !== undefined ? { maxSyncMs } : {}),
+    ...(item.isolation === 'worker' ? { isolation: 'worker' as const } : {}),
+    ...(item.language === 'ts' ? { language: 'ts' as const } : {}),
+    ...(library ? { library } : {}),
+    ...(permissions ? { permissions } : {}),
+    ...(schedule ? { schedule } : {}),
+    ...(triggers ? { triggers } : {}),
+    ...(item.alignment === 'right' ? { alignment: 'right' as const } : {}),
+    ...(priority !== undefined ? { priority } : {}),
+    ...(name ? { name } : {}),
+    ...(group ? { group } : {}),
+    ...(when ? { when } : {}),
+    ...(actions ? { actions } : {}),
+    ...(keybinding ? { keybinding } : {})
+  };
 }
 
 // ─────────────────────────────────────────────────────────────
@@ -58,24 +186,69 @@ export function loadFromGlobal(context: vscode.ExtensionContext): SbhItem[] {
     tags: Array.isArray((meta as any).tags)
       ? (meta as any).tags.slice(0, 12).filter((t: unknown): t is string => typeof t === 'string' && !!t.trim())
       : undefined,
+    timeoutMs: normalizeLimit(meta.timeoutMs),
+    maxSyncMs: normalizeLimit(meta.maxSyncMs),
+    isolation: meta.isolation === 'worker' ? 'worker' : undefined,
+    language: meta.language === 'ts' ? 'ts' : undefined,
+    library: normalizeLibraryName(meta.library),
+    permissions: normalizePermissions(meta.permissions),
+    schedule: normalizeSchedule(meta.schedule),
+    triggers: normalizeTriggers(meta.triggers),
+    alignment: meta.alignment === 'right' ? 'right' : undefined,
+    priority: normalizePriority(meta.priority),
+    name: normalizeLabel(meta.name),
+    group: normalizeLabel(meta.group),
+    when: normalizeLabel(meta.when),
+    actions: normalizeActions(meta.actions),
+    keybinding: normalizeKeybinding(meta.keybinding),
     script: itemsMap[meta.command] || ''
   }));
 }
 
+// ─────────────────────────────────────────────────────────────
+// 儲存事件：腳本內容有變動時通知（版本紀錄用）
+// ─────────────────────────────────────────────────────────────
+
+export interface ScriptSaveEvent {
+  command: string;
+  script: string;
+  /** 腳本語言（未設 = js） */
+  language?: 'ts';
+  /** 儲存前的內容；新項目為 undefined */
+  previous?: string;
+  /** 儲存前的語言 */
+  previousLanguage?: 'ts';
+}
+
+const _onDidSaveScripts = new vscode.EventEmitter<ScriptSaveEvent[]>();
+/** saveOneToGlobal / saveAllToGlobal 寫入了不同的腳本內容或語言 */
+export const onDidSaveScripts = _onDidSaveScripts.event;
+
+function fireScriptChanges(previousMap: SbhItemsMap, previousManifest: SbhManifest, items: SbhItem[]) {
+  const lang = (l?: string) => l === 'ts' ? 'ts' as const : undefined;
+  const previousLanguage = (command: string) => lang(previousManifest.items.find(i => i.command === command)?.language);
+  const changes = items
+    .filter(i => typeof i.script === 'string'
+      && (previousMap[i.command] !== i.script || (i.command in previousMap && previousLanguage(i.command) !== lang(i.language))))
+    .map(i => ({
+      command: i.command,
+      script: i.script,
+      language: lang(i.language),
+      previous: previousMap[i.command],
+      previousLanguage: previousLanguage(i.command),
+    }));
+  if (changes.length) { _onDidSaveScripts.fire(changes); }
+}
+
 export async function saveOneToGlobal(context: vscode.ExtensionContext, item: SbhItem): Promise<void> {
   const manifest = context.globalState.get<SbhManifest>(GLOBAL_MANIFEST_KEY, { version: 2, items: [] });
   const itemsMap = context.globalState.get<SbhItemsMap>(GLOBAL_ITEMS_KEY, {});
+  const previousMap = { ...itemsMap };
+  const previousManifest = { ...manifest, items: [...manifest.items] };
   
   // 更新 manifest 中的 metadata
   const existingIndex = manifest.items.findIndex(i => i.command === item.command);
-  const meta = {
-    command: item.command,
-    text: item.text,
-    tooltip: item.tooltip,
-    hidden: item.hidden,
-    enableOnInit: item.enableOnInit,
-    ...(item.tags && item.tags.length ? { tags: item.tags.slice(0, 12) } : {})
-  };
+  const meta = toManifestMeta(item);
   
   if (existingIndex >= 0) {
     manifest.items[existingIndex] = meta;
@@ -89,24 +262,47 @@ export async function saveOneToGlobal(context: vscode.ExtensionContext, item: Sb
   // 同步寫回
   await context.globalState.update(GLOBAL_MANIFEST_KEY, manifest);
   await context.globalState.update(GLOBAL_ITEMS_KEY, itemsMap);
+  fireScriptChanges(previousMap, previousManifest, [item]);
 }
 
 export async function saveAllToGlobal(context: vscode.ExtensionContext, items: SbhItem[]): Promise<void> {
   const manifest: SbhManifest = { version: 2, items: [] };
   const itemsMap: SbhItemsMap = {};
+  const previousMap = context.globalState.get<SbhItemsMap>(GLOBAL_ITEMS_KEY, {});
+  const previousManifest = context.globalState.get<SbhManifest>(GLOBAL_MANIFEST_KEY, { version: 2, items: [] });
   
   for (const item of items) {
-    manifest.items.push({
-      command: item.command,
-      text: item.text,
-      tooltip: item.tooltip,
-      hidden: item.hidden,
-      enableOnInit: item.enableOnInit,
-      ...(item.tags && item.tags.length ? { tags: item.tags.slice(0, 12) } : {})
-    });
+    manifest.items.push(toManifestMeta(item));
     itemsMap[item.command] = item.script;
   }
   
   await context.globalState.update(GLOBAL_MANIFEST_KEY, manifest);
   await context.globalState.update(GLOBAL_ITEMS_KEY, itemsMap);
+  fireScriptChanges(previousMap, previousManifest, items);
+}
+
+// ─────────────────────────────────────────────────────────────
+// 權限同意紀錄
+// ─────────────────────────────────────────────────────────────
+
+export function loadPermissionGrants(context: vscode.ExtensionContext): PermissionGrants {
+  return context.globalState.get<PermissionGrants>(PERMISSION_GRANTS_KEY, {});
+}
+
+export async function savePermissionGrant(context: vscode.ExtensionContext, command: string, fingerprint: string): Promise<void> {
+  const grants = { ...loadPermissionGrants(context), [command]: { fingerprint, at: Date.now() } };
+  await context.globalState.update(PERMISSION_GRANTS_KEY, grants);
+}
+
+// ─────────────────────────────────────────────────────────────
+// 工作區項目自動執行允許紀錄
+// ─────────────────────────────────────────────────────────────
+
+export function loadWorkspaceAutorunApprovals(context: vscode.ExtensionContext): WorkspaceAutorunApprovals {
+  return context.globalState.get<WorkspaceAutorunApprovals>(WORKSPACE_AUTORUN_KEY, {});
+}
+
+export async function saveWorkspaceAutorunApproval(context: vscode.ExtensionContext, id: string, fingerprint: string): Promise<void> {
+  const approvals = { ...loadWorkspaceAutorunApprovals(context), [id]: { fingerprint, at: Date.now() } };
+  await context.globalState.update(WORKSPACE_AUTORUN_KEY, approvals);
 }
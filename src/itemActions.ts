@@ -0,0 +1,74 @@
+// src/itemActions.ts
+// 項目動作（SbhItem.actions）與執行參數（vm.args）：
+// - 有 actions 的項目點擊狀態列時以 Quick Pick 選擇動作，動作的 args 以 vm.args[0] 傳給腳本、id 為 vm.action
+// - 以 executeCommand(command, ...args) 呼叫時直接執行，args 原樣成為 vm.args（keybinding / 其他擴充套件可驅動腳本）
+import * as vscode from 'vscode';
+import { localize } from './nls';
+
+export interface SbhAction {
+  /** 腳本以 vm.action 取得；未設定時由 label 產生 */
+  id: string;
+  /** Quick Pick 顯示的名稱（支援 `$(icon)`） */
+  label: string;
+  description?: string;
+  /** 傳給腳本的參數（vm.args[0]）；需可 JSON 序列化 */
+  args?: unknown;
+}
+
+const ACTION_ID_RE = /^[\w.-]+$/;
+
+/** label → id：去掉 `$(icon)`，只保留英數字、-、_ */
+const toActionId = (label: string) =>
+  label.replace(/\$\([^)]*\)/g, '').trim().toLowerCase().replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '');
+
+/** 正規化使用者輸入；沒有有效的動作時回傳 undefined */
+export function normalizeActions(raw: unknown): SbhAction[] | undefined {
+  if (!Array.isArray(raw)) { return undefined; }
+  const out: SbhAction[] = [];
+  const seen = new Set<string>();
+  for (const a of raw) {
+    if (!a || typeof a !== 'object') { continue; }
+    const r = a as Record<string, unknown>;
+    const label = typeof r.label === 'string' ? r.label.trim() : '';
+    const id = typeof r.id === 'string' && ACTION_ID_RE.test(r.id.trim()) ? r.id.trim() : toActionId(label);
+    if (!label || !id || seen.has(id)) { continue; }
+    seen.add(id);
+    const description = typeof r.description === 'string' && r.description.trim() ? r.description.trim() : undefined;
+    out.push({
+      id,
+      label,
+      ...(description ? { description } : {}),
+      ...(r.args !== undefined ? { args: toPlain(r.args) } : {}),
+    });
+  }
+  return out.length ? out : undefined;
+}
+
+export function actionsFingerprint(actions: SbhAction[]): string {
+  return JSON.stringify(actions.map(a => [a.id, a.label, a.description ?? '', a.args ?? null]));
+}
+
+/** 動作 → vm.args（未設定 args 時為空陣列） */
+export function actionArgs(action: SbhAction): unknown[] {
+  return action.args === undefined ? [] : [action.args];
+}
+
+/**
+ * 轉成可序列化的純資料（Uri 等物件會經由 toJSON 轉換，函式會被捨棄）；
+ * 用於存入 globalState 與傳給 worker thread
+ */
+export function toPlain<T>(value: T): T | undefined {
+  if (value === undefined) { return undefined; }
+  try { return JSON.parse(JSON.stringify(value)); } catch { return undefined; }
+}
+
+/** 點擊有 actions 的項目：以 Quick Pick 選擇動作；取消時回傳 undefined */
+export async function pickItemAction(item: { text: string; name?: string; actions?: SbhAction[] }): Promise<SbhAction | undefined> {
+  const actions = item.actions ?? [];
+  const title = item.name || item.text.replace(/\$\([^)]*\)/g, '').trim();
+  const picked = await vscode.window.showQuickPick(
+    actions.map(action => ({ label: action.label, description: action.description, action })),
+    { title, placeHolder: localize('pick.itemAction', 'Choose an action to run') }
+  );
+  return picked?.action;
+}
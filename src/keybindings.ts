@@ -0,0 +1,127 @@
+// src/keybindings.ts
+// 項目快捷鍵（SbhItem.keybinding）：VS Code 無法在執行期註冊 keybinding，因此所有項目共用
+// 一個 contributed 指令 statusBarHelper.runItem（args = { command, action?, args? }），
+// 編輯頁的「加入 keybindings.json」把對應的項目寫入使用者（目前 profile）的 keybindings.json。
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { localize } from './nls';
+
+export const RUN_ITEM_COMMAND = 'statusBarHelper.runItem';
+
+/** statusBarHelper.runItem 的參數 */
+export interface RunItemArgs {
+  /** 項目的 command */
+  command: string;
+  /** 要執行的動作 id（SbhItem.actions） */
+  action?: string;
+  /** 傳給腳本的 vm.args；非陣列時視為單一參數 */
+  args?: unknown[];
+}
+
+/** 正規化使用者輸入的快捷鍵（例如 `Ctrl+Alt+T`、`ctrl+k ctrl+t`）；空白 = 未設定 */
+export function normalizeKeybinding(raw: unknown): string | undefined {
+  if (typeof raw !== 'string') { return undefined; }
+  const key = raw.trim().toLowerCase().replace(/\s*\+\s*/g, '+').replace(/\s+/g, ' ');
+  return key || undefined;
+}
+
+/** runItem 的參數：`'sbh.user.x'` 或 `{ command, action?, args? }`；無效時回傳 undefined */
+export function parseRunItemArgs(raw: unknown): RunItemArgs | undefined {
+  if (typeof raw === 'string') { return raw.trim() ? { command: raw.trim() } : undefined; }
+  if (!raw || typeof raw !== 'object') { return undefined; }
+  const r = raw as Record<string, unknown>;
+  if (typeof r.command !== 'string' || !r.command.trim()) { return undefined; }
+  return {
+    command: r.command.trim(),
+    action: typeof r.action === 'string' && r.action.trim() ? r.action.trim() : undefined,
+    args: r.args === undefined ? undefined : Array.isArray(r.args) ? r.args : [r.args],
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// keybindings.json（JSONC）處理：保留使用者的註解與格式，只在陣列最後插入
+// ─────────────────────────────────────────────────────────────
+
+interface JsoncScan {
+  /** 去掉註解與結尾逗號、可 JSON.parse 的內容 */
+  json: string;
+  /** 非空白、非註解字元的位置 */
+  significant: number[];
+}
+
+function scanJsonc(text: string): JsoncScan {
+  const significant: number[] = [];
+  let json = '';
+  let i = 0;
+  while (i < text.length) {
+    const c = text[i];
+    if (c === '"') {
+      const start = i++;
+      while (i < text.length && text[i] !== '"') { i += text[i] === '\\' ? 2 : 1; }
+      i++;
+      significant.push(start);
+      json += text.slice(start, i);
+      continue;
+    }
+    if (c === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') { i++; }
+      continue;
+    }
+    if (c === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      i = end < 0 ? text.length : end + 2;
+      continue;
+    }
+    if (!/\s/.test(c)) { significant.push(i); }
+    json += c;
+    i++;
+  }
+  return { json: json.replace(/,(\s*[\]}])/g, '$1'), significant };
+}
+
+/** 插入位置與文字；無法辨識檔案結構時回傳 undefined */
+function insertionFor(text: string, entry: object): { offset: number; text: string } | undefined {
+  const body = JSON.stringify(entry, null, 4).split('\n').map(l => '    ' + l).join('\n');
+  const { significant } = scanJsonc(text);
+  if (!significant.length) { return { offset: text.length, text: `[\n${body}\n]\n` }; }
+  const close = significant[significant.length - 1];
+  if (text[close] !== ']' || significant.length < 2) { return undefined; }
+  const prev = significant[significant.length - 2];
+  const sep = text[prev] === '[' || text[prev] === ',' ? '' : ',';
+  return { offset: prev + 1, text: `${sep}\n${body}` };
+}
+
+/**
+ * 把項目的快捷鍵寫入使用者的 keybindings.json（透過 VS Code 開啟，確保是目前 profile 的檔案）
+ * @returns 'exists' = 已有相同的項目
+ */
+export async function addItemKeybinding(command: string, key: string): Promise<'added' | 'exists'> {
+  await vscode.commands.executeCommand('workbench.action.openGlobalKeybindingsFile');
+  const editor = vscode.window.activeTextEditor;
+  if (!editor || path.basename(editor.document.uri.path) !== 'keybindings.json') {
+    throw new Error(localize('err.keybindingsFile', 'Could not open keybindings.json.'));
+  }
+  const doc = editor.document;
+  const text = doc.getText();
+
+  let existing: any[] = [];
+  try {
+    const parsed = JSON.parse(scanJsonc(text).json || '[]');
+    existing = Array.isArray(parsed) ? parsed : [];
+  } catch {
+    throw new Error(localize('err.keybindingsParse', 'keybindings.json contains errors; fix them and try again.'));
+  }
+  if (existing.some(e => e?.command === RUN_ITEM_COMMAND && normalizeKeybinding(e.key) === key && parseRunItemArgs(e.args)?.command === command)) {
+    return 'exists';
+  }
+
+  const insert = insertionFor(text, { key, command: RUN_ITEM_COMMAND, args: { command } });
+  if (!insert) {
+    throw new Error(localize('err.keybindingsParse', 'keybindings.json contains errors; fix them and try again.'));
+  }
+  const position = doc.positionAt(insert.offset);
+  await editor.edit(b => b.insert(position, insert.text));
+  await doc.save();
+  editor.revealRange(new vscode.Range(position, doc.positionAt(insert.offset + insert.text.length)));
+  return 'added';
+}
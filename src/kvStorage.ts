@@ -0,0 +1,109 @@
+// src/kvStorage.ts
+// storage（sbh.kv.*）的 per-script 命名空間與變動事件。
+// - storage.scoped.*：key 存為 `@<command>/<key>`，各腳本互不衝突；設定面板的資料頁依擁有者分組
+// - storage.*.onDidChange：_bridge 的寫入（腳本、設定面板、persist 的 v1.state）立即通知；
+//   其他視窗 / 裝置同步寫入的 global key 由背景輪詢比對（只在有腳本監看時才保留快照）
+import * as vscode from 'vscode';
+
+export type KvScope = 'global' | 'workspace';
+
+export interface KvChange {
+  scope: KvScope;
+  /** 不含 KV 前綴的 key（scoped key 為 `@<command>/<key>`） */
+  key: string;
+  /** undefined = 已刪除 */
+  value: any;
+  oldValue: any;
+  /** 寫入者的 command；設定面板與同步的變動為 undefined */
+  from?: string;
+}
+
+/** scoped key 的前綴：`@<command>/` */
+export const scopedKeyPrefix = (command: string) => `@${command}/`;
+
+/** scoped key 的擁有者 command；一般 key 回傳 undefined */
+export function scopedKeyOwner(key: string): string | undefined {
+  const m = /^@([^/]+)\//.exec(key);
+  return m ? m[1] : undefined;
+}
+
+export class KvChangeTracker {
+  private context: vscode.ExtensionContext | undefined;
+  private watchers = 0;
+  /** 上次看到的 global key → JSON；沒有監看者時為 null */
+  private known: Map<string, string> | null = null;
+
+  private readonly _onDidChange = new vscode.EventEmitter<KvChange>();
+  public readonly onDidChange = this._onDidChange.event;
+
+  /** @param kvPrefix storage API 使用的 Memento 前綴 */
+  constructor(private readonly kvPrefix: string) {}
+
+  public start(context: vscode.ExtensionContext) {
+    this.context = context;
+  }
+
+  /** 腳本的監看：第一個監看者出現時建立 global 快照供輪詢比對 */
+  public watch(listener: (e: KvChange) => void): vscode.Disposable {
+    if (this.watchers++ === 0) { this.known = this.read(); }
+    const sub = this._onDidChange.event(listener);
+    let disposed = false;
+    return new vscode.Disposable(() => {
+      if (disposed) { return; }
+      disposed = true;
+      sub.dispose();
+      if (--this.watchers === 0) { this.known = null; }
+    });
+  }
+
+  /** host 端寫入後呼叫（value undefined = 刪除） */
+  public record(scope: KvScope, key: string, value: any, oldValue: any, from?: string) {
+    if (scope === 'global' && this.known) {
+      if (value === undefined) { this.known.delete(key); } else { this.known.set(key, fingerprint(value)); }
+    }
+    if (value === undefined && oldValue === undefined) { return; }
+    this._onDidChange.fire({ scope, key, value, oldValue, from });
+  }
+
+  /** 背景輪詢：比對 globalState 與快照，通知其他視窗 / 裝置寫入的 key；回傳是否有變動 */
+  public poll(): boolean {
+    if (!this.known || !this.context) { return false; }
+    const before = this.known;
+    const now = this.read();
+    this.known = now;
+    let changed = false;
+    for (const [key, json] of now) {
+      if (before.get(key) === json) { continue; }
+      changed = true;
+      const oldJson = before.get(key);
+      this._onDidChange.fire({ scope: 'global', key, value: JSON.parse(json), oldValue: oldJson === undefined ? undefined : JSON.parse(oldJson) });
+    }
+    for (const [key, oldJson] of before) {
+      if (now.has(key)) { continue; }
+      changed = true;
+      this._onDidChange.fire({ scope: 'global', key, value: undefined, oldValue: JSON.parse(oldJson) });
+    }
+    return changed;
+  }
+
+  public dispose() {
+    this._onDidChange.dispose();
+  }
+
+  // ── internal ─────────────────────────────────────────────
+  private read(): Map<string, string> {
+    const out = new Map<string, string>();
+    const state = this.context?.globalState;
+    if (!state) { return out; }
+    for (const k of state.keys()) {
+      if (!k.startsWith(this.kvPrefix)) { continue; }
+      const value = state.get(k);
+      if (value !== undefined) { out.set(k.slice(this.kvPrefix.length), fingerprint(value)); }
+    }
+    return out;
+  }
+}
+
+function fingerprint(value: any): string {
+  try { return JSON.stringify(value) ?? 'null'; } catch { return 'null'; }
+}
@@ -0,0 +1,263 @@
+// src/messageQueueManager.ts
+// vm.sendMessage 的待送佇列：目標尚未註冊 onMessage 時暫存，註冊時依序送出。
+// - 每個目標的筆數上限（statusBarHelper.messages.queueLimit）與滿載時的處理（statusBarHelper.messages.dropPolicy）
+// - 每則訊息可設定 ttlMs，過期的訊息不會送出
+// - durable: true 的訊息持久化到 globalStorage/sbh.queues/，重新載入後仍會送給目標（例如 autorun 腳本）
+// 目標 VM 停止時佇列保留（以上限與 TTL 控制大小）；設定面板的 Queues 分頁可檢視與清除。
+import * as vscode from 'vscode';
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import { localize } from './nls';
+
+export type QueueDropPolicy = 'dropOldest' | 'dropNewest' | 'reject';
+
+export interface QueuedMessage {
+  id: string;
+  from: string;
+  message: any;
+  ts: number;
+  /** 過期時間（ms epoch）；undefined = 不過期 */
+  expiresAt?: number;
+  durable?: boolean;
+}
+
+export interface SendMessageOptions {
+  /** 在佇列中的存活時間；過期未送出則丟棄 */
+  ttlMs?: number;
+  /** 持久化（訊息需可 JSON 序列化） */
+  durable?: boolean;
+}
+
+/** 設定面板顯示用（訊息內容轉為預覽字串） */
+export interface QueueSnapshot {
+  command: string;
+  messages: { id: string; from: string; ts: number; expiresAt?: number; durable: boolean; preview: string }[];
+}
+
+/** 持久化目錄（相對於 globalStorage） */
+export const QUEUES_DIR = 'sbh.queues';
+const LIMIT_CONFIG = 'statusBarHelper.messages.queueLimit';
+const POLICY_CONFIG = 'statusBarHelper.messages.dropPolicy';
+const DEFAULT_LIMIT = 100;
+const DROP_POLICIES: QueueDropPolicy[] = ['dropOldest', 'dropNewest', 'reject'];
+const FLUSH_DELAY_MS = 500;
+const PREVIEW_MAX = 200;
+
+export class MessageQueueManager {
+  private queues = new Map<string, QueuedMessage[]>();
+  private context: vscode.ExtensionContext | undefined;
+  private seq = 0;
+  /** durable 內容有變動、待寫入的 command */
+  private dirty = new Set<string>();
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  private readonly _onDidChange = new vscode.EventEmitter<string>();
+  /** 某個 command 的佇列有變動 */
+  public readonly onDidChange = this._onDidChange.event;
+
+  // 綁定 context 並載回持久化的訊息（需在任何腳本執行前）
+  public async start(context: vscode.ExtensionContext) {
+    this.context = context;
+    let names: string[] = [];
+    try { names = await fsp.readdir(this.dir()); } catch { return; }
+    const now = Date.now();
+    for (const name of names) {
+      if (!name.endsWith('.json')) { continue; }
+      try {
+        const raw = JSON.parse(await fsp.readFile(path.join(this.dir(), name), 'utf8'));
+        if (!Array.isArray(raw)) { continue; }
+        const command = decodeURIComponent(name.slice(0, -'.json'.length));
+        const loaded = raw
+          .filter((m: any) => m && typeof m.ts === 'number' && typeof m.from === 'string' && !(m.expiresAt <= now))
+          .map((m: any): QueuedMessage => ({
+            id: this.nextId(),
+            from: m.from,
+            message: m.message,
+            ts: m.ts,
+            ...(typeof m.expiresAt === 'number' ? { expiresAt: m.expiresAt } : {}),
+            durable: true,
+          }));
+        if (loaded.length) { this.queues.set(command, [...loaded, ...(this.queues.get(command) || [])]); }
+        if (loaded.length !== raw.length) { this.dirty.add(command); }
+      } catch (e) {
+        console.warn('[SBH] failed to load message queue:', name, e);
+      }
+    }
+    this.scheduleFlush();
+  }
+
+  /**
+   * 加入佇列；回傳因滿載而丟棄的筆數（dropNewest 時為這則訊息本身）
+   * dropPolicy 為 reject 時，滿載會丟出錯誤
+   */
+  public enqueue(target: string, from: string, message: any, options: SendMessageOptions = {}): number {
+    const durable = options.durable === true;
+    let stored = message;
+    if (durable) {
+      try {
+        stored = JSON.parse(JSON.stringify(message ?? null));
+      } catch (e) {
+        throw new Error(localize('err.messageNotSerializable', 'Durable messages must be JSON-serializable: {0}', (e as any)?.message || String(e)));
+      }
+    }
+    const ttlMs = Number(options.ttlMs);
+    const now = Date.now();
+    const entry: QueuedMessage = {
+      id: this.nextId(),
+      from,
+      message: stored,
+      ts: now,
+      ...(Number.isFinite(ttlMs) && ttlMs > 0 ? { expiresAt: now + ttlMs } : {}),
+      ...(durable ? { durable: true } : {}),
+    };
+
+    const queue = this.prune(target);
+    const limit = this.limit();
+    let dropped = 0;
+    if (queue.length >= limit) {
+      switch (this.policy()) {
+        case 'reject':
+          throw new Error(localize('err.messageQueueFull', 'Message queue for {0} is full ({1} messages).', target, String(limit)));
+        case 'dropNewest':
+          return 1;
+        case 'dropOldest': {
+          const removed = queue.splice(0, queue.length - limit + 1);
+          dropped = removed.length;
+          if (removed.some(m => m.durable)) { this.dirty.add(target); }
+          break;
+        }
+      }
+    }
+    queue.push(entry);
+    this.queues.set(target, queue);
+    if (durable) { this.dirty.add(target); }
+    this.changed(target);
+    return dropped;
+  }
+
+  /** 取出目標所有未過期的訊息（依加入順序），佇列清空 */
+  public take(target: string): QueuedMessage[] {
+    const had = this.queues.has(target);
+    const queue = this.prune(target);
+    this.queues.delete(target);
+    if (queue.some(m => m.durable)) { this.dirty.add(target); }
+    if (had) { this.changed(target); }
+    return queue;
+  }
+
+  public snapshot(): QueueSnapshot[] {
+    const out = Array.from(this.queues.keys())
+      .map(command => ({
+        command,
+        messages: this.prune(command).map(m => ({
+          id: m.id,
+          from: m.from,
+          ts: m.ts,
+          expiresAt: m.expiresAt,
+          durable: !!m.durable,
+          preview: preview(m.message),
+        })),
+      }))
+      .filter(q => q.messages.length > 0)
+      .sort((a, b) => a.command.localeCompare(b.command));
+    // 過期的 durable 訊息也要從檔案移除
+    this.scheduleFlush();
+    return out;
+  }
+
+  /** 清除整個佇列，或只刪除其中一則（id） */
+  public clear(target: string, id?: string) {
+    const queue = this.queues.get(target);
+    if (!queue) { return; }
+    const removed = id ? queue.filter(m => m.id === id) : queue;
+    if (!removed.length) { return; }
+    if (id) {
+      this.queues.set(target, queue.filter(m => m.id !== id));
+    } else {
+      this.queues.delete(target);
+    }
+    if (removed.some(m => m.durable)) { this.dirty.add(target); }
+    this.changed(target);
+  }
+
+  public dispose() {
+    if (this.flushTimer) { clearTimeout(this.flushTimer); this.flushTimer = null; }
+    void this.flush();
+    this._onDidChange.dispose();
+  }
+
+  // ── internal ─────────────────────────────────────────────
+  private nextId() {
+    return `${Date.now().toString(36)}-${(++this.seq).toString(36)}`;
+  }
+
+  /** 移除過期的訊息，回傳剩下的佇列（可直接修改） */
+  private prune(target: string): QueuedMessage[] {
+    const queue = this.queues.get(target) || [];
+    const now = Date.now();
+    const alive = queue.filter(m => m.expiresAt === undefined || m.expiresAt > now);
+    if (alive.length !== queue.length) {
+      if (queue.some(m => m.durable && !alive.includes(m))) { this.dirty.add(target); }
+      if (alive.length) { this.queues.set(target, alive); } else { this.queues.delete(target); }
+    }
+    return alive;
+  }
+
+  private changed(target: string) {
+    this._onDidChange.fire(target);
+    this.scheduleFlush();
+  }
+
+  private limit() {
+    const n = vscode.workspace.getConfiguration().get<number>(LIMIT_CONFIG, DEFAULT_LIMIT);
+    return typeof n === 'number' && Number.isFinite(n) && n >= 1 ? Math.floor(n) : DEFAULT_LIMIT;
+  }
+
+  private policy(): QueueDropPolicy {
+    const p = vscode.workspace.getConfiguration().get<string>(POLICY_CONFIG, 'dropOldest') as QueueDropPolicy;
+    return DROP_POLICIES.includes(p) ? p : 'dropOldest';
+  }
+
+  private dir() {
+    return path.join(this.context!.globalStorageUri.fsPath, QUEUES_DIR);
+  }
+
+  private scheduleFlush() {
+    if (!this.context || !this.dirty.size || this.flushTimer) { return; }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      void this.flush();
+    }, FLUSH_DELAY_MS);
+  }
+
+  private async flush() {
+    if (!this.context || !this.dirty.size) { return; }
+    const targets = Array.from(this.dirty);
+    this.dirty.clear();
+    try {
+      await fsp.mkdir(this.dir(), { recursive: true });
+      for (const command of targets) {
+        const file = path.join(this.dir(), `${encodeURIComponent(command)}.json`);
+        const durable = (this.queues.get(command) || []).filter(m => m.durable);
+        if (!durable.length) {
+          await fsp.rm(file, { force: true });
+          continue;
+        }
+        const data = durable.map(({ from, message, ts, expiresAt }) => ({ from, message, ts, expiresAt }));
+        await fsp.writeFile(file, JSON.stringify(data), 'utf8');
+      }
+    } catch (e) {
+      console.warn('[SBH] failed to persist message queues:', e);
+    }
+  }
+}
+
+function preview(message: any): string {
+  let text: string;
+  try {
+    text = typeof message === 'string' ? message : JSON.stringify(message) ?? String(message);
+  } catch {
+    text = String(message);
+  }
+  return text.length > PREVIEW_MAX ? text.slice(0, PREVIEW_MAX) + '…' : text;
+}
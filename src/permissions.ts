@@ -0,0 +1,148 @@
+// src/permissions.ts
+// 腳本權限宣告（SbhItem.permissions）的正規化與檢查。
+// 不依賴 vscode 模組：host 的 require shim / _bridge 與 worker thread 共用同一套規則。
+//
+// 規則：
+// - 未宣告 permissions 的項目維持舊行為（完整存取）
+// - 一旦宣告，未列出的能力一律拒絕；true = 該類別全部允許
+// - 宣告後 vscode facade 也會收斂：不提供原始命名空間，executeCommand 只能呼叫 commands 列出的指令，
+//   workspace.fs / env.openExternal / 終端機與 task 需要對應的 node / network 權限
+// - 同意紀錄綁定腳本內容（consentFingerprint），腳本改變後需重新同意
+// - 這是防呆的權限邊界（guardrail），node:vm 本身並非安全沙箱：API 回傳的 host 物件仍屬於 host realm
+import * as crypto from 'crypto';
+
+export type FileScope = 'global' | 'workspace';
+
+export interface SbhPermissions {
+  /** 可存取的 files 範圍；true = global + workspace */
+  files?: FileScope[] | boolean;
+  /** 可存取的 secret key；true = 全部 */
+  secret?: string[] | boolean;
+  /** 是否可使用 packages API 與 require 已安裝的 npm 套件 */
+  packages?: boolean;
+  /** 是否可載入網路相關的 Node 模組 */
+  network?: boolean;
+  /** 可 require 的 Node 內建模組；true = 全部（網路模組仍受 network 控制） */
+  node?: string[] | boolean;
+  /** 可用 vscode.commands.executeCommand 呼叫的指令；true = 全部（腳本自己註冊的指令不需列出） */
+  commands?: string[] | boolean;
+}
+
+/** 受 network 權限控制的 Node 內建模組 */
+export const NETWORK_MODULES: ReadonlySet<string> = new Set(['http', 'https', 'http2', 'net', 'tls', 'dgram', 'dns']);
+
+/** 宣告 permissions 後仍固定允許的 _bridge 命名空間；backup / importExport / hostRun 等管理用命名空間一律拒絕 */
+const ALWAYS_ALLOWED_NS = new Set(['storage', 'vm', 'explorerAction', 'log', 'item', 'context', 'state']);
+
+const FILE_SCOPES: FileScope[] = ['global', 'workspace'];
+
+const toStringList = (v: unknown): string[] =>
+  Array.isArray(v)
+    ? Array.from(new Set(v.filter((x): x is string => typeof x === 'string').map(x => x.trim()).filter(Boolean)))
+    : [];
+
+/** 正規化使用者輸入的 permissions；非物件回傳 undefined（= 未限制） */
+export function normalizePermissions(raw: unknown): SbhPermissions | undefined {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) { return undefined; }
+  const r = raw as Record<string, unknown>;
+  return {
+    files: r.files === true ? true : toStringList(r.files).filter((s): s is FileScope => (FILE_SCOPES as string[]).includes(s)),
+    secret: r.secret === true ? true : toStringList(r.secret),
+    packages: r.packages === true,
+    network: r.network === true,
+    node: r.node === true ? true : toStringList(r.node).map(m => m.replace(/^node:/, '')),
+    commands: r.commands === true ? true : toStringList(r.commands),
+  };
+}
+
+/** 權限內容的穩定指紋；權限變更後需重新同意 */
+export function permissionsFingerprint(perms: SbhPermissions): string {
+  const n = normalizePermissions(perms)!;
+  const sorted = (v: string[] | boolean | undefined) => Array.isArray(v) ? [...v].sort() : v;
+  return JSON.stringify([sorted(n.files), sorted(n.secret), n.packages, n.network, sorted(n.node), sorted(n.commands)]);
+}
+
+/** 同意紀錄的指紋：權限 + 腳本內容，兩者任一改變都需重新同意 */
+export function consentFingerprint(perms: SbhPermissions, script: string): string {
+  const scriptHash = crypto.createHash('sha256').update(script, 'utf8').digest('hex');
+  return `${permissionsFingerprint(perms)}#${scriptHash}`;
+}
+
+const allows = (v: string[] | boolean | undefined, name: string) =>
+  v === true || (Array.isArray(v) && (v.includes(name) || v.includes('*')));
+
+const allowsAny = (v: string[] | boolean | undefined) =>
+  v === true || (Array.isArray(v) && v.length > 0);
+
+/**
+ * require 檢查
+ * @returns 被拒絕的能力描述；null = 允許
+ */
+export function checkRequire(perms: SbhPermissions, name: string, kind: 'builtin' | 'package'): string | null {
+  if (kind === 'package') { return perms.packages ? null : `packages (require('${name}'))`; }
+  const mod = name.replace(/^node:/, '').split('/')[0];
+  if (NETWORK_MODULES.has(mod) && !perms.network) { return `network (require('${name}'))`; }
+  return allows(perms.node, mod) ? null : `node:${mod}`;
+}
+
+/**
+ * _bridge 呼叫檢查
+ * @returns 被拒絕的能力描述；null = 允許
+ */
+export function checkBridge(perms: SbhPermissions, ns: string, fn: string, args: any[]): string | null {
+  if (ALWAYS_ALLOWED_NS.has(ns)) { return null; }
+  switch (ns) {
+    case 'files': {
+      if (fn === 'dirs') { return allowsAny(perms.files) ? null : 'files'; }
+      const scope = String(args[0]);
+      return allows(perms.files, scope) ? null : `files:${scope}`;
+    }
+    case 'secret': {
+      if (fn === 'keys') { return allowsAny(perms.secret) ? null : 'secret'; }
+      const key = String(args[0]);
+      return allows(perms.secret, key) ? null : `secret:${key}`;
+    }
+    case 'packages':
+      return perms.packages ? null : 'packages';
+    default:
+      return `${ns}.${fn}`;
+  }
+}
+
+/**
+ * vscode.commands.executeCommand 檢查（_bridge 另由 checkBridge 檢查）
+ * @returns 被拒絕的能力描述；null = 允許
+ */
+export function checkCommand(perms: SbhPermissions, id: string): string | null {
+  return allows(perms.commands, id) ? null : `command:${id}`;
+}
+
+/**
+ * 可繞過 files / node / network 限制的 vscode API 檢查
+ * @param api `namespace.member`，例如 `workspace.fs`
+ * @returns 被拒絕的能力描述；null = 允許
+ */
+export function checkVscodeApi(perms: SbhPermissions, api: string): string | null {
+  switch (api) {
+    case 'workspace.fs':
+      return allows(perms.node, 'fs') ? null : `node:fs (vscode.${api})`;
+    case 'env.openExternal':
+      return perms.network ? null : `network (vscode.${api})`;
+    case 'window.createTerminal':
+    case 'tasks.executeTask':
+      return allows(perms.node, 'child_process') ? null : `node:child_process (vscode.${api})`;
+    default:
+      return null;
+  }
+}
+
+/** secret.keys 的結果只保留允許的 key */
+export function filterSecretKeys(perms: SbhPermissions, keys: string[]): string[] {
+  return keys.filter(k => allows(perms.secret, k));
+}
+
+/** 是否有任何需要使用者同意的能力 */
+export function requestsAnything(perms: SbhPermissions): boolean {
+  return allowsAny(perms.files) || allowsAny(perms.secret) || !!perms.packages || !!perms.network
+    || allowsAny(perms.node) || allowsAny(perms.commands);
+}
@@ -0,0 +1,142 @@
+// src/revisionManager.ts
+// 腳本版本紀錄：saveOneToGlobal / saveAllToGlobal 寫入不同的腳本內容時保留一份，
+// 每個 command 一個檔案（globalStorage/sbh.revisions/），只保留最近 N 筆（statusBarHelper.revisions.max）。
+// 編輯頁可比較任意兩個版本，並只還原單一項目（不影響其他項目，與整份的智慧備份不同）。
+import * as vscode from 'vscode';
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { ScriptSaveEvent } from './globalStateManager';
+
+export interface ScriptRevision {
+  id: string;
+  ts: number;
+  /** sha256(script) 前 12 碼 */
+  hash: string;
+  size: number;
+  script: string;
+  /** 腳本語言（未設 = js）；還原時一併套用 */
+  language?: 'ts';
+  /** 內容與較早的某個版本相同（還原或改回）時，該版本的 id */
+  restoredFrom?: string;
+  /** 開始記錄前就存在的內容（第一次變更時補上） */
+  baseline?: boolean;
+}
+
+/** 持久化目錄（相對於 globalStorage） */
+export const REVISIONS_DIR = 'sbh.revisions';
+const MAX_CONFIG = 'statusBarHelper.revisions.max';
+const DEFAULT_MAX = 20;
+
+export const hashScript = (script: string) =>
+  crypto.createHash('sha256').update(script, 'utf8').digest('hex').slice(0, 12);
+
+export class RevisionManager {
+  private context: vscode.ExtensionContext | undefined;
+  private cache = new Map<string, ScriptRevision[]>();
+  /** 同一 command 的讀寫依序進行 */
+  private queues = new Map<string, Promise<unknown>>();
+  private seq = 0;
+
+  private readonly _onDidChange = new vscode.EventEmitter<string>();
+  /** 某個 command 新增了版本 */
+  public readonly onDidChange = this._onDidChange.event;
+
+  public start(context: vscode.ExtensionContext) {
+    this.context = context;
+  }
+
+  /** 版本清單（新 → 舊） */
+  public list(command: string): Promise<ScriptRevision[]> {
+    return this.enqueue(command, async () => [...await this.load(command)].reverse());
+  }
+
+  public async get(command: string, id: string): Promise<ScriptRevision | undefined> {
+    return (await this.list(command)).find(r => r.id === id);
+  }
+
+  /** onDidSaveScripts 的處理：內容與語言都與最新版本相同時略過 */
+  public record(changes: ScriptSaveEvent[]) {
+    if (!this.context || this.max() <= 0) { return; }
+    for (const change of changes) {
+      void this.enqueue(change.command, () => this.append(change)).catch(e => {
+        console.warn('[SBH] failed to record revision:', change.command, e);
+      });
+    }
+  }
+
+  public dispose() {
+    this._onDidChange.dispose();
+  }
+
+  // ── internal ─────────────────────────────────────────────
+  private enqueue<T>(command: string, task: () => Promise<T>): Promise<T> {
+    const prev = this.queues.get(command) ?? Promise.resolve();
+    const next = prev.catch(() => undefined).then(task);
+    this.queues.set(command, next);
+    void next.finally(() => { if (this.queues.get(command) === next) { this.queues.delete(command); } }).catch(() => undefined);
+    return next;
+  }
+
+  private async append(change: ScriptSaveEvent) {
+    const list = [...await this.load(change.command)];
+    const now = Date.now();
+    if (!list.length && change.previous) {
+      list.push(this.create(change.previous, change.previousLanguage, now, list, { baseline: true }));
+    }
+    const hash = hashScript(change.script);
+    const last = list[list.length - 1];
+    if (last && last.hash === hash && last.language === change.language) { return; }
+    list.push(this.create(change.script, change.language, now, list));
+    const kept = list.slice(-this.max());
+    this.cache.set(change.command, kept);
+    await fsp.mkdir(this.dir(), { recursive: true });
+    await fsp.writeFile(this.file(change.command), JSON.stringify(kept), 'utf8');
+    this._onDidChange.fire(change.command);
+  }
+
+  private create(script: string, language: 'ts' | undefined, ts: number, earlier: ScriptRevision[], extra: Partial<ScriptRevision> = {}): ScriptRevision {
+    const hash = hashScript(script);
+    const same = [...earlier].reverse().find(r => r.hash === hash && r.language === language);
+    return {
+      id: `${ts.toString(36)}-${(++this.seq).toString(36)}`,
+      ts,
+      hash,
+      size: Buffer.byteLength(script, 'utf8'),
+      script,
+      ...(language ? { language } : {}),
+      ...(same ? { restoredFrom: same.id } : {}),
+      ...extra,
+    };
+  }
+
+  private async load(command: string): Promise<ScriptRevision[]> {
+    const cached = this.cache.get(command);
+    if (cached) { return cached; }
+    if (!this.context) { return []; }
+    let list: ScriptRevision[] = [];
+    try {
+      const raw = JSON.parse(await fsp.readFile(this.file(command), 'utf8'));
+      if (Array.isArray(raw)) {
+        list = raw
+          .filter((r: any) => r && typeof r.id === 'string' && typeof r.ts === 'number' && typeof r.script === 'string')
+          .map((r: ScriptRevision) => r.language === 'ts' ? r : { ...r, language: undefined });
+      }
+    } catch {}
+    this.cache.set(command, list);
+    return list;
+  }
+
+  private max() {
+    const n = vscode.workspace.getConfiguration().get<number>(MAX_CONFIG, DEFAULT_MAX);
+    return typeof n === 'number' && Number.isFinite(n) ? Math.max(0, Math.floor(n)) : DEFAULT_MAX;
+  }
+
+  private dir() {
+    return path.join(this.context!.globalStorageUri.fsPath, REVISIONS_DIR);
+  }
+
+  private file(command: string) {
+    return path.join(this.dir(), `${encodeURIComponent(command)}.json`);
+  }
+}
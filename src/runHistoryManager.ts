@@ -0,0 +1,177 @@
+// src/runHistoryManager.ts
+// 每個項目（command）的執行紀錄：來源、開始/結束時間、exit code、中止原因與最後的錯誤堆疊。
+// 保存在 globalState（僅本機），供列表顯示「上次執行 / 上次錯誤」與 vm.history() 查詢。
+import * as vscode from 'vscode';
+import { RUN_HISTORY_KEY } from './globalStateManager';
+import { remapStack } from './sourceMaps';
+
+/** command = 以 executeCommand(command, ...args) 帶參數呼叫（keybinding、其他擴充套件） */
+export type RunOrigin = 'statusbar' | 'autorun' | 'settingsPanel' | 'schedule' | 'trigger' | 'command';
+
+export interface RunRecord {
+  id: string;
+  command: string;
+  origin: RunOrigin;
+  isolation: 'vm' | 'worker';
+  startedAt: number;
+  /** 腳本主體 (top-level async) 完成的時間；VM 可能因 timer / listener 繼續存活 */
+  doneAt?: number;
+  /** 0 = 主體正常結束，1 = 丟出例外 */
+  exitCode?: number;
+  /** VM 關閉時間 */
+  endedAt?: number;
+  /** RuntimeCtx.abort 的中止原因 */
+  reason?: any;
+  /** 例外訊息與堆疊 */
+  error?: { message: string; stack?: string };
+}
+
+export interface RunSummary {
+  lastRun?: RunRecord;
+  /** 最近一次失敗（可能早於 lastRun） */
+  lastError?: RunRecord;
+}
+
+/** 每個 command 保留的紀錄筆數 */
+export const RUN_HISTORY_MAX = 20;
+const SAVE_DELAY_MS = 1000;
+
+interface StoredHistory {
+  runs: { [command: string]: RunRecord[] };
+  lastErrors: { [command: string]: RunRecord };
+}
+
+/** 中止原因轉成可序列化的純物件 */
+function toPlain(v: any): any {
+  if (v === undefined) { return undefined; }
+  if (v instanceof Error) { return { type: 'error', message: v.message }; }
+  try { return JSON.parse(JSON.stringify(v)); } catch { return { type: 'unknown', message: String(v) }; }
+}
+
+/** 例外 → { message, stack } */
+function toRunError(e: any): RunRecord['error'] {
+  if (e === undefined || e === null) { return undefined; }
+  if (typeof e === 'object' && ('message' in e || 'stack' in e)) {
+    return { message: String(e.message ?? e), stack: e.stack ? remapStack(String(e.stack)) : undefined };
+  }
+  return { message: String(e) };
+}
+
+/** 中止原因本身是否代表失敗（逾時、worker 崩潰等） */
+const isFailureReason = (r: any) =>
+  r && (r.type === 'timeout' || r.type === 'crash' || r.type === 'bootstrapError' || (r.type === 'exit' && r.code !== 0));
+
+export class RunHistoryManager {
+  private context: vscode.ExtensionContext | undefined;
+  private data: StoredHistory = { runs: {}, lastErrors: {} };
+  private saveTimer: NodeJS.Timeout | null = null;
+  private seq = 0;
+
+  private readonly _onDidChange = new vscode.EventEmitter<string>();
+  /** 某個 command 的紀錄有變動 */
+  public readonly onDidChange = this._onDidChange.event;
+
+  public start(context: vscode.ExtensionContext) {
+    this.context = context;
+    const raw = context.globalState.get<StoredHistory>(RUN_HISTORY_KEY);
+    if (raw && typeof raw === 'object') {
+      this.data = { runs: raw.runs || {}, lastErrors: raw.lastErrors || {} };
+    }
+    // 上次關閉時仍在跑的紀錄補上結束狀態
+    for (const list of Object.values(this.data.runs)) {
+      for (const r of list) {
+        if (!r.endedAt) { r.endedAt = r.doneAt ?? r.startedAt; r.reason = r.reason ?? { type: 'deactivate' }; }
+      }
+    }
+  }
+
+  /** 新的一次執行；回傳紀錄 id */
+  public begin(command: string, origin: RunOrigin, isolation: 'vm' | 'worker'): string {
+    const id = `${Date.now().toString(36)}-${(++this.seq).toString(36)}`;
+    const list = this.data.runs[command] ?? (this.data.runs[command] = []);
+    list.unshift({ id, command, origin, isolation, startedAt: Date.now() });
+    if (list.length > RUN_HISTORY_MAX) { list.length = RUN_HISTORY_MAX; }
+    this.changed(command);
+    return id;
+  }
+
+  /** 腳本主體完成（__sbhDone） */
+  public done(command: string, id: string, exitCode: number, error?: any) {
+    const r = this.find(command, id);
+    if (!r || r.doneAt) { return; }
+    r.doneAt = Date.now();
+    r.exitCode = exitCode;
+    if (exitCode !== 0) { this.fail(r, toRunError(error) ?? { message: `exit code ${exitCode}` }); }
+    this.changed(command);
+  }
+
+  /** VM 關閉（abort） */
+  public end(command: string, id: string, reason: any, error?: any) {
+    const r = this.find(command, id);
+    if (!r || r.endedAt) { return; }
+    r.endedAt = Date.now();
+    r.reason = toPlain(reason);
+    const err = toRunError(error) ?? (isFailureReason(reason) ? { message: describeReason(reason) } : undefined);
+    if (err && !r.error) { this.fail(r, err); }
+    this.changed(command);
+  }
+
+  /** 最新在前 */
+  public history(command: string): RunRecord[] {
+    return (this.data.runs[command] || []).map(r => ({ ...r }));
+  }
+
+  public summaries(): { [command: string]: RunSummary } {
+    const out: { [command: string]: RunSummary } = {};
+    const commands = new Set([...Object.keys(this.data.runs), ...Object.keys(this.data.lastErrors)]);
+    for (const c of commands) {
+      out[c] = { lastRun: this.data.runs[c]?.[0], lastError: this.data.lastErrors[c] };
+    }
+    return out;
+  }
+
+  public dispose() {
+    if (this.saveTimer) { clearTimeout(this.saveTimer); this.saveTimer = null; }
+    void this.save();
+    this._onDidChange.dispose();
+  }
+
+  // ── internal ─────────────────────────────────────────────
+  private find(command: string, id: string) {
+    return this.data.runs[command]?.find(r => r.id === id);
+  }
+
+  private fail(r: RunRecord, error: NonNullable<RunRecord['error']>) {
+    r.error = error;
+    this.data.lastErrors[r.command] = r;
+  }
+
+  private changed(command: string) {
+    this._onDidChange.fire(command);
+    if (!this.context || this.saveTimer) { return; }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      void this.save();
+    }, SAVE_DELAY_MS);
+  }
+
+  private async save() {
+    if (!this.context) { return; }
+    try {
+      await this.context.globalState.update(RUN_HISTORY_KEY, this.data);
+    } catch (e) {
+      console.warn('[SBH] failed to save run history:', e);
+    }
+  }
+}
+
+/** 中止原因的簡短描述（列表 / 錯誤訊息用） */
+function describeReason(reason: any): string {
+  if (!reason || typeof reason !== 'object') { return String(reason ?? ''); }
+  switch (reason.type) {
+    case 'timeout': return `timeout (${reason.phase}, ${reason.limitMs} ms)`;
+    case 'crash': return `worker crashed: ${reason.message ?? ''}`.trim();
+    case 'exit': return `worker exited (${reason.code})`;
+    default: return String(reason.type ?? 'stopped');
+  }
+}
@@ -0,0 +1,177 @@
+// src/sbhApi.ts
+// statusBarHelper.v1 API 的共用骨架：只描述「API 形狀 → bridge {ns, fn, args}」的對應，
+// 不依賴 vscode 模組，因此 extension host 的 VM 與 worker thread 都能使用同一份定義。
+
+/** 傳輸層：把 {ns, fn, args} 送到 host 的 _bridge，回傳 data 或丟出錯誤 */
+export type BridgeCall = (ns: string, fn: string, ...args: any[]) => Promise<any>;
+
+type Scope = 'global' | 'workspace';
+
+/** storage.*.onDidChange 的 handler 參數 */
+export interface StorageChangeEvent {
+  key: string;
+  /** undefined = 已刪除 */
+  value: any;
+  oldValue: any;
+  /** 寫入者的 command；設定面板與其他視窗 / 裝置的變動為 undefined */
+  from?: string;
+}
+
+/** v1.state.set / update 的選項 */
+export interface StateSetOptions {
+  /** 持久化；未指定時沿用該 key 目前的設定 */
+  persist?: boolean;
+}
+
+/** v1.state.watch 的 handler 第二個參數 */
+export interface StateWatchEvent {
+  key: string;
+  oldValue: any;
+  /** 寫入者的 command */
+  from?: string;
+}
+
+/** v1.log 的等級（由低到高） */
+export type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error';
+export const LOG_LEVELS: readonly LogLevel[] = ['trace', 'debug', 'info', 'warn', 'error'];
+
+/** console / v1.log 參數轉字串（盡量好看）；worker 傳輸前也需先序列化 */
+export function formatLogArg(a: any): string {
+  if (typeof a === 'string') { return a; }
+  if (a instanceof Error) { return a.stack || a.message; }
+  try { return JSON.stringify(a, null, 2) ?? String(a); } catch { return String(a); }
+}
+
+export function buildSbhApi(call: BridgeCall) {
+  // log 寫入不等待結果，維持和 console 一樣的同步呼叫方式
+  const write = (level: LogLevel) => (...args: any[]) => {
+    call('log', 'append', level, args.map(formatLogArg)).catch(() => {});
+  };
+  return {
+    v1: {
+      // Key-Value 持久化儲存 - 適合設定、小型資料
+      storage: {
+        // 全域儲存 - 跨工作區共享
+        global: {
+          get:  (key: string, def?: any) => call('storage', 'getGlobal', key, def),
+          set:  (key: string, val: any)  => call('storage', 'setGlobal', key, val),
+          remove: (key: string)          => call('storage', 'removeGlobal', key),
+          keys: ()                       => call('storage', 'keysGlobal'),
+          // onDidChange 會在執行時注入（需要 VM 的生命週期）
+          onDidChange: null as any,
+        },
+        // 工作區儲存 - 僅當前工作區可見
+        workspace: {
+          get:  (key: string, def?: any) => call('storage', 'getWorkspace', key, def),
+          set:  (key: string, val: any)  => call('storage', 'setWorkspace', key, val),
+          remove: (key: string)          => call('storage', 'removeWorkspace', key),
+          keys: ()                       => call('storage', 'keysWorkspace'),
+          onDidChange: null as any,
+        },
+        // 腳本自己的命名空間 - key 存為 @<command>/<key>，不會與其他腳本衝突
+        scoped: {
+          global: {
+            get:  (key: string, def?: any) => call('storage', 'getGlobalScoped', key, def),
+            set:  (key: string, val: any)  => call('storage', 'setGlobalScoped', key, val),
+            remove: (key: string)          => call('storage', 'removeGlobalScoped', key),
+            keys: ()                       => call('storage', 'keysGlobalScoped'),
+            onDidChange: null as any,
+          },
+          workspace: {
+            get:  (key: string, def?: any) => call('storage', 'getWorkspaceScoped', key, def),
+            set:  (key: string, val: any)  => call('storage', 'setWorkspaceScoped', key, val),
+            remove: (key: string)          => call('storage', 'removeWorkspaceScoped', key),
+            keys: ()                       => call('storage', 'keysWorkspaceScoped'),
+            onDidChange: null as any,
+          },
+        },
+      },
+      // 檔案系統操作 - 支援文字、JSON、二進位格式
+      files: {
+        dirs:       () => call('files', 'dirs'),
+        readText:   (scope: Scope, rel: string) => call('files', 'readText', scope, rel),
+        writeText:  (scope: Scope, rel: string, s: string) => call('files', 'writeText', scope, rel, s),
+        readJSON:   (scope: Scope, rel: string) => call('files', 'readJSON', scope, rel),
+        writeJSON:  (scope: Scope, rel: string, data: any) => call('files', 'writeJSON', scope, rel, data),
+        readBytes:  (scope: Scope, rel: string) => call('files', 'readBytes', scope, rel),
+        writeBytes: (scope: Scope, rel: string, data: Uint8Array|ArrayBuffer|string) => call('files', 'writeBytes', scope, rel, data),
+        exists:     (scope: Scope, rel: string) => call('files', 'exists', scope, rel),
+        list:       (scope: Scope, rel?: string) => call('files', 'list', scope, rel ?? ''),
+        listStats:  (scope: Scope, rel?: string) => call('files', 'listStats', scope, rel ?? ''),
+        remove:     (scope: Scope, rel: string) => call('files', 'remove', scope, rel),
+        clearAll:   (scope: Scope) => call('files', 'clearAll', scope),
+      },
+      // 密碼管理
+      secret: {
+        get:    (key: string) => call('secret', 'get', key),
+        set:    (key: string, value: string) => call('secret', 'set', key, value),
+        delete: (key: string) => call('secret', 'delete', key),
+        keys:   () => call('secret', 'keys'),
+      },
+      // 側邊欄操作（需要 host 物件，由呼叫端注入）
+      sidebar: {} as any,
+      // npm 套件管理
+      packages: {
+        dir:     () => call('packages', 'dir'),
+        list:    () => call('packages', 'list'),
+        exists:  (name: string) => call('packages', 'exists', name),
+        info:    (name: string) => call('packages', 'info', name),
+        install: (name: string, options?: { version?: string; force?: boolean; showProgress?: boolean }) =>
+          call('packages', 'install', name, options),
+        remove:  (name: string) => call('packages', 'remove', name),
+        // require 會在執行時注入（需要同步存取）
+        require: null as any,
+      },
+      // 結構化日誌（僅限目前腳本；console.* 也會寫入）
+      log: {
+        trace: write('trace'),
+        debug: write('debug'),
+        info:  write('info'),
+        warn:  write('warn'),
+        error: write('error'),
+        history: (options?: { level?: LogLevel; limit?: number }) => call('log', 'history', options ?? {}),
+        clear:   () => call('log', 'clear'),
+        show:    () => call('log', 'show'),
+      },
+      // 目前腳本自己的狀態列項目（VM 停止時還原為儲存的設定）
+      item: {
+        setText:       (text?: string) => call('item', 'setText', text),
+        setTooltip:    (tooltip?: string | { markdown: string } | { value: string }) => call('item', 'setTooltip', tooltip),
+        setColor:      (color?: string) => call('item', 'setColor', color),
+        setBackground: (background?: 'warning' | 'error') => call('item', 'setBackground', background),
+        setBusy:       (busy = true) => call('item', 'setBusy', busy),
+        show:          () => call('item', 'show'),
+        hide:          () => call('item', 'hide'),
+        reset:         () => call('item', 'reset'),
+      },
+      // 自訂 context key：項目的 when 條件以 sbh.<key> 引用（不保存，重新載入後清空）
+      context: {
+        set:      (key: string, value: unknown) => call('context', 'set', key, value),
+        get:      (key: string) => call('context', 'get', key),
+        keys:     () => call('context', 'keys'),
+        evaluate: (expr: string) => call('context', 'evaluate', expr),
+      },
+      // 所有腳本共用的記憶體狀態（persist: true 時保存到 storage.global 的 state/<key>）
+      state: {
+        get:    (key: string, def?: any) => call('state', 'get', key, def),
+        set:    (key: string, value: any, options?: StateSetOptions) => call('state', 'set', key, value, options),
+        delete: (key: string) => call('state', 'delete', key),
+        keys:   () => call('state', 'keys'),
+        // 讀-改-寫：其他腳本在期間寫入同一個 key 時以新值重跑 fn；回傳寫入的值（undefined = 刪除）
+        update: async (key: string, fn: (value: any) => any, options?: StateSetOptions) => {
+          for (;;) {
+            const { value, version } = await call('state', 'entry', key);
+            const next = await fn(value);
+            if (await call('state', 'compareAndSet', key, version, next, options)) { return next; }
+          }
+        },
+        // watch 會在執行時注入（需要 VM 的生命週期）
+        watch: null as any,
+      },
+      // vm 會在執行時注入 (需要 command context)
+      vm: {} as any,
+      // explorerAction 會在執行時注入 (需要 command context)
+      explorerAction: {} as any,
+    }
+  };
+}
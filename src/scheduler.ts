@@ -0,0 +1,336 @@
+// src/scheduler.ts
+// 項目排程（SbhItem.schedule）：cron / 固定間隔 / 每日指定時間。
+// 由 host 端計時器在時間到時以 'schedule' 來源啟動腳本；上次執行時間存於 globalState（僅本機），
+// 重新載入後會補跑停機期間錯過的一次。
+import * as vscode from 'vscode';
+
+export type SbhSchedule =
+  /** 5 欄位 cron（分 時 日 月 週），本地時間 */
+  | { kind: 'cron'; expr: string }
+  /** 每 N 分鐘 */
+  | { kind: 'interval'; minutes: number }
+  /** 每天 HH:MM（本地時間） */
+  | { kind: 'daily'; at: string };
+
+/** 排程狀態（基準時間 / 上次執行時間），僅存本機，不參與 Settings Sync */
+export const SCHEDULE_STATE_KEY = 'sbh.sys.scheduleState';
+
+/** setTimeout 的上限（約 24.8 天），更長的等待分段進行 */
+const MAX_TIMER_MS = 0x7fffffff;
+const MINUTE = 60_000;
+/** DST 調整幅度的上限，用來找出剛結束的日光節約時間 */
+const DST_WINDOW_MS = 3 * 60 * MINUTE;
+
+// ─────────────────────────────────────────────────────────────
+// 正規化與計算（不依賴 vscode 狀態）
+// ─────────────────────────────────────────────────────────────
+
+const DAILY_RE = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+/** 正規化使用者輸入；無效的排程回傳 undefined */
+export function normalizeSchedule(raw: unknown): SbhSchedule | undefined {
+  if (!raw || typeof raw !== 'object') { return undefined; }
+  const r = raw as Record<string, unknown>;
+  switch (r.kind) {
+    case 'cron': {
+      const expr = typeof r.expr === 'string' ? r.expr.trim().replace(/\s+/g, ' ') : '';
+      return parseCron(expr) ? { kind: 'cron', expr } : undefined;
+    }
+    case 'interval': {
+      const minutes = Number(r.minutes);
+      return Number.isFinite(minutes) && minutes >= 1 ? { kind: 'interval', minutes: Math.floor(minutes) } : undefined;
+    }
+    case 'daily': {
+      const at = typeof r.at === 'string' ? r.at.trim() : '';
+      const m = DAILY_RE.exec(at);
+      return m ? { kind: 'daily', at: `${m[1].padStart(2, '0')}:${m[2]}` } : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+export function scheduleFingerprint(s: SbhSchedule): string {
+  switch (s.kind) {
+    case 'cron': return `cron:${s.expr}`;
+    case 'interval': return `interval:${s.minutes}`;
+    case 'daily': return `daily:${s.at}`;
+  }
+}
+
+interface CronFields {
+  minute: Set<number>;
+  hour: Set<number>;
+  dom: Set<number>;
+  month: Set<number>;
+  dow: Set<number>;
+  /** 日 / 週 欄位是否為 *（兩者皆有限制時任一符合即可，與傳統 cron 相同） */
+  domAny: boolean;
+  dowAny: boolean;
+  /** 時 欄位以 * 開頭（*、*\/2）：DST 跳過 / 重複的時段照實際時間執行，不補跑也不避開重複 */
+  hourAny: boolean;
+}
+
+const CRON_MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+function parseField(src: string, min: number, max: number, names?: string[]): Set<number> | null {
+  const out = new Set<number>();
+  const value = (s: string) => {
+    const idx = names ? names.indexOf(s.toLowerCase()) : -1;
+    if (idx >= 0) { return idx + min; }
+    return /^\d+$/.test(s) ? Number(s) : NaN;
+  };
+  for (const part of src.split(',')) {
+    const segs = part.split('/');
+    if (segs.length > 2) { return null; }
+    const [range, stepStr] = segs;
+    const step = stepStr === undefined ? 1 : (/^\d+$/.test(stepStr) ? Number(stepStr) : NaN);
+    if (!Number.isInteger(step) || step < 1) { return null; }
+    let lo: number, hi: number;
+    if (range === '*') {
+      lo = min; hi = max;
+    } else if (range.includes('-')) {
+      const bounds = range.split('-');
+      if (bounds.length !== 2) { return null; }
+      lo = value(bounds[0]); hi = value(bounds[1]);
+    } else {
+      lo = value(range);
+      hi = stepStr === undefined ? lo : max;
+    }
+    if (!Number.isInteger(lo) || !Number.isInteger(hi) || lo < min || hi > max || lo > hi) { return null; }
+    for (let v = lo; v <= hi; v += step) { out.add(v); }
+  }
+  return out.size ? out : null;
+}
+
+function parseCron(expr: string): CronFields | null {
+  const parts = (CRON_MACROS[expr.toLowerCase()] ?? expr).split(' ');
+  if (parts.length !== 5) { return null; }
+  const minute = parseField(parts[0], 0, 59);
+  const hour = parseField(parts[1], 0, 23);
+  const dom = parseField(parts[2], 1, 31);
+  const month = parseField(parts[3], 1, 12, MONTH_NAMES);
+  const dow = parseField(parts[4], 0, 7, DAY_NAMES);
+  if (!minute || !hour || !dom || !month || !dow) { return null; }
+  if (dow.has(7)) { dow.add(0); }
+  return {
+    minute, hour, dom, month, dow,
+    domAny: parts[2] === '*', dowAny: parts[4] === '*', hourAny: parts[1].startsWith('*'),
+  };
+}
+
+function dayMatches(f: CronFields, dom: number, dow: number): boolean {
+  const domOk = f.dom.has(dom);
+  const dowOk = f.dow.has(dow);
+  return f.domAny && f.dowAny ? true
+    : f.domAny ? dowOk
+    : f.dowAny ? domOk
+    : domOk || dowOk;
+}
+
+/** 本地時間（wall clock）以 UTC 欄位表示的毫秒數 */
+const wallClock = (t: number) => t - new Date(t).getTimezoneOffset() * MINUTE;
+
+/** t 之前是否剛跳過一段本地時間（DST 開始），且其中有符合的時間 */
+function matchesSkipped(f: CronFields, t: number): boolean {
+  const gap = new Date(t - MINUTE).getTimezoneOffset() - new Date(t).getTimezoneOffset();
+  for (let i = 1; i <= gap; i++) {
+    const w = new Date(wallClock(t) - i * MINUTE);
+    if (f.month.has(w.getUTCMonth() + 1) && dayMatches(f, w.getUTCDate(), w.getUTCDay())
+      && f.hour.has(w.getUTCHours()) && f.minute.has(w.getUTCMinutes())) { return true; }
+  }
+  return false;
+}
+
+/** t 的本地時間稍早是否已出現過（DST 結束後重複的時段） */
+function isRepeated(t: number): boolean {
+  const shift = new Date(t).getTimezoneOffset() - new Date(t - DST_WINDOW_MS).getTimezoneOffset();
+  return shift > 0 && wallClock(t - shift * MINUTE) === wallClock(t);
+}
+
+/**
+ * 以實際時間逐步往後找（本地時間在 DST 切換時會跳過或重複，不能直接用 setHours 等推算）。
+ * 時 欄位固定的排程與傳統 cron 相同：跳過的時段在切換後立即補跑，重複的時段只執行一次。
+ */
+function cronNext(f: CronFields, after: number): number | null {
+  let t = Math.floor(after / MINUTE) * MINUTE + MINUTE;
+  // 最多往後找約 5 年（涵蓋 2/29 這類稀有日期）
+  const limit = after + 5 * 366 * 24 * 60 * MINUTE;
+  while (t <= limit) {
+    if (!f.hourAny && matchesSkipped(f, t)) { return t; }
+    const d = new Date(t);
+    if (!f.month.has(d.getMonth() + 1)) {
+      t = Math.max(t + MINUTE, new Date(d.getFullYear(), d.getMonth() + 1, 1).getTime());
+      continue;
+    }
+    if (!dayMatches(f, d.getDate(), d.getDay())) {
+      t = Math.max(t + MINUTE, new Date(d.getFullYear(), d.getMonth(), d.getDate() + 1).getTime());
+      continue;
+    }
+    if (!f.hour.has(d.getHours())) {
+      t += (60 - d.getMinutes()) * MINUTE;
+      continue;
+    }
+    if (!f.minute.has(d.getMinutes()) || (!f.hourAny && isRepeated(t))) {
+      t += MINUTE;
+      continue;
+    }
+    return t;
+  }
+  return null;
+}
+
+/**
+ * 計算下一次執行時間
+ * @param after 基準時間（上次執行或開始排程的時間）
+ */
+export function nextRunAt(s: SbhSchedule, after: number): number | null {
+  switch (s.kind) {
+    case 'interval':
+      return after + s.minutes * MINUTE;
+    case 'daily': {
+      // 等同 `mm hh * * *`，DST 切換時的處理與 cron 相同
+      const [hh, mm] = s.at.split(':').map(Number);
+      return cronNext(parseCron(`${mm} ${hh} * * *`)!, after);
+    }
+    case 'cron': {
+      const f = parseCron(s.expr);
+      return f ? cronNext(f, after) : null;
+    }
+  }
+}
+
+// ─────────────────────────────────────────────────────────────
+// Host 端排程器
+// ─────────────────────────────────────────────────────────────
+
+interface ScheduleState {
+  [command: string]: {
+    fingerprint: string;
+    /** 開始排程的時間（尚未執行過時作為基準） */
+    since: number;
+    lastRunAt?: number;
+  };
+}
+
+interface Entry {
+  schedule: SbhSchedule;
+  nextAt: number | null;
+  timer?: NodeJS.Timeout;
+}
+
+export class ItemScheduler {
+  private entries = new Map<string, Entry>();
+  private state: ScheduleState = {};
+  private context: vscode.ExtensionContext | undefined;
+
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  /** 下次執行時間有變動 */
+  public readonly onDidChange = this._onDidChange.event;
+
+  /**
+   * @param fire 時間到時呼叫；回傳 false 表示這次沒有執行（例如仍在執行中）
+   */
+  constructor(private readonly fire: (command: string) => boolean) {}
+
+  public start(context: vscode.ExtensionContext) {
+    this.context = context;
+    this.state = { ...context.globalState.get<ScheduleState>(SCHEDULE_STATE_KEY, {}) };
+  }
+
+  /** 依目前項目重建排程；已排程且設定未變的項目保留原本的計時 */
+  public sync(items: Array<{ command: string; schedule?: SbhSchedule }>) {
+    const now = Date.now();
+    const seen = new Set<string>();
+    for (const item of items) {
+      const schedule = normalizeSchedule(item.schedule);
+      if (!schedule) { continue; }
+      seen.add(item.command);
+      const fp = scheduleFingerprint(schedule);
+      const existing = this.entries.get(item.command);
+      if (existing && scheduleFingerprint(existing.schedule) === fp) { continue; }
+      if (existing?.timer) { clearTimeout(existing.timer); }
+
+      let st = this.state[item.command];
+      if (!st || st.fingerprint !== fp) {
+        st = this.state[item.command] = { fingerprint: fp, since: now };
+      }
+      const entry: Entry = { schedule, nextAt: nextRunAt(schedule, st.lastRunAt ?? st.since) };
+      this.entries.set(item.command, entry);
+      // 停機期間錯過的排程：立即補跑一次
+      if (entry.nextAt !== null && entry.nextAt <= now) { entry.nextAt = now; }
+      this.arm(item.command, entry);
+    }
+    for (const [command, entry] of this.entries) {
+      if (seen.has(command)) { continue; }
+      if (entry.timer) { clearTimeout(entry.timer); }
+      this.entries.delete(command);
+      delete this.state[command];
+    }
+    this.saveState();
+    this._onDidChange.fire();
+  }
+
+  /** command → 下次執行時間（ms） */
+  public nextRuns(): { [command: string]: number } {
+    const out: { [command: string]: number } = {};
+    for (const [command, e] of this.entries) {
+      if (e.nextAt !== null) { out[command] = e.nextAt; }
+    }
+    return out;
+  }
+
+  public dispose() {
+    for (const e of this.entries.values()) { if (e.timer) { clearTimeout(e.timer); } }
+    this.entries.clear();
+    this._onDidChange.dispose();
+  }
+
+  // ── internal ─────────────────────────────────────────────
+  private arm(command: string, entry: Entry) {
+    if (entry.nextAt === null) { return; }
+    const delay = Math.max(0, entry.nextAt - Date.now());
+    entry.timer = setTimeout(() => {
+      entry.timer = undefined;
+      if (this.entries.get(command) !== entry) { return; }
+      // 超過 setTimeout 上限的等待分段進行
+      if (entry.nextAt !== null && entry.nextAt > Date.now()) { this.arm(command, entry); return; }
+
+      const ran = this.safeFire(command);
+      const now = Date.now();
+      if (ran) {
+        const st = this.state[command];
+        if (st) { st.lastRunAt = now; }
+        this.saveState();
+      }
+      entry.nextAt = nextRunAt(entry.schedule, now);
+      this.arm(command, entry);
+      this._onDidChange.fire();
+    }, Math.min(delay, MAX_TIMER_MS));
+  }
+
+  private safeFire(command: string): boolean {
+    try {
+      return this.fire(command);
+    } catch (e) {
+      console.error(`[SBH] scheduled run failed: ${command}`, e);
+      return false;
+    }
+  }
+
+  private saveState() {
+    if (!this.context) { return; }
+    this.context.globalState.update(SCHEDULE_STATE_KEY, this.state).then(undefined, e =>
+      console.warn('[SBH] failed to save schedule state:', e));
+  }
+}
@@ -0,0 +1,163 @@
+// src/scriptCompiler.ts
+// TypeScript 腳本（SbhItem.language = 'ts'）：儲存的是 TS 原始碼，
+// 存檔時以打包的 TypeScript 編譯器做型別檢查（sbh.d.ts + @types/vscode + @types/node），診斷顯示在編輯器；
+// runScriptInVm 執行 transpile 後的 JavaScript（依原始碼 hash 快取）；使用 import / export 的 JavaScript 腳本也經由這裡轉成 CommonJS。
+// 編譯器（out/typescript/，由 copy-files 複製）在第一次用到 TS 項目時才載入。
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import type * as TS from 'typescript';
+import { localize } from './nls';
+
+export interface ScriptDiagnostic {
+  /** 1-based */
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  message: string;
+  severity: 'error' | 'warning';
+  code: number;
+}
+
+export interface TranspileResult {
+  /** CommonJS 形式的 JavaScript（有 import / export 時會用到 exports） */
+  code: string;
+  /** 對應回原始碼的 source map（JSON） */
+  map?: string;
+  /** 語法錯誤（transpile 不做型別檢查） */
+  diagnostics: ScriptDiagnostic[];
+}
+
+/**
+ * 腳本在 async 函式內執行（runScriptInVm 的包裝），因此允許最上層的 return / await
+ * - 1108: A 'return' statement can only be used within a function body.
+ * - 1375 / 1378: top-level 'await' 的 module / target 限制
+ */
+export const IGNORED_DIAGNOSTICS = [1108, 1375, 1378];
+
+/** 型別檢查時腳本的虛擬檔名 */
+const SCRIPT_FILE = '/sbh-script.ts';
+const MAX_CACHE = 100;
+
+export class ScriptCompiler {
+  private ts: typeof TS | undefined;
+  private cache = new Map<string, TranspileResult>();
+  /** 型別定義檔（不會變動）的 SourceFile 快取，加快重複檢查 */
+  private libFiles = new Map<string, TS.SourceFile>();
+  private lastProgram: TS.Program | undefined;
+  private extensionPath = '';
+
+  public start(context: vscode.ExtensionContext) {
+    this.extensionPath = context.extensionPath;
+  }
+
+  /** TS / ES module → CommonJS；結果依原始碼快取（傳入的 command 只用於錯誤訊息的檔名） */
+  public transpile(source: string, command: string, language: 'js' | 'ts' = 'ts'): TranspileResult {
+    const key = crypto.createHash('sha256').update(`${language}\0${source}`, 'utf8').digest('hex');
+    const cached = this.cache.get(key);
+    if (cached) { return cached; }
+    const ts = this.load();
+    const out = ts.transpileModule(source, {
+      fileName: `${command}.${language}`,
+      reportDiagnostics: true,
+      compilerOptions: { ...this.emitOptions(ts), allowJs: language === 'js', sourceMap: true },
+    });
+    const result: TranspileResult = {
+      // source map 由 sourceMaps.ts 登記，不需要 sourceMappingURL 註解
+      code: out.outputText.replace(/\n?\/\/# sourceMappingURL=\S*\s*$/, '\n'),
+      map: out.sourceMapText,
+      diagnostics: this.toDiagnostics(ts, out.diagnostics ?? []),
+    };
+    if (this.cache.size >= MAX_CACHE) { this.cache.delete(this.cache.keys().next().value!); }
+    this.cache.set(key, result);
+    return result;
+  }
+
+  /** 型別檢查（存檔時）；只回傳腳本本身的診斷 */
+  public check(source: string): ScriptDiagnostic[] {
+    const ts = this.load();
+    const options: TS.CompilerOptions = {
+      ...this.emitOptions(ts),
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Node10,
+      lib: ['lib.es2022.d.ts'],
+      types: [],
+      noEmit: true,
+      skipLibCheck: true,
+    };
+    const host = ts.createCompilerHost(options, true);
+    const getSourceFile = host.getSourceFile.bind(host);
+    const fileExists = host.fileExists.bind(host);
+    const readFile = host.readFile.bind(host);
+    host.getSourceFile = (fileName, languageVersion, onError, shouldCreate) => {
+      if (fileName === SCRIPT_FILE) { return ts.createSourceFile(fileName, source, languageVersion, true); }
+      const cached = this.libFiles.get(fileName);
+      if (cached) { return cached; }
+      const sf = getSourceFile(fileName, languageVersion, onError, shouldCreate);
+      if (sf) { this.libFiles.set(fileName, sf); }
+      return sf;
+    };
+    host.fileExists = f => f === SCRIPT_FILE || fileExists(f);
+    host.readFile = f => f === SCRIPT_FILE ? source : readFile(f);
+
+    const program = ts.createProgram({ rootNames: [SCRIPT_FILE, ...this.typeDefFiles()], options, host, oldProgram: this.lastProgram });
+    this.lastProgram = program;
+    const sf = program.getSourceFile(SCRIPT_FILE);
+    if (!sf) { return []; }
+    return this.toDiagnostics(ts, [...program.getSyntacticDiagnostics(sf), ...program.getSemanticDiagnostics(sf)]);
+  }
+
+  // ── internal ─────────────────────────────────────────────
+  private load(): typeof TS {
+    if (this.ts) { return this.ts; }
+    const bundled = path.join(this.extensionPath, 'out', 'typescript', 'typescript.js');
+    try {
+      this.ts = require(fs.existsSync(bundled) ? bundled : 'typescript') as typeof TS;
+    } catch (e) {
+      throw new Error(localize('err.tsUnavailable', 'The TypeScript compiler could not be loaded: {0}', (e as any)?.message || String(e)));
+    }
+    return this.ts;
+  }
+
+  private emitOptions(ts: typeof TS): TS.CompilerOptions {
+    return {
+      target: ts.ScriptTarget.ES2022,
+      module: ts.ModuleKind.CommonJS,
+      // 每個腳本都視為 module：最上層 await 可直接解析
+      moduleDetection: ts.ModuleDetectionKind.Force,
+      esModuleInterop: true,
+    };
+  }
+
+  /** out/typedefs（copy-files 複製）：@types/vscode、@types/node、sbh.d.ts */
+  private typeDefFiles(): string[] {
+    const dir = path.join(this.extensionPath, 'out', 'typedefs');
+    return [
+      path.join(dir, 'vscode', 'index.d.ts'),
+      path.join(dir, 'node', 'index.d.ts'),
+      path.join(dir, 'status-bar-helper', 'sbh.d.ts'),
+    ].filter(f => fs.existsSync(f)).map(f => f.replace(/\\/g, '/'));
+  }
+
+  private toDiagnostics(ts: typeof TS, list: readonly TS.Diagnostic[]): ScriptDiagnostic[] {
+    const out: ScriptDiagnostic[] = [];
+    for (const d of list) {
+      if (IGNORED_DIAGNOSTICS.includes(d.code)) { continue; }
+      if (d.category !== ts.DiagnosticCategory.Error && d.category !== ts.DiagnosticCategory.Warning) { continue; }
+      const start = d.file && d.start !== undefined ? d.file.getLineAndCharacterOfPosition(d.start) : { line: 0, character: 0 };
+      const end = d.file && d.start !== undefined ? d.file.getLineAndCharacterOfPosition(d.start + (d.length ?? 0)) : start;
+      out.push({
+        line: start.line + 1,
+        column: start.character + 1,
+        endLine: end.line + 1,
+        endColumn: end.character + 1,
+        message: ts.flattenDiagnosticMessageText(d.messageText, '\n'),
+        severity: d.category === ts.DiagnosticCategory.Error ? 'error' : 'warning',
+        code: d.code,
+      });
+    }
+    return out;
+  }
+}
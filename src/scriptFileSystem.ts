@@ -0,0 +1,145 @@
+// src/scriptFileSystem.ts
+// 以一般編輯器分頁編輯腳本：sbh:/scripts/<command>.js（TypeScript 項目為 .ts）對應 globalState（GLOBAL_ITEMS_KEY）中的腳本，
+// 存檔經由 saveOneToGlobal 寫回並重新整理狀態列，可使用使用者自己的擴充套件、快捷鍵、formatter。
+// 只能編輯既有項目（不能在這裡新增 / 刪除 / 改名）；工作區項目請直接編輯 .vscode/ 中的檔案。
+import * as vscode from 'vscode';
+import { loadFromGlobal, saveOneToGlobal, ScriptSaveEvent, SbhItem } from './globalStateManager';
+import { localize } from './nls';
+
+export const SCRIPT_SCHEME = 'sbh';
+const SCRIPTS_DIR = '/scripts';
+
+const scriptFileName = (item: Pick<SbhItem, 'command' | 'language'>) =>
+  `${encodeURIComponent(item.command)}.${item.language === 'ts' ? 'ts' : 'js'}`;
+
+/** 項目腳本的檔案 URI */
+export function scriptUri(item: Pick<SbhItem, 'command' | 'language'>): vscode.Uri {
+  return vscode.Uri.from({ scheme: SCRIPT_SCHEME, path: `${SCRIPTS_DIR}/${scriptFileName(item)}` });
+}
+
+/** sbh:/scripts/<command>.js|.ts → command；其他路徑回傳 undefined */
+export function commandFromUri(uri: vscode.Uri): string | undefined {
+  const m = /^\/scripts\/([^/]+)\.[jt]s$/.exec(uri.path);
+  if (!m) { return undefined; }
+  try { return decodeURIComponent(m[1]); } catch { return undefined; }
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export class ScriptFileSystemProvider implements vscode.FileSystemProvider {
+  /** 各腳本的修改時間（本次啟動內；供編輯器判斷檔案是否在外部被改過） */
+  private mtimes = new Map<string, number>();
+  private readonly startedAt = Date.now();
+
+  private readonly _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+  public readonly onDidChangeFile = this._onDidChangeFile.event;
+
+  private readonly _onDidWrite = new vscode.EventEmitter<SbhItem>();
+  /** 從編輯器分頁存檔寫入了項目 */
+  public readonly onDidWrite = this._onDidWrite.event;
+
+  constructor(private readonly context: vscode.ExtensionContext) {}
+
+  /** 腳本在其他地方（設定面板、還原、匯入）被儲存：通知開啟中的分頁重新載入 */
+  public notifySaved(changes: ScriptSaveEvent[]) {
+    const now = Date.now();
+    const languages = new Map(loadFromGlobal(this.context).map(i => [i.command, i.language] as const));
+    changes.forEach(c => this.mtimes.set(c.command, now));
+    this._onDidChangeFile.fire(changes.map(c => ({
+      type: vscode.FileChangeType.Changed,
+      uri: scriptUri({ command: c.command, language: languages.get(c.command) }),
+    })));
+  }
+
+  public watch(): vscode.Disposable {
+    // 變更一律由 notifySaved 通知
+    return new vscode.Disposable(() => {});
+  }
+
+  public stat(uri: vscode.Uri): vscode.FileStat {
+    if (uri.path === '/' || uri.path === SCRIPTS_DIR) {
+      return { type: vscode.FileType.Directory, ctime: this.startedAt, mtime: this.startedAt, size: 0 };
+    }
+    const item = this.find(uri);
+    const mtime = this.mtimes.get(item.command) ?? this.startedAt;
+    return { type: vscode.FileType.File, ctime: this.startedAt, mtime, size: encoder.encode(item.script || '').byteLength };
+  }
+
+  public readDirectory(uri: vscode.Uri): [string, vscode.FileType][] {
+    if (uri.path === '/') { return [[SCRIPTS_DIR.slice(1), vscode.FileType.Directory]]; }
+    if (uri.path !== SCRIPTS_DIR) { throw vscode.FileSystemError.FileNotFound(uri); }
+    return loadFromGlobal(this.context).map(i => [scriptFileName(i), vscode.FileType.File]);
+  }
+
+  public readFile(uri: vscode.Uri): Uint8Array {
+    return encoder.encode(this.find(uri).script || '');
+  }
+
+  public async writeFile(uri: vscode.Uri, content: Uint8Array): Promise<void> {
+    const item = this.find(uri);
+    const updated: SbhItem = { ...item, script: decoder.decode(content) };
+    await saveOneToGlobal(this.context, updated);
+    this.mtimes.set(item.command, Date.now());
+    try {
+      await vscode.commands.executeCommand('statusBarHelper._refreshStatusBar');
+    } catch (e) {
+      console.warn('Failed to refresh status bar:', e);
+    }
+    this._onDidWrite.fire(updated);
+  }
+
+  public createDirectory(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  public delete(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  public rename(oldUri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(oldUri);
+  }
+
+  public dispose() {
+    this._onDidChangeFile.dispose();
+    this._onDidWrite.dispose();
+  }
+
+  // ── internal ─────────────────────────────────────────────
+  private find(uri: vscode.Uri): SbhItem {
+    const command = commandFromUri(uri);
+    const item = command ? loadFromGlobal(this.context).find(i => i.command === command) : undefined;
+    if (!item) {
+      throw vscode.FileSystemError.FileNotFound(localize('err.scriptFileNotFound', 'No Status Bar Helper item for {0}.', uri.toString()));
+    }
+    return item;
+  }
+}
+
+/**
+ * 在編輯器分頁開啟項目的腳本；未指定 command 時以 Quick Pick 選擇
+ */
+export async function openScriptFile(context: vscode.ExtensionContext, command?: string): Promise<void> {
+  let target = typeof command === 'string' && command ? command : undefined;
+  if (!target) {
+    const items = loadFromGlobal(context);
+    if (!items.length) {
+      vscode.window.showInformationMessage(localize('msg.noScripts', 'No scripts yet. Open the Status Bar Helper settings to add one.'));
+      return;
+    }
+    const picked = await vscode.window.showQuickPick(
+      items.map(i => ({ label: i.text || i.command, description: i.command, detail: i.tooltip || undefined, command: i.command })),
+      { placeHolder: localize('pick.openScript', 'Select a script to open in the editor'), matchOnDescription: true, matchOnDetail: true }
+    );
+    target = picked?.command;
+  }
+  if (!target) { return; }
+  const item = loadFromGlobal(context).find(i => i.command === target);
+  if (!item) {
+    vscode.window.showErrorMessage(localize('err.runItem.notFound', 'Status Bar Helper: no item with command {0}.', target));
+    return;
+  }
+  const doc = await vscode.workspace.openTextDocument(scriptUri(item));
+  await vscode.window.showTextDocument(doc, { preview: false });
+}
@@ -0,0 +1,100 @@
+// src/scriptLibraries.ts
+// 共用函式庫：設定了 library 名稱的項目不會顯示在狀態列，其他腳本以
+// `import { gitBranch } from 'sbh:lib/git'`（或 `require('sbh:lib/git')`）載入。
+// 函式庫以 CommonJS 形式在呼叫端的 sandbox 內執行；編譯結果依項目快取，函式庫儲存時清除。
+// 此檔不依賴 vscode，worker thread（scriptWorker）也會使用。
+import type { RunningScriptOptions } from 'vm';
+import type { SbhItem, ScriptSaveEvent } from './globalStateManager';
+import { libraryFileName } from './sourceMaps';
+
+export const LIB_PREFIX = 'sbh:lib/';
+
+/** 函式庫名稱：英數字開頭，可用 / 分層（例如 `git`、`team/format`） */
+const LIBRARY_NAME_RE = /^[A-Za-z0-9][\w.-]*(\/[\w.-]+)*$/;
+
+/** 正規化使用者輸入；無效或空白時回傳 undefined（= 一般腳本） */
+export function normalizeLibraryName(raw: unknown): string | undefined {
+  if (typeof raw !== 'string') { return undefined; }
+  const name = raw.trim().replace(/^sbh:lib\//, '');
+  return LIBRARY_NAME_RE.test(name) ? name : undefined;
+}
+
+/** 使用 import / export 語法（執行前需要轉成 CommonJS） */
+export function usesModuleSyntax(code: string): boolean {
+  return /^[ \t]*(?:import[ \t]*(?:[\w*{]|["'])|export[ \t]+(?:[{*]|default\b|const\b|let\b|var\b|function\b|async\b|class\b))/m.test(code);
+}
+
+/** 程式碼中 require('sbh:lib/<name>') 的名稱（import 轉成 CommonJS 後也是這個形式） */
+export function libraryImports(code: string): string[] {
+  const names = new Set<string>();
+  for (const m of code.matchAll(/\brequire\(\s*["']sbh:lib\/([^"']+)["']\s*\)/g)) { names.add(m[1]); }
+  return [...names];
+}
+
+/**
+ * sandbox 內的 require('sbh:lib/<name>')：同一次執行共用模組實例，
+ * 循環相依時拿到尚未完成的 exports（與 CommonJS 相同）
+ * @param load 名稱 → CommonJS 程式碼
+ * @param evaluate 在 sandbox 內以指定的檔名 / 行號位移編譯包裝後的函式
+ */
+export function createLibraryRequire(
+  load: (name: string) => string,
+  evaluate: (source: string, options: RunningScriptOptions) => Function,
+  requireFn: (m: string) => any
+): (name: string) => any {
+  const modules = new Map<string, { exports: any }>();
+  return (name: string) => {
+    const loaded = modules.get(name);
+    if (loaded) { return loaded.exports; }
+    const module = { exports: {} as any };
+    modules.set(name, module);
+    try {
+      // 函式庫程式碼從第 2 行開始，lineOffset -1 讓錯誤行號對應原始碼
+      const fn = evaluate(`(function (exports, require, module) {\n${load(name)}\n})`, { filename: libraryFileName(name), lineOffset: -1 });
+      fn.call(module.exports, module.exports, requireFn, module);
+    } catch (e) {
+      modules.delete(name);
+      throw e;
+    }
+    return module.exports;
+  };
+}
+
+export class LibraryLoader {
+  /** command → 編譯結果（script / language 不同時重新編譯） */
+  private compiled = new Map<string, { script: string; language?: string; code: string }>();
+
+  /** @param compile 項目 → 可執行的 CommonJS 程式碼（TypeScript / import 語法需先 transpile） */
+  constructor(private readonly compile: (item: SbhItem) => string) {}
+
+  /** 函式庫的程式碼；找不到時回傳 undefined */
+  public load(name: string, items: SbhItem[]): string | undefined {
+    const item = items.find(i => i.library === name);
+    if (!item) { return undefined; }
+    const cached = this.compiled.get(item.command);
+    if (cached && cached.script === item.script && cached.language === item.language) { return cached.code; }
+    const code = this.compile(item);
+    this.compiled.set(item.command, { script: item.script, language: item.language, code });
+    return code;
+  }
+
+  /** entry 直接或間接 import 的所有函式庫（worker 無法回頭讀取 globalState，啟動時一次帶入） */
+  public collect(code: string, items: SbhItem[]): Record<string, string> {
+    const out: Record<string, string> = {};
+    const queue = libraryImports(code);
+    while (queue.length) {
+      const name = queue.shift()!;
+      if (name in out) { continue; }
+      const lib = this.load(name, items);
+      if (lib === undefined) { continue; }
+      out[name] = lib;
+      queue.push(...libraryImports(lib));
+    }
+    return out;
+  }
+
+  /** onDidSaveScripts：儲存過的項目下次載入時重新編譯 */
+  public invalidate(changes: ScriptSaveEvent[]) {
+    changes.forEach(c => this.compiled.delete(c.command));
+  }
+}
@@ -0,0 +1,205 @@
+// src/scriptLogManager.ts
+// 每個腳本（command）的結構化日誌：ring buffer 保留最近的紀錄，
+// 同步寫入該腳本專屬的 LogOutputChannel，並可選擇持久化到 globalStorage/sbh.logs/。
+import * as vscode from 'vscode';
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import { LogLevel, LOG_LEVELS } from './sbhApi';
+
+export interface ScriptLogEntry {
+  /** 單調遞增序號（跨 command），供 webview 去重 / 排序 */
+  seq: number;
+  ts: number;
+  command: string;
+  level: LogLevel;
+  /** 來源：statusbar / autorun / settingsPanel / schedule / trigger / host（SBH 自己寫入的訊息） */
+  origin: string;
+  /** 已序列化的參數 */
+  args: string[];
+  text: string;
+}
+
+export interface ScriptLogQuery {
+  command?: string;
+  /** 最低等級（含） */
+  level?: LogLevel;
+  /** 只取 seq 大於此值的紀錄 */
+  since?: number;
+  /** 最多回傳筆數（由新往舊取） */
+  limit?: number;
+}
+
+/** 每個 command 保留的最大筆數 */
+export const LOG_MAX_ENTRIES = 500;
+/** 持久化目錄（相對於 globalStorage） */
+export const LOGS_DIR = 'sbh.logs';
+const PERSIST_CONFIG = 'statusBarHelper.logs.persist';
+const FLUSH_DELAY_MS = 1000;
+
+const levelRank = (l: LogLevel) => LOG_LEVELS.indexOf(l);
+
+export class ScriptLogManager {
+  private buffers = new Map<string, ScriptLogEntry[]>();
+  private channels = new Map<string, vscode.LogOutputChannel>();
+  private seq = 0;
+  private context: vscode.ExtensionContext | undefined;
+  private dirty = new Set<string>();
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  private readonly _onDidAppend = new vscode.EventEmitter<ScriptLogEntry>();
+  /** 新增一筆紀錄 */
+  public readonly onDidAppend = this._onDidAppend.event;
+  private readonly _onDidClear = new vscode.EventEmitter<string | undefined>();
+  /** 清除紀錄（undefined = 全部） */
+  public readonly onDidClear = this._onDidClear.event;
+
+  // 綁定 context 並載回已持久化的紀錄
+  public async start(context: vscode.ExtensionContext) {
+    this.context = context;
+    if (!this.persistEnabled()) { return; }
+    const dir = this.logsDir();
+    let names: string[] = [];
+    try { names = await fsp.readdir(dir); } catch { return; }
+    for (const name of names) {
+      if (!name.endsWith('.json')) { continue; }
+      try {
+        const raw = JSON.parse(await fsp.readFile(path.join(dir, name), 'utf8'));
+        if (!Array.isArray(raw)) { continue; }
+        const command = decodeURIComponent(name.slice(0, -'.json'.length));
+        const entries = raw
+          .filter((e: any) => e && typeof e.ts === 'number' && LOG_LEVELS.includes(e.level))
+          .slice(-LOG_MAX_ENTRIES)
+          .map((e: any): ScriptLogEntry => ({
+            seq: ++this.seq,
+            ts: e.ts,
+            command,
+            level: e.level,
+            origin: String(e.origin || ''),
+            args: Array.isArray(e.args) ? e.args.map(String) : [],
+            text: String(e.text ?? ''),
+          }));
+        // 重新載入時讓目前記憶體中的新紀錄排在後面
+        this.buffers.set(command, [...entries, ...(this.buffers.get(command) || [])].slice(-LOG_MAX_ENTRIES));
+      } catch (e) {
+        console.warn('[SBH] failed to load logs:', name, e);
+      }
+    }
+  }
+
+  public append(command: string, level: LogLevel, args: string[], origin: string) {
+    if (!command) { return; }
+    const lv: LogLevel = LOG_LEVELS.includes(level) ? level : 'info';
+    const entry: ScriptLogEntry = {
+      seq: ++this.seq,
+      ts: Date.now(),
+      command,
+      level: lv,
+      origin,
+      args,
+      text: args.join(' '),
+    };
+    let buf = this.buffers.get(command);
+    if (!buf) { buf = []; this.buffers.set(command, buf); }
+    buf.push(entry);
+    if (buf.length > LOG_MAX_ENTRIES) { buf.splice(0, buf.length - LOG_MAX_ENTRIES); }
+
+    try { this.channel(command)[lv](entry.text); } catch {}
+    this._onDidAppend.fire(entry);
+    this.scheduleFlush(command);
+    return entry;
+  }
+
+  public query(q: ScriptLogQuery = {}): ScriptLogEntry[] {
+    const min = q.level ? levelRank(q.level) : 0;
+    const src = q.command ? (this.buffers.get(q.command) || []) : this.all();
+    let out = src.filter(e => levelRank(e.level) >= min && (q.since === undefined || e.seq > q.since));
+    if (q.limit && q.limit > 0 && out.length > q.limit) { out = out.slice(-q.limit); }
+    return out;
+  }
+
+  /** 有紀錄的 command 清單 */
+  public commands(): string[] {
+    return Array.from(this.buffers.keys()).filter(c => (this.buffers.get(c) || []).length > 0).sort();
+  }
+
+  public clear(command?: string) {
+    const targets = command ? [command] : Array.from(this.buffers.keys());
+    for (const c of targets) {
+      this.buffers.delete(c);
+      try { this.channels.get(c)?.clear(); } catch {}
+      this.dirty.add(c);
+    }
+    this._onDidClear.fire(command);
+    this.scheduleFlush();
+  }
+
+  /** 顯示該腳本的 Output Channel */
+  public show(command: string, preserveFocus = true) {
+    this.channel(command).show(preserveFocus);
+  }
+
+  public dispose() {
+    if (this.flushTimer) { clearTimeout(this.flushTimer); this.flushTimer = null; }
+    void this.flush();
+    for (const ch of this.channels.values()) { try { ch.dispose(); } catch {} }
+    this.channels.clear();
+    this._onDidAppend.dispose();
+    this._onDidClear.dispose();
+  }
+
+  // ── internal ─────────────────────────────────────────────
+  private all(): ScriptLogEntry[] {
+    const out: ScriptLogEntry[] = [];
+    for (const buf of this.buffers.values()) { out.push(...buf); }
+    return out.sort((a, b) => a.seq - b.seq);
+  }
+
+  private channel(command: string): vscode.LogOutputChannel {
+    let ch = this.channels.get(command);
+    if (!ch) {
+      ch = vscode.window.createOutputChannel(`SBH: ${command}`, { log: true });
+      this.channels.set(command, ch);
+    }
+    return ch;
+  }
+
+  private persistEnabled() {
+    return vscode.workspace.getConfiguration().get<boolean>(PERSIST_CONFIG, false);
+  }
+
+  private logsDir() {
+    return path.join(this.context!.globalStorageUri.fsPath, LOGS_DIR);
+  }
+
+  private scheduleFlush(command?: string) {
+    if (!this.context || !this.persistEnabled()) { return; }
+    if (command) { this.dirty.add(command); }
+    if (this.flushTimer) { return; }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      void this.flush();
+    }, FLUSH_DELAY_MS);
+  }
+
+  private async flush() {
+    if (!this.context || !this.dirty.size) { return; }
+    const dir = this.logsDir();
+    const targets = Array.from(this.dirty);
+    this.dirty.clear();
+    try {
+      await fsp.mkdir(dir, { recursive: true });
+      for (const command of targets) {
+        const file = path.join(dir, `${encodeURIComponent(command)}.json`);
+        const buf = this.buffers.get(command);
+        if (!buf || !buf.length) {
+          await fsp.rm(file, { force: true });
+          continue;
+        }
+        const data = buf.map(({ ts, level, origin, args, text }) => ({ ts, level, origin, args, text }));
+        await fsp.writeFile(file, JSON.stringify(data), 'utf8');
+      }
+    } catch (e) {
+      console.warn('[SBH] failed to persist logs:', e);
+    }
+  }
+}
@@ -0,0 +1,44 @@
+// src/sourceMaps.ts
+// 腳本錯誤位置：每顆 VM 以 sbh://<command>.js（TypeScript 為 .ts）為檔名執行，函式庫為 sbh://lib/<name>.js；
+// 經過轉換的程式碼（TypeScript / import 語法）在這裡登記 source map，
+// 日誌、執行紀錄中的 stack 位置換回使用者原始碼的行列（設定面板的輸出可點擊跳到該行）。
+import { SourceMap } from 'module';
+
+/** 項目腳本在 VM 中的檔名 */
+export const scriptFileName = (command: string, language?: 'js' | 'ts') =>
+  `sbh://${command}.${language === 'ts' ? 'ts' : 'js'}`;
+
+/** 函式庫在 VM 中的檔名（worker 端不知道語言，一律 .js） */
+export const libraryFileName = (name: string) => `sbh://lib/${name}.js`;
+
+/** 檔名 → source map（第一次換算時才解析） */
+const maps = new Map<string, { raw: string; parsed?: SourceMap }>();
+
+/** 登記檔名對應的 source map；undefined = 未轉換（清除舊的） */
+export function setSourceMap(filename: string, raw: string | undefined) {
+  if (raw === undefined) {
+    maps.delete(filename);
+  } else if (maps.get(filename)?.raw !== raw) {
+    maps.set(filename, { raw });
+  }
+}
+
+/** sbh://<name>.js:行[:欄]（SyntaxError 的 stack 只有行號） */
+const LOCATION_RE = /(sbh:\/\/[^\s:()]+\.[jt]s):(\d+)(?::(\d+))?/g;
+
+/** 把文字（stack、錯誤訊息）中的 sbh:// 位置換回原始碼的行列；沒有 source map 的位置不變 */
+export function remapStack(text: string): string {
+  if (!maps.size || !text.includes('sbh://')) { return text; }
+  return text.replace(LOCATION_RE, (all, file: string, line: string, column: string | undefined) => {
+    const entry = maps.get(file);
+    if (!entry) { return all; }
+    try {
+      entry.parsed ??= new SourceMap(JSON.parse(entry.raw));
+      const hit = entry.parsed.findEntry(Number(line) - 1, column ? Number(column) - 1 : 0) as Partial<ReturnType<SourceMap['findEntry']>>;
+      if (typeof hit?.originalLine !== 'number' || typeof hit.originalColumn !== 'number') { return all; }
+      return column ? `${file}:${hit.originalLine + 1}:${hit.originalColumn + 1}` : `${file}:${hit.originalLine + 1}`;
+    } catch {
+      return all;
+    }
+  });
+}
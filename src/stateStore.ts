@@ -0,0 +1,136 @@
+// src/stateStore.ts
+// statusBarHelper.v1.state：所有 VM 共用的記憶體 key-value，值變動時通知 watch 的腳本（以及開啟 state 選項的 sidebar）。
+// 值以 structuredClone 存取，各 VM 拿到的是複本；update 以版本號做 compare-and-set，worker 也能安全地讀-改-寫。
+// set 時指定 persist 的 key 同時寫入 globalState 的 KV 命名空間（`<KV_PREFIX>state/<key>`，storage.global 看得到 `state/<key>`），啟動時載回。
+import * as vscode from 'vscode';
+import { localize } from './nls';
+import type { StateSetOptions } from './sbhApi';
+
+export interface StateChange {
+  key: string;
+  value: any;
+  oldValue: any;
+  /** 寫入者的 command（host 自己寫入時為 undefined） */
+  from?: string;
+  /** 這次變動同時寫入了 globalState */
+  persisted: boolean;
+}
+
+/** 持久化的 state 在 KV 命名空間中的前綴 */
+export const STATE_KEY_PREFIX = 'state/';
+
+interface StateEntry {
+  value: any;
+  version: number;
+  persist: boolean;
+}
+
+/** watch 的 key：'*' = 全部，結尾為 * = 前綴比對 */
+export function stateKeyMatches(pattern: string, key: string): boolean {
+  if (pattern === '*') { return true; }
+  return pattern.endsWith('*') ? key.startsWith(pattern.slice(0, -1)) : pattern === key;
+}
+
+export class StateStore {
+  private entries = new Map<string, StateEntry>();
+  private version = 0;
+  private context: vscode.ExtensionContext | undefined;
+
+  private readonly _onDidChange = new vscode.EventEmitter<StateChange>();
+  /** 某個 key 的值改變（值為共用參考，轉交給腳本前需複製） */
+  public readonly onDidChange = this._onDidChange.event;
+
+  /** @param kvPrefix storage API 使用的 globalState 前綴 */
+  constructor(private readonly kvPrefix: string) {}
+
+  // 綁定 context 並載回持久化的 key
+  public start(context: vscode.ExtensionContext) {
+    this.context = context;
+    const prefix = this.kvPrefix + STATE_KEY_PREFIX;
+    for (const k of context.globalState.keys()) {
+      if (!k.startsWith(prefix)) { continue; }
+      const value = context.globalState.get(k);
+      if (value === undefined) { continue; }
+      this.entries.set(k.slice(prefix.length), { value, version: ++this.version, persist: true });
+    }
+  }
+
+  public get(key: string, def?: any): any {
+    const entry = this.entries.get(this.checkKey(key));
+    return entry ? structuredClone(entry.value) : def;
+  }
+
+  /** 值與版本號（不存在時 version 為 0），供 update 的 compare-and-set */
+  public entry(key: string): { value: any; version: number } {
+    const entry = this.entries.get(this.checkKey(key));
+    return entry ? { value: structuredClone(entry.value), version: entry.version } : { value: undefined, version: 0 };
+  }
+
+  /** 寫入；value 為 undefined 時刪除 */
+  public set(key: string, value: any, options: StateSetOptions = {}, from?: string) {
+    this.write(this.checkKey(key), value, options, from);
+  }
+
+  /** 版本號相符時才寫入；回傳是否成功 */
+  public compareAndSet(key: string, version: number, value: any, options: StateSetOptions = {}, from?: string): boolean {
+    const current = this.entries.get(this.checkKey(key));
+    if ((current?.version ?? 0) !== version) { return false; }
+    this.write(key, value, options, from);
+    return true;
+  }
+
+  public delete(key: string, from?: string) {
+    this.write(this.checkKey(key), undefined, {}, from);
+  }
+
+  public keys(): string[] {
+    return Array.from(this.entries.keys()).sort();
+  }
+
+  /** 符合 pattern 的所有值（複本） */
+  public snapshot(pattern = '*'): Record<string, any> {
+    const out: Record<string, any> = {};
+    for (const [key, entry] of this.entries) {
+      if (stateKeyMatches(pattern, key)) { out[key] = structuredClone(entry.value); }
+    }
+    return out;
+  }
+
+  public dispose() {
+    this._onDidChange.dispose();
+  }
+
+  // ── internal ─────────────────────────────────────────────
+  private checkKey(key: unknown): string {
+    if (typeof key !== 'string' || !key || key.includes('*')) {
+      throw new Error(localize('err.stateKeyInvalid', 'state: invalid key {0}', String(key)));
+    }
+    return key;
+  }
+
+  private write(key: string, value: any, options: StateSetOptions, from?: string) {
+    const current = this.entries.get(key);
+    const persist = options.persist ?? current?.persist ?? false;
+    let stored: any;
+    try {
+      stored = value === undefined ? undefined : structuredClone(value);
+      if (persist && stored !== undefined) { JSON.stringify(stored); }
+    } catch (e) {
+      throw new Error(localize('err.stateValueInvalid', 'state: the value of {0} cannot be stored: {1}', key, (e as any)?.message || String(e)));
+    }
+    if (stored === undefined) {
+      if (!current) { return; }
+      this.entries.delete(key);
+    } else {
+      this.entries.set(key, { value: stored, version: ++this.version, persist });
+    }
+    // 取消持久化或刪除時一併清掉 globalState 中的舊值
+    if (persist || current?.persist) {
+      const wireKey = this.kvPrefix + STATE_KEY_PREFIX + key;
+      void this.context?.globalState.update(wireKey, persist ? stored : undefined).then(undefined, e => {
+        console.warn('[SBH] failed to persist state:', key, e);
+      });
+    }
+    this._onDidChange.fire({ key, value: stored, oldValue: current?.value, from, persisted: persist || !!current?.persist });
+  }
+}
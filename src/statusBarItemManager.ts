@@ -0,0 +1,103 @@
+// src/statusBarItemManager.ts
+// 腳本自己的狀態列項目（statusBarHelper.v1.item）：updateStatusBarItems 建立的 StatusBarItem
+// 以 command 登記在這裡，腳本透過 _bridge 套用暫時的覆寫（文字 / tooltip / 顏色 / 背景 / busy / 顯示）；
+// VM 停止時 reset 回儲存的 SbhItem 值。項目重建（同步 / 儲存）時會重新套用仍有效的覆寫。
+// when 條件（WhenClauseManager）不成立的項目也在這裡隱藏。
+import * as vscode from 'vscode';
+
+/** v1.item.setBackground 可用的背景（VS Code 只支援這兩種狀態列背景色） */
+export type ItemBackground = 'warning' | 'error';
+
+/** 腳本執行期間的覆寫；undefined 欄位 = 使用儲存的值 */
+export interface ItemOverride {
+  text?: string;
+  tooltip?: string | vscode.MarkdownString;
+  color?: string | vscode.ThemeColor;
+  background?: ItemBackground;
+  busy?: boolean;
+  visible?: boolean;
+}
+
+interface Registered {
+  item: vscode.StatusBarItem;
+  saved: { text: string; tooltip?: string; hidden?: boolean };
+}
+
+const BUSY_ICON = '$(loading~spin)';
+
+/** tooltip：字串 = 純文字；{ markdown } 或 MarkdownString（含 worker 傳回的 { value }）= Markdown */
+export function toItemTooltip(raw: unknown): string | vscode.MarkdownString | undefined {
+  if (raw === undefined || raw === null) { return undefined; }
+  if (typeof raw === 'string') { return raw; }
+  if (raw instanceof vscode.MarkdownString) { return raw; }
+  if (typeof raw === 'object') {
+    const value = (raw as any).markdown ?? (raw as any).value;
+    if (typeof value === 'string') {
+      return new vscode.MarkdownString(value, true);
+    }
+  }
+  return String(raw);
+}
+
+/** 顏色：#hex / rgb() 等 CSS 色碼直接使用，其餘視為主題色 id（例如 `charts.red`） */
+export function toItemColor(raw: unknown): string | vscode.ThemeColor | undefined {
+  if (raw === undefined || raw === null || raw === '') { return undefined; }
+  if (raw instanceof vscode.ThemeColor) { return raw; }
+  const s = String(raw).trim();
+  return /^(#|rgb|hsl)/i.test(s) ? s : new vscode.ThemeColor(s);
+}
+
+export class StatusBarItemManager {
+  private items = new Map<string, Registered>();
+  private overrides = new Map<string, ItemOverride>();
+  /** when 條件不成立的項目 */
+  private hiddenByWhen = new Set<string>();
+
+  /** updateStatusBarItems 建立項目後登記（會立即套用既有的覆寫） */
+  public register(command: string, item: vscode.StatusBarItem, saved: Registered['saved']) {
+    this.items.set(command, { item, saved });
+    if (this.overrides.has(command) || this.hiddenByWhen.has(command)) { this.apply(command); }
+  }
+
+  /** 重建前清空登記（StatusBarItem 由呼叫端 dispose）；覆寫保留給重建後的項目 */
+  public clear() {
+    this.items.clear();
+  }
+
+  public has(command: string) {
+    return this.items.has(command);
+  }
+
+  public update(command: string, patch: ItemOverride) {
+    this.overrides.set(command, { ...this.overrides.get(command), ...patch });
+    this.apply(command);
+  }
+
+  /** when 條件結果；hidden 仍優先，腳本的 show / hide 覆寫也優先 */
+  public setWhen(command: string, visible: boolean) {
+    if (this.hiddenByWhen.has(command) === !visible) { return; }
+    if (visible) { this.hiddenByWhen.delete(command); } else { this.hiddenByWhen.add(command); }
+    this.apply(command);
+  }
+
+  /** 還原為儲存的 SbhItem 值 */
+  public reset(command: string) {
+    if (!this.overrides.delete(command)) { return; }
+    this.apply(command);
+  }
+
+  // ── internal ─────────────────────────────────────────────
+  private apply(command: string) {
+    const reg = this.items.get(command);
+    if (!reg) { return; }
+    const { item, saved } = reg;
+    const o = this.overrides.get(command) ?? {};
+    const text = o.text ?? saved.text;
+    item.text = o.busy ? `${BUSY_ICON} ${text}` : text;
+    item.tooltip = o.tooltip ?? saved.tooltip;
+    item.color = o.color;
+    item.backgroundColor = o.background ? new vscode.ThemeColor(`statusBarItem.${o.background}Background`) : undefined;
+    const visible = o.visible ?? (!saved.hidden && !this.hiddenByWhen.has(command));
+    if (visible) { item.show(); } else { item.hide(); }
+  }
+}
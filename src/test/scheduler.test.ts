@@ -0,0 +1,152 @@
+import * as assert from 'assert';
+import { SbhSchedule, nextRunAt, normalizeSchedule } from '../scheduler';
+
+const cron = (expr: string) => normalizeSchedule({ kind: 'cron', expr })!;
+
+/** 本地時間 YYYY-MM-DD HH:mm */
+function fmt(t: number | null): string {
+	if (t === null) { return 'null'; }
+	const d = new Date(t);
+	const p = (n: number) => String(n).padStart(2, '0');
+	return `${d.getFullYear()}-${p(d.getMonth() + 1)}-${p(d.getDate())} ${p(d.getHours())}:${p(d.getMinutes())}`;
+}
+
+/** 從 after 起連續 n 次的執行時間 */
+function runs(s: SbhSchedule, after: number, n: number, format: (t: number | null) => string = fmt): string[] {
+	const out: string[] = [];
+	let t: number | null = after;
+	for (let i = 0; i < n && t !== null; i++) {
+		t = nextRunAt(s, t);
+		out.push(format(t));
+	}
+	return out;
+}
+
+const local = (y: number, mon: number, d: number, h = 0, min = 0) => new Date(y, mon - 1, d, h, min).getTime();
+const utc = (iso: string) => Date.parse(iso);
+const iso = (t: number | null) => t === null ? 'null' : new Date(t).toISOString().slice(0, 16);
+
+suite('Scheduler', () => {
+	// 固定時區：DST 測試需要；2024-01-01 為星期一
+	const originalTz = process.env.TZ;
+	suiteSetup(() => { process.env.TZ = 'America/New_York'; });
+	suiteTeardown(() => {
+		if (originalTz === undefined) { delete process.env.TZ; } else { process.env.TZ = originalTz; }
+	});
+
+	test('ranges, steps and lists', () => {
+		assert.deepStrictEqual(runs(cron('*/15 9-10 * * *'), local(2024, 1, 1, 9, 50), 5), [
+			'2024-01-01 10:00', '2024-01-01 10:15', '2024-01-01 10:30', '2024-01-01 10:45', '2024-01-02 09:00',
+		]);
+		assert.deepStrictEqual(runs(cron('0 8-18/5 * * *'), local(2024, 1, 1), 4), [
+			'2024-01-01 08:00', '2024-01-01 13:00', '2024-01-01 18:00', '2024-01-02 08:00',
+		]);
+		assert.deepStrictEqual(runs(cron('5,10 0 1,15 * *'), local(2024, 1, 1, 0, 6), 4), [
+			'2024-01-01 00:10', '2024-01-15 00:05', '2024-01-15 00:10', '2024-02-01 00:05',
+		]);
+		// 單一起點加 step = 起點到上限
+		assert.deepStrictEqual(runs(cron('30/10 9 * * *'), local(2024, 1, 1), 4), [
+			'2024-01-01 09:30', '2024-01-01 09:40', '2024-01-01 09:50', '2024-01-02 09:30',
+		]);
+	});
+
+	test('month and day names, dow 7 = Sunday', () => {
+		assert.deepStrictEqual(runs(cron('0 0 1 FEB *'), local(2024, 1, 1), 2), ['2024-02-01 00:00', '2025-02-01 00:00']);
+		assert.deepStrictEqual(runs(cron('0 12 * * sat,sun'), local(2024, 1, 1), 3), [
+			'2024-01-06 12:00', '2024-01-07 12:00', '2024-01-13 12:00',
+		]);
+		assert.deepStrictEqual(runs(cron('0 9 * * mon-wed'), local(2024, 1, 3, 10), 2), ['2024-01-08 09:00', '2024-01-09 09:00']);
+		assert.deepStrictEqual(runs(cron('0 0 * * 7'), local(2024, 1, 1), 1), ['2024-01-07 00:00']);
+		assert.deepStrictEqual(runs(cron('0 0 * * 5-7'), local(2024, 1, 1), 3), [
+			'2024-01-05 00:00', '2024-01-06 00:00', '2024-01-07 00:00',
+		]);
+	});
+
+	test('macros', () => {
+		assert.deepStrictEqual(runs(cron('@weekly'), local(2024, 1, 1), 1), ['2024-01-07 00:00']);
+		assert.deepStrictEqual(runs(cron('@monthly'), local(2024, 1, 15), 1), ['2024-02-01 00:00']);
+		assert.deepStrictEqual(runs(cron('@YEARLY'), local(2024, 1, 1), 1), ['2025-01-01 00:00']);
+		assert.deepStrictEqual(runs(cron('@hourly'), local(2024, 1, 1, 23, 30), 1), ['2024-01-02 00:00']);
+	});
+
+	test('day of month and day of week are OR-ed when both are restricted', () => {
+		// 13 日或星期五
+		assert.deepStrictEqual(runs(cron('0 0 13 * fri'), local(2024, 1, 1), 4), [
+			'2024-01-05 00:00', '2024-01-12 00:00', '2024-01-13 00:00', '2024-01-19 00:00',
+		]);
+		// 只限制其中一個時只看該欄位
+		assert.deepStrictEqual(runs(cron('0 0 * * fri'), local(2024, 1, 12), 1), ['2024-01-19 00:00']);
+		assert.deepStrictEqual(runs(cron('0 0 13 * *'), local(2024, 1, 1), 2), ['2024-01-13 00:00', '2024-02-13 00:00']);
+		// 月份仍須符合
+		assert.deepStrictEqual(runs(cron('0 0 1 mar mon'), local(2024, 1, 1), 3), [
+			'2024-03-01 00:00', '2024-03-04 00:00', '2024-03-11 00:00',
+		]);
+	});
+
+	test('rare and impossible dates', () => {
+		assert.deepStrictEqual(runs(cron('0 0 29 2 *'), local(2024, 3, 1), 1), ['2028-02-29 00:00']);
+		// 語法正確但永遠不會發生
+		assert.strictEqual(nextRunAt(cron('0 0 31 2 *'), local(2024, 1, 1)), null);
+	});
+
+	test('next run is strictly after the given time', () => {
+		assert.deepStrictEqual(runs(cron('0 9 * * *'), local(2024, 1, 1, 9), 1), ['2024-01-02 09:00']);
+		assert.deepStrictEqual(runs(cron('0 9 * * *'), local(2024, 1, 1, 8, 59) + 30_000, 1), ['2024-01-01 09:00']);
+	});
+
+	test('invalid cron expressions are rejected', () => {
+		const bad = [
+			'', '* * * *', '* * * * * *', '60 * * * *', '* 24 * * *', '* * 0 * *', '* * 32 * *', '* * * 13 *',
+			'* * * * 8', '5-1 * * * *', '*/0 * * * *', '*/x * * * *', '*/+2 * * * *', 'a * * * *', '1,,2 * * * *',
+			'1-2-3 * * * *', '*/2/3 * * * *', '-5 * * * *', '* * * foo *', '@every',
+		];
+		for (const expr of bad) {
+			assert.strictEqual(normalizeSchedule({ kind: 'cron', expr }), undefined, expr);
+		}
+		assert.strictEqual(normalizeSchedule({ kind: 'cron' }), undefined);
+		assert.deepStrictEqual(normalizeSchedule({ kind: 'cron', expr: '  0   9 * * *  ' }), { kind: 'cron', expr: '0 9 * * *' });
+	});
+
+	test('interval and daily schedules', () => {
+		assert.deepStrictEqual(normalizeSchedule({ kind: 'interval', minutes: 2.7 }), { kind: 'interval', minutes: 2 });
+		assert.deepStrictEqual(normalizeSchedule({ kind: 'interval', minutes: '5' }), { kind: 'interval', minutes: 5 });
+		assert.strictEqual(normalizeSchedule({ kind: 'interval', minutes: 0 }), undefined);
+		assert.strictEqual(normalizeSchedule({ kind: 'interval', minutes: 'x' }), undefined);
+		assert.strictEqual(nextRunAt({ kind: 'interval', minutes: 5 }, 1_000), 1_000 + 5 * 60_000);
+
+		assert.deepStrictEqual(normalizeSchedule({ kind: 'daily', at: '7:05' }), { kind: 'daily', at: '07:05' });
+		for (const at of ['24:00', '9:5', '12:60', 'noon', '']) {
+			assert.strictEqual(normalizeSchedule({ kind: 'daily', at }), undefined, at);
+		}
+		const daily: SbhSchedule = { kind: 'daily', at: '07:05' };
+		assert.deepStrictEqual(runs(daily, local(2024, 1, 1, 7, 4) + 30_000, 2), ['2024-01-01 07:05', '2024-01-02 07:05']);
+		assert.deepStrictEqual(runs(daily, local(2024, 1, 1, 7, 5), 1), ['2024-01-02 07:05']);
+
+		assert.strictEqual(normalizeSchedule(null), undefined);
+		assert.strictEqual(normalizeSchedule({ kind: 'weekly' }), undefined);
+	});
+
+	test('DST start: fixed-hour jobs in the skipped hour run right after the jump', () => {
+		// 2024-03-10 02:00 EST → 03:00 EDT（07:00Z）
+		assert.deepStrictEqual(runs(cron('30 2 * * *'), utc('2024-03-10T06:00Z'), 2, iso), ['2024-03-10T07:00', '2024-03-11T06:30']);
+		assert.deepStrictEqual(runs({ kind: 'daily', at: '02:30' }, utc('2024-03-10T06:00Z'), 2, iso), ['2024-03-10T07:00', '2024-03-11T06:30']);
+		// 03:00 本身只執行一次
+		assert.deepStrictEqual(runs(cron('0 3 * * *'), utc('2024-03-10T06:00Z'), 2, iso), ['2024-03-10T07:00', '2024-03-11T07:00']);
+		// 時 欄位為 * 時不補跑被跳過的時間
+		assert.deepStrictEqual(runs(cron('*/30 * * * *'), utc('2024-03-10T06:00Z'), 3, iso), [
+			'2024-03-10T06:30', '2024-03-10T07:00', '2024-03-10T07:30',
+		]);
+	});
+
+	test('DST end: fixed-hour jobs run once, wildcard-hour jobs follow real time', () => {
+		// 2024-11-03 02:00 EDT → 01:00 EST（06:00Z），01:00–01:59 出現兩次
+		assert.deepStrictEqual(runs(cron('30 1 * * *'), utc('2024-11-03T04:00Z'), 2, iso), ['2024-11-03T05:30', '2024-11-04T06:30']);
+		assert.deepStrictEqual(runs(cron('0 2 * * *'), utc('2024-11-03T05:30Z'), 1, iso), ['2024-11-03T07:00']);
+		assert.deepStrictEqual(runs(cron('*/30 * * * *'), utc('2024-11-03T05:00Z'), 4, iso), [
+			'2024-11-03T05:30', '2024-11-03T06:00', '2024-11-03T06:30', '2024-11-03T07:00',
+		]);
+		// 從重複時段的第二次開始計算：不會回傳比基準更早的時間
+		assert.deepStrictEqual(runs(cron('16 1 * * *'), utc('2024-11-03T06:15Z'), 1, iso), ['2024-11-04T06:16']);
+		assert.deepStrictEqual(runs(cron('20 * * * *'), utc('2024-11-03T06:15Z'), 1, iso), ['2024-11-03T06:20']);
+	});
+});
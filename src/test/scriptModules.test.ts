@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+
+const EXTENSION_ID = 'JiaHongL.status-bar-helper';
+
+const bridge = (ns: string, fn: string, ...args: any[]) =>
+	vscode.commands.executeCommand<{ ok: boolean; data?: any }>('statusBarHelper._bridge', { ns, fn, args });
+
+/** 等腳本把結果寫入 v1.state */
+async function waitForState(key: string, timeoutMs = 5000): Promise<any> {
+	const until = Date.now() + timeoutMs;
+	while (Date.now() < until) {
+		const res = await bridge('state', 'get', key);
+		if (res?.data !== undefined) { return res.data; }
+		await new Promise(r => setTimeout(r, 50));
+	}
+	throw new Error(`state ${key} was not set within ${timeoutMs} ms`);
+}
+
+suite('Script module imports', () => {
+	suiteSetup(async () => {
+		await vscode.extensions.getExtension(EXTENSION_ID)?.activate();
+	});
+
+	test('TypeScript `import * as vscode` exposes classes and enums', async () => {
+		const key = 'test/tsNamespaceImport';
+		const code = [
+			`import * as vscode from 'vscode';`,
+			`const uri: vscode.Uri = vscode.Uri.file('/tmp/sbh-test');`,
+			`await statusBarHelper.v1.state.set('${key}', {`,
+			`  fsPath: uri.fsPath,`,
+			`  alignment: vscode.StatusBarAlignment.Right,`,
+			`  hasWindow: typeof vscode.window.showInformationMessage === 'function',`,
+			`});`,
+			`statusBarHelper.v1.vm.stop();`,
+		].join('\n');
+		await bridge('hostRun', 'start', 'test.tsNamespaceImport', code, { language: 'ts' });
+		const result = await waitForState(key);
+		assert.strictEqual(result.fsPath, vscode.Uri.file('/tmp/sbh-test').fsPath);
+		assert.strictEqual(result.alignment, vscode.StatusBarAlignment.Right);
+		assert.strictEqual(result.hasWindow, true);
+		await bridge('state', 'delete', key);
+	});
+
+	test('JavaScript ES module `import * as vscode` exposes classes and enums', async () => {
+		const key = 'test/jsNamespaceImport';
+		const code = [
+			`import * as vscode from 'vscode';`,
+			`import { Uri } from 'vscode';`,
+			`await statusBarHelper.v1.state.set('${key}', {`,
+			`  fsPath: vscode.Uri.file('/tmp/sbh-test').fsPath,`,
+			`  named: Uri === vscode.Uri,`,
+			`  color: vscode.ThemeColor.name,`,
+			`});`,
+			`statusBarHelper.v1.vm.stop();`,
+		].join('\n');
+		await bridge('hostRun', 'start', 'test.jsNamespaceImport', code);
+		const result = await waitForState(key);
+		assert.strictEqual(result.fsPath, vscode.Uri.file('/tmp/sbh-test').fsPath);
+		assert.strictEqual(result.named, true);
+		assert.strictEqual(result.color, 'ThemeColor');
+		await bridge('state', 'delete', key);
+	});
+});
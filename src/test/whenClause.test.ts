@@ -0,0 +1,121 @@
+import * as assert from 'assert';
+import { WhenContext, evaluateWhen, parseWhen } from '../whenClause';
+
+/** 以固定的 key 值計算；workspaceContains 只認得 globs 中的項目 */
+function when(expr: string, values: Record<string, unknown> = {}, globs: string[] = []): boolean {
+	const ctx: WhenContext = {
+		get: key => values[key],
+		workspaceContains: glob => globs.includes(glob),
+	};
+	return evaluateWhen(parseWhen(expr), ctx);
+}
+
+suite('When clause', () => {
+	test('keys are truthy checks and true / false are constants', () => {
+		assert.strictEqual(when('editorIsOpen', { editorIsOpen: true }), true);
+		assert.strictEqual(when('editorIsOpen', {}), false);
+		assert.strictEqual(when('sbh.count', { 'sbh.count': 0 }), false);
+		assert.strictEqual(when('true'), true);
+		assert.strictEqual(when('false'), false);
+	});
+
+	test('! binds tighter than && and && binds tighter than ||', () => {
+		assert.deepStrictEqual(parseWhen('a || b && c'), {
+			type: 'or',
+			left: { type: 'key', key: 'a' },
+			right: { type: 'and', left: { type: 'key', key: 'b' }, right: { type: 'key', key: 'c' } },
+		});
+		assert.deepStrictEqual(parseWhen('!a && b'), {
+			type: 'and',
+			left: { type: 'not', expr: { type: 'key', key: 'a' } },
+			right: { type: 'key', key: 'b' },
+		});
+		assert.strictEqual(when('a || b && c', { a: true }), true);
+		assert.strictEqual(when('(a || b) && c', { a: true }), false);
+		assert.strictEqual(when('!a && b', { a: false, b: true }), true);
+		assert.strictEqual(when('!(a && b)', { a: true, b: true }), false);
+		assert.strictEqual(when('!!a', { a: 'x' }), true);
+	});
+
+	test('== and != compare as strings; unquoted values become literals', () => {
+		assert.strictEqual(when('editorLangId == typescript', { editorLangId: 'typescript' }), true);
+		assert.strictEqual(when(`editorLangId == 'typescript'`, { editorLangId: 'typescript' }), true);
+		assert.strictEqual(when('editorLangId != typescript', { editorLangId: 'javascript' }), true);
+		assert.strictEqual(when('workspaceFolderCount == 1', { workspaceFolderCount: 1 }), true);
+		assert.strictEqual(when('isWindows == false', { isWindows: false }), true);
+		// 不存在的 key：== 不成立、!= 成立
+		assert.strictEqual(when('remoteName == wsl', {}), false);
+		assert.strictEqual(when('remoteName != wsl', {}), true);
+		// 引號內的值不轉型
+		assert.deepStrictEqual(parseWhen(`a == '1'`), { type: 'compare', key: 'a', op: '==', value: '1' });
+		assert.deepStrictEqual(parseWhen('a == 1'), { type: 'compare', key: 'a', op: '==', value: 1 });
+		assert.strictEqual(when(`name == 'a b'`, { name: 'a b' }), true);
+	});
+
+	test('numeric comparisons need numbers on both sides', () => {
+		assert.strictEqual(when('workspaceFolderCount >= 2', { workspaceFolderCount: 2 }), true);
+		assert.strictEqual(when('workspaceFolderCount < 2', { workspaceFolderCount: 2 }), false);
+		assert.strictEqual(when('sbh.n > 1.5', { 'sbh.n': '2' }), true);
+		assert.strictEqual(when('sbh.n > 1', { 'sbh.n': 'abc' }), false);
+		assert.strictEqual(when('sbh.n <= 1', {}), false);
+	});
+
+	test('=~ matches a regex literal with flags', () => {
+		assert.strictEqual(when('resourceFilename =~ /\\.spec\\.ts$/', { resourceFilename: 'a.spec.ts' }), true);
+		assert.strictEqual(when('resourceFilename =~ /\\.spec\\.ts$/', { resourceFilename: 'a.ts' }), false);
+		assert.strictEqual(when('resourceFilename =~ /README/i', { resourceFilename: 'readme.md' }), true);
+		// 字元類別中的 / 不結束 regex
+		assert.strictEqual(when('resourcePath =~ /src[/]lib/', { resourcePath: '/x/src/lib/a.ts' }), true);
+		assert.strictEqual(when('resourcePath =~ /x/', {}), false);
+		// g 旗標不會因 lastIndex 殘留而交替成立
+		const node = parseWhen('a =~ /x/g');
+		const ctx: WhenContext = { get: () => 'x', workspaceContains: () => false };
+		assert.strictEqual(evaluateWhen(node, ctx), true);
+		assert.strictEqual(evaluateWhen(node, ctx), true);
+	});
+
+	test('in / not in look the value up in an array or object key', () => {
+		const values = { resourceExtname: '.ts', 'sbh.exts': ['.ts', '.js'], 'sbh.map': { '.md': 1 } };
+		assert.strictEqual(when('resourceExtname in sbh.exts', values), true);
+		assert.strictEqual(when('resourceExtname in sbh.map', values), false);
+		assert.strictEqual(when('resourceExtname not in sbh.exts', values), false);
+		assert.strictEqual(when('resourceExtname not in sbh.map', values), true);
+		assert.strictEqual(when('resourceExtname in sbh.missing', values), false);
+		assert.strictEqual(when('resourceLangId in sbh.exts', values), false);
+		assert.deepStrictEqual(parseWhen('a not in b'), { type: 'in', key: 'a', container: 'b', negated: true });
+		// key 名稱以 in / not 開頭時不是運算子
+		assert.deepStrictEqual(parseWhen('a && index'), {
+			type: 'and', left: { type: 'key', key: 'a' }, right: { type: 'key', key: 'index' },
+		});
+		assert.strictEqual(when('a in b && c', { a: 1, b: [1], c: true }), true);
+	});
+
+	test('workspaceContains takes a glob, including braces', () => {
+		assert.strictEqual(when('workspaceContains:**/package.json', {}, ['**/package.json']), true);
+		assert.strictEqual(when('workspaceContains:**/*.{ts,js} && a', { a: true }, ['**/*.{ts,js}']), true);
+		assert.strictEqual(when('!workspaceContains:Cargo.toml', {}, []), true);
+		assert.strictEqual(when(`workspaceContains:'a b/*.txt'`, {}, ['a b/*.txt']), true);
+	});
+
+	test('malformed expressions throw with a position', () => {
+		const bad = [
+			'',
+			'a &&',
+			'&& a',
+			'(a || b',
+			'a b',
+			'a == ',
+			`a == 'unterminated`,
+			'a =~ x',
+			'a =~ /unterminated',
+			'a =~ /(/',
+			'a in',
+			'a in 1',
+			'workspaceContains:',
+			'a)',
+		];
+		for (const expr of bad) {
+			assert.throws(() => parseWhen(expr), /^Error: when: .+ at \d+$/, expr);
+		}
+	});
+});
@@ -0,0 +1,171 @@
+// src/triggers.ts
+// 項目觸發條件（SbhItem.triggers）：在 VS Code 事件發生時才由 host 啟動腳本。
+// 事件訂閱放在 host（每種事件只訂閱一次），腳本不需常駐 VM 監聽，閒置時不佔記憶體；
+// 事件內容以可序列化的 payload 傳給腳本（vm.trigger）。
+import * as vscode from 'vscode';
+
+export type TriggerEvent =
+  | 'onDidSaveTextDocument'
+  | 'onDidChangeActiveTextEditor'
+  | 'onDidOpenTerminal'
+  | 'onDidChangeGitBranch'
+  | 'onDidChangeWindowState';
+
+export const TRIGGER_EVENTS: readonly TriggerEvent[] = [
+  'onDidSaveTextDocument',
+  'onDidChangeActiveTextEditor',
+  'onDidOpenTerminal',
+  'onDidChangeGitBranch',
+  'onDidChangeWindowState',
+];
+
+/** 有文件可比對 glob 的事件 */
+const DOCUMENT_EVENTS: ReadonlySet<TriggerEvent> = new Set(['onDidSaveTextDocument', 'onDidChangeActiveTextEditor']);
+
+export interface SbhTrigger {
+  event: TriggerEvent;
+  /** 檔案 glob（僅文件相關事件），例如 `**\/*.md`；未設定 = 所有檔案 */
+  glob?: string;
+}
+
+/** 傳給腳本的事件內容（vm.trigger） */
+export type TriggerPayload = { at: number } & (
+  | { event: 'onDidSaveTextDocument'; uri: string; fileName: string; languageId: string }
+  | { event: 'onDidChangeActiveTextEditor'; uri?: string; fileName?: string; languageId?: string }
+  | { event: 'onDidOpenTerminal'; name: string }
+  | { event: 'onDidChangeGitBranch'; repository: string; from?: string; to?: string }
+  | { event: 'onDidChangeWindowState'; focused: boolean }
+);
+
+/** 正規化使用者輸入；沒有有效的觸發條件時回傳 undefined */
+export function normalizeTriggers(raw: unknown): SbhTrigger[] | undefined {
+  if (!Array.isArray(raw)) { return undefined; }
+  const out: SbhTrigger[] = [];
+  const seen = new Set<string>();
+  for (const t of raw) {
+    if (!t || typeof t !== 'object' || !TRIGGER_EVENTS.includes((t as any).event)) { continue; }
+    const event = (t as any).event as TriggerEvent;
+    const glob = DOCUMENT_EVENTS.has(event) && typeof (t as any).glob === 'string' ? (t as any).glob.trim() : '';
+    const key = `${event}|${glob}`;
+    if (seen.has(key)) { continue; }
+    seen.add(key);
+    out.push(glob ? { event, glob } : { event });
+  }
+  return out.length ? out : undefined;
+}
+
+export function triggersFingerprint(triggers: SbhTrigger[]): string {
+  return triggers.map(t => `${t.event}:${t.glob ?? ''}`).sort().join(',');
+}
+
+// ─────────────────────────────────────────────────────────────
+// Host 端事件訂閱
+// ─────────────────────────────────────────────────────────────
+
+const docInfo = (doc: vscode.TextDocument) =>
+  ({ uri: doc.uri.toString(), fileName: doc.fileName, languageId: doc.languageId });
+
+export class TriggerManager {
+  /** event → 宣告該事件的項目 */
+  private listeners = new Map<TriggerEvent, Array<{ command: string; trigger: SbhTrigger }>>();
+  private subscriptions = new Map<TriggerEvent, vscode.Disposable>();
+
+  /**
+   * @param fire 事件符合時呼叫
+   */
+  constructor(private readonly fire: (command: string, payload: TriggerPayload) => void) {}
+
+  /** 依目前項目重建觸發表；只訂閱有項目使用的事件 */
+  public sync(items: Array<{ command: string; triggers?: SbhTrigger[] }>) {
+    this.listeners.clear();
+    for (const item of items) {
+      for (const trigger of normalizeTriggers(item.triggers) ?? []) {
+        const list = this.listeners.get(trigger.event) ?? [];
+        list.push({ command: item.command, trigger });
+        this.listeners.set(trigger.event, list);
+      }
+    }
+    for (const event of TRIGGER_EVENTS) {
+      const used = this.listeners.has(event);
+      const sub = this.subscriptions.get(event);
+      if (used && !sub) {
+        this.subscriptions.set(event, this.subscribe(event));
+      } else if (!used && sub) {
+        sub.dispose();
+        this.subscriptions.delete(event);
+      }
+    }
+  }
+
+  public dispose() {
+    for (const d of this.subscriptions.values()) { try { d.dispose(); } catch {} }
+    this.subscriptions.clear();
+    this.listeners.clear();
+  }
+
+  // ── internal ─────────────────────────────────────────────
+  private emit(payload: TriggerPayload, doc?: vscode.TextDocument) {
+    for (const { command, trigger } of this.listeners.get(payload.event) ?? []) {
+      if (trigger.glob && (!doc || vscode.languages.match({ pattern: trigger.glob }, doc) === 0)) { continue; }
+      try {
+        this.fire(command, payload);
+      } catch (e) {
+        console.error(`[SBH] trigger failed: ${command}`, e);
+      }
+    }
+  }
+
+  private subscribe(event: TriggerEvent): vscode.Disposable {
+    switch (event) {
+      case 'onDidSaveTextDocument':
+        return vscode.workspace.onDidSaveTextDocument(doc =>
+          this.emit({ event, at: Date.now(), ...docInfo(doc) }, doc));
+      case 'onDidChangeActiveTextEditor':
+        return vscode.window.onDidChangeActiveTextEditor(editor =>
+          this.emit({ event, at: Date.now(), ...(editor ? docInfo(editor.document) : {}) }, editor?.document));
+      case 'onDidOpenTerminal':
+        return vscode.window.onDidOpenTerminal(terminal =>
+          this.emit({ event, at: Date.now(), name: terminal.name }));
+      case 'onDidChangeWindowState':
+        return vscode.window.onDidChangeWindowState(state =>
+          this.emit({ event, at: Date.now(), focused: state.focused }));
+      case 'onDidChangeGitBranch':
+        return this.subscribeGitBranch();
+    }
+  }
+
+  /** 透過內建 git 擴充的 API 追蹤各 repository 的 HEAD；沒有 git 擴充時不做任何事 */
+  private subscribeGitBranch(): vscode.Disposable {
+    const disposables: vscode.Disposable[] = [];
+    let disposed = false;
+    const heads = new Map<string, string | undefined>();
+
+    const watch = (repo: any) => {
+      const root = String(repo?.rootUri?.fsPath ?? '');
+      if (!root || heads.has(root)) { return; }
+      heads.set(root, repo.state?.HEAD?.name);
+      disposables.push(repo.state.onDidChange(() => {
+        const from = heads.get(root);
+        const to = repo.state?.HEAD?.name;
+        if (from === to) { return; }
+        heads.set(root, to);
+        this.emit({ event: 'onDidChangeGitBranch', at: Date.now(), repository: root, from, to });
+      }));
+    };
+
+    (async () => {
+      const ext = vscode.extensions.getExtension<any>('vscode.git');
+      if (!ext) { return; }
+      const exports = ext.isActive ? ext.exports : await ext.activate();
+      const git = exports?.getAPI?.(1);
+      if (!git || disposed) { return; }
+      (git.repositories || []).forEach(watch);
+      disposables.push(git.onDidOpenRepository(watch));
+    })().catch(e => console.warn('[SBH] git branch trigger unavailable:', e));
+
+    return new vscode.Disposable(() => {
+      disposed = true;
+      disposables.forEach(d => { try { d.dispose(); } catch {} });
+    });
+  }
+}
@@ -55,7 +55,23 @@ export function parseAndValidate(json: string): ParseResult {
       if (!('text' in obj) || typeof obj.text !== 'string') {
         return { valid: false, items: [], error: 'Missing or invalid text' };
       }
-      // 允許 tooltip/script/hidden/enableOnInit 缺省
+      // 狀態列位置欄位可缺省，但有值時型別需正確
+      if (obj.alignment !== undefined && obj.alignment !== 'left' && obj.alignment !== 'right') {
+        return { valid: false, items: [], error: `Invalid alignment for ${obj.command}` };
+      }
+      if (obj.priority !== undefined && (typeof obj.priority !== 'number' || !Number.isFinite(obj.priority))) {
+        return { valid: false, items: [], error: `Invalid priority for ${obj.command}` };
+      }
+      if (obj.when !== undefined && typeof obj.when !== 'string') {
+        return { valid: false, items: [], error: `Invalid when for ${obj.command}` };
+      }
+      if (obj.actions !== undefined && !Array.isArray(obj.actions)) {
+        return { valid: false, items: [], error: `Invalid actions for ${obj.command}` };
+      }
+      if (obj.keybinding !== undefined && typeof obj.keybinding !== 'string') {
+        return { valid: false, items: [], error: `Invalid keybinding for ${obj.command}` };
+      }
+      // 允許 tooltip/script/hidden/enableOnInit/alignment/priority/name/group/when/actions/keybinding 缺省
       items.push(obj as SbhItem);
     }
     return { valid: true, items, raw: arr };
@@ -0,0 +1,114 @@
+// src/vmPubSub.ts
+// 腳本間的 topic 廣播：vm.publish(topic, msg) 送給所有 vm.subscribe(pattern, handler) 相符的 VM，發佈端不需要知道訂閱者的 command。
+// topic 以 / 分層（例如 git/branch）；pattern 可用 * 比對一層、** 比對任意層（含零層）。
+// publish 時指定 retain 會保留該 topic 的最後一則訊息，之後才訂閱的 VM 會先收到它；訂閱隨 VM 的 signal 自動取消。
+import { localize } from './nls';
+
+export type TopicHandler = (message: any, topic: string, from: string) => void;
+
+export interface PublishOptions {
+  /** 保留為該 topic 的最後訊息；message 為 undefined / null 時清除已保留的訊息 */
+  retain?: boolean;
+}
+
+interface Subscription {
+  command: string;
+  segments: string[];
+  handler: TopicHandler;
+}
+
+const SEGMENT_RE = /^[^/*\s]+$/;
+
+/** 發佈用的 topic：不可含萬用字元 */
+export function isValidTopic(topic: unknown): topic is string {
+  return typeof topic === 'string' && topic.split('/').every(s => SEGMENT_RE.test(s));
+}
+
+/** 訂閱用的 pattern：每一層為一般名稱、* 或 ** */
+export function isValidTopicPattern(pattern: unknown): pattern is string {
+  return typeof pattern === 'string' && pattern.split('/').every(s => s === '*' || s === '**' || SEGMENT_RE.test(s));
+}
+
+/** pattern 與 topic 是否相符（皆已切成各層） */
+export function topicMatches(pattern: string[], topic: string[]): boolean {
+  const [head, ...rest] = pattern;
+  if (head === undefined) { return topic.length === 0; }
+  if (head === '**') {
+    for (let i = 0; i <= topic.length; i++) {
+      if (topicMatches(rest, topic.slice(i))) { return true; }
+    }
+    return false;
+  }
+  if (!topic.length) { return false; }
+  return (head === '*' || head === topic[0]) && topicMatches(rest, topic.slice(1));
+}
+
+export class VmPubSub {
+  private subscriptions = new Set<Subscription>();
+  /** topic → 保留的最後訊息 */
+  private retained = new Map<string, { message: any; from: string }>();
+
+  /**
+   * 廣播到所有相符的訂閱；回傳收到的訂閱數
+   * handler 的例外不影響其他訂閱者
+   */
+  public publish(from: string, topic: string, message: any, options: PublishOptions = {}): number {
+    if (!isValidTopic(topic)) {
+      throw new Error(localize('err.vmTopicInvalid', 'Invalid topic: {0}', String(topic)));
+    }
+    if (options.retain) {
+      if (message === undefined || message === null) {
+        this.retained.delete(topic);
+      } else {
+        this.retained.set(topic, { message, from });
+      }
+    }
+    const segments = topic.split('/');
+    let delivered = 0;
+    for (const sub of [...this.subscriptions]) {
+      if (!topicMatches(sub.segments, segments)) { continue; }
+      delivered++;
+      this.invoke(sub, message, topic, from);
+    }
+    return delivered;
+  }
+
+  /**
+   * 訂閱 pattern；相符的保留訊息在下一個 microtask 送出（先拿到取消函式）
+   * @param signal VM 的 signal：abort 時自動取消訂閱
+   */
+  public subscribe(command: string, pattern: string, handler: TopicHandler, signal?: AbortSignal): () => void {
+    if (!isValidTopicPattern(pattern)) {
+      throw new Error(localize('err.vmTopicPatternInvalid', 'Invalid topic pattern: {0}', String(pattern)));
+    }
+    if (signal?.aborted) { return () => {}; }
+    const sub: Subscription = { command, segments: pattern.split('/'), handler };
+    this.subscriptions.add(sub);
+    const off = () => {
+      this.subscriptions.delete(sub);
+      signal?.removeEventListener('abort', off);
+    };
+    signal?.addEventListener('abort', off, { once: true });
+
+    const retained = [...this.retained].filter(([topic]) => topicMatches(sub.segments, topic.split('/')));
+    if (retained.length) {
+      queueMicrotask(() => {
+        for (const [topic, rec] of retained) {
+          if (this.subscriptions.has(sub)) { this.invoke(sub, rec.message, topic, rec.from); }
+        }
+      });
+    }
+    return off;
+  }
+
+  // ── internal ─────────────────────────────────────────────
+  private invoke(sub: Subscription, message: any, topic: string, from: string) {
+    const report = (e: unknown) => console.error(`[vm topic handler error] ${sub.command} (${topic})`, e);
+    try {
+      const r: any = sub.handler(message, topic, from);
+      if (r && typeof r.then === 'function') { r.then(undefined, report); }
+    } catch (e) {
+      report(e);
+    }
+  }
+}
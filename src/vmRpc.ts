@@ -0,0 +1,128 @@
+// src/vmRpc.ts
+// 腳本間 request / response：vm.handle(method, fn) 註冊處理器，vm.request(target, method, payload, { timeoutMs }) 等待回覆。
+// 與訊息匯流排（vm.sendMessage）共用 VM 生命週期：目標未執行時立即失敗；目標已執行但尚未註冊該 method 時等待（計入逾時）；
+// 任一方的 VM 中止時取消（呼叫端收到 reject，處理端的 ctx.signal 觸發 abort）。
+import { localize } from './nls';
+
+export type VmRequestErrorCode = 'notRunning' | 'timeout' | 'canceled' | 'targetStopped' | 'handlerError';
+
+/** vm.request 失敗時的錯誤；以 code 區分原因（worker 端以相同的 name / code 重建） */
+export class VmRequestError extends Error {
+  constructor(public readonly code: VmRequestErrorCode, message: string) {
+    super(message);
+    this.name = 'VmRequestError';
+  }
+}
+
+export interface VmRequestContext {
+  /** 呼叫端 command */
+  from: string;
+  /** 呼叫端中止、逾時或處理端 VM 結束時 abort */
+  signal: AbortSignal;
+}
+
+export type VmRequestHandler = (payload: any, ctx: VmRequestContext) => any;
+
+export interface VmRequestOptions {
+  /** 預設 DEFAULT_REQUEST_TIMEOUT_MS；0 = 不逾時（仍會隨任一方 VM 中止而取消） */
+  timeoutMs?: number;
+  /** 呼叫端 VM 的 signal */
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_REQUEST_TIMEOUT_MS = 10_000;
+
+interface PendingRequest {
+  from: string;
+  method: string;
+  payload: any;
+  abort: AbortController;
+  /** 已交給處理器 */
+  delivered: boolean;
+  settle: (error: Error | undefined, value?: any) => void;
+}
+
+export class VmRpc {
+  /** command → method → 處理器 */
+  private handlers = new Map<string, Map<string, VmRequestHandler>>();
+  /** 目標 command → 尚未完成的請求 */
+  private inflight = new Map<string, Set<PendingRequest>>();
+
+  /** @param isRunning 目標 command 是否有執行中的 VM */
+  constructor(private readonly isRunning: (command: string) => boolean) {}
+
+  /** 註冊（或取代）method 的處理器；回傳取消註冊函式 */
+  public handle(command: string, method: string, fn: VmRequestHandler): () => void {
+    let map = this.handlers.get(command);
+    if (!map) { map = new Map(); this.handlers.set(command, map); }
+    map.set(method, fn);
+    // 送出先前在等待這個 method 的請求
+    for (const req of this.inflight.get(command) ?? []) {
+      if (!req.delivered && req.method === method) { this.deliver(req, fn); }
+    }
+    return () => {
+      if (this.handlers.get(command)?.get(method) === fn) { this.handlers.get(command)!.delete(method); }
+    };
+  }
+
+  public request(from: string, target: string, method: string, payload: any, options: VmRequestOptions = {}): Promise<any> {
+    if (!this.isRunning(target)) {
+      return Promise.reject(new VmRequestError('notRunning', localize('err.vmRequestNotRunning', 'vm.request: {0} is not running', target)));
+    }
+    if (options.signal?.aborted) {
+      return Promise.reject(new VmRequestError('canceled', localize('err.vmRequestCanceled', 'vm.request: {0}.{1} was canceled', target, method)));
+    }
+    return new Promise((resolve, reject) => {
+      const timeoutMs = typeof options.timeoutMs === 'number' && options.timeoutMs >= 0 ? options.timeoutMs : DEFAULT_REQUEST_TIMEOUT_MS;
+      let timer: NodeJS.Timeout | undefined;
+      const onCallerAbort = () => req.settle(new VmRequestError('canceled', localize('err.vmRequestCanceled', 'vm.request: {0}.{1} was canceled', target, method)));
+      const req: PendingRequest = {
+        from, method, payload,
+        abort: new AbortController(),
+        delivered: false,
+        settle: (error, value) => {
+          const set = this.inflight.get(target);
+          if (!set?.delete(req)) { return; }
+          if (!set.size) { this.inflight.delete(target); }
+          if (timer) { clearTimeout(timer); }
+          options.signal?.removeEventListener('abort', onCallerAbort);
+          if (error) {
+            try { req.abort.abort(error); } catch {}
+            reject(error);
+          } else {
+            resolve(value);
+          }
+        },
+      };
+      let set = this.inflight.get(target);
+      if (!set) { set = new Set(); this.inflight.set(target, set); }
+      set.add(req);
+      if (timeoutMs > 0) {
+        timer = setTimeout(() => req.settle(new VmRequestError('timeout',
+          localize('err.vmRequestTimeout', 'vm.request: {0}.{1} timed out after {2} ms', target, method, String(timeoutMs)))), timeoutMs);
+      }
+      options.signal?.addEventListener('abort', onCallerAbort, { once: true });
+      const fn = this.handlers.get(target)?.get(method);
+      if (fn) { this.deliver(req, fn); }
+    });
+  }
+
+  /** VM 結束：移除它的處理器，取消送往它的請求 */
+  public release(command: string) {
+    this.handlers.delete(command);
+    for (const req of [...this.inflight.get(command) ?? []]) {
+      req.settle(new VmRequestError('targetStopped', localize('err.vmRequestTargetStopped', 'vm.request: {0} stopped before replying to {1}', command, req.method)));
+    }
+  }
+
+  // ── internal ─────────────────────────────────────────────
+  private deliver(req: PendingRequest, fn: VmRequestHandler) {
+    req.delivered = true;
+    Promise.resolve()
+      .then(() => fn(req.payload, { from: req.from, signal: req.abort.signal }))
+      .then(
+        value => req.settle(undefined, value),
+        e => req.settle(new VmRequestError('handlerError', (e as any)?.message ?? String(e)))
+      );
+  }
+}
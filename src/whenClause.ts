@@ -0,0 +1,451 @@
+// src/whenClause.ts
+// 項目顯示條件（SbhItem.when）：類似 VS Code when clause 的運算式，由 host 在編輯器 / 工作區變動時重新計算，
+// 結果交給 StatusBarItemManager 決定狀態列項目是否顯示（hidden 仍優先；腳本的 v1.item.show/hide 可暫時覆寫）。
+//
+// 語法：`&&`、`||`、`!`、括號、`==` / `!=` / `<` / `<=` / `>` / `>=`、`=~ /regex/flags`、
+// `key in containerKey` / `key not in containerKey`（container 為陣列或物件的 key），
+// 以及 `workspaceContains:<glob>`（工作區內是否有符合的檔案）。
+// 可用的 key：editorLangId / resourceLangId、resourceScheme、resourceFilename、resourceExtname、resourcePath、
+// editorIsOpen、workspaceFolderCount、workbenchState、isWorkspaceTrusted、remoteName、isWindows / isMac / isLinux，
+// 以及腳本以 statusBarHelper.v1.context.set(key, value) 設定的 `sbh.<key>`。
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+/** 腳本自訂 context key 的前綴（同時以 setContext 設定給 VS Code，keybinding 的 when 也能使用） */
+export const CONTEXT_KEY_PREFIX = 'sbh.';
+
+const WORKSPACE_CONTAINS = 'workspaceContains:';
+const REFRESH_DELAY_MS = 300;
+const FIND_EXCLUDE = '**/node_modules/**';
+
+// ─────────────────────────────────────────────────────────────
+// 解析與計算（不依賴 vscode 狀態）
+// ─────────────────────────────────────────────────────────────
+
+type CompareOp = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+export type WhenNode =
+  | { type: 'and' | 'or'; left: WhenNode; right: WhenNode }
+  | { type: 'not'; expr: WhenNode }
+  | { type: 'key'; key: string }
+  | { type: 'compare'; key: string; op: CompareOp; value: string | number | boolean }
+  | { type: 'regex'; key: string; regex: RegExp }
+  /** key 的值是否在 container key 的值（陣列元素 / 物件屬性）中 */
+  | { type: 'in'; key: string; container: string; negated: boolean }
+  | { type: 'workspaceContains'; glob: string }
+  | { type: 'const'; value: boolean };
+
+/** 計算時需要的環境 */
+export interface WhenContext {
+  get(key: string): unknown;
+  /** 是否有符合 glob 的檔案；尚未查詢完成時回傳 false */
+  workspaceContains(glob: string): boolean;
+}
+
+class Parser {
+  private pos = 0;
+  constructor(private readonly src: string) {}
+
+  parse(): WhenNode {
+    const node = this.parseOr();
+    this.skipSpace();
+    if (this.pos < this.src.length) { this.fail(`unexpected '${this.src[this.pos]}'`); }
+    return node;
+  }
+
+  private fail(msg: string): never {
+    throw new Error(`when: ${msg} at ${this.pos + 1}`);
+  }
+
+  private skipSpace() {
+    while (this.pos < this.src.length && /\s/.test(this.src[this.pos])) { this.pos++; }
+  }
+
+  private eat(token: string): boolean {
+    this.skipSpace();
+    if (this.src.startsWith(token, this.pos)) { this.pos += token.length; return true; }
+    return false;
+  }
+
+  /** 關鍵字（後面不能緊接 key 字元，避免 `in` 吃掉 `index`） */
+  private eatWord(word: string): boolean {
+    this.skipSpace();
+    if (!this.src.startsWith(word, this.pos) || /[\w.$-]/.test(this.src[this.pos + word.length] ?? '')) { return false; }
+    this.pos += word.length;
+    return true;
+  }
+
+  private parseOr(): WhenNode {
+    let left = this.parseAnd();
+    while (this.eat('||')) { left = { type: 'or', left, right: this.parseAnd() }; }
+    return left;
+  }
+
+  private parseAnd(): WhenNode {
+    let left = this.parseUnary();
+    while (this.eat('&&')) { left = { type: 'and', left, right: this.parseUnary() }; }
+    return left;
+  }
+
+  private parseUnary(): WhenNode {
+    this.skipSpace();
+    // `!` 但不是 `!=`
+    if (this.src[this.pos] === '!' && this.src[this.pos + 1] !== '=') {
+      this.pos++;
+      return { type: 'not', expr: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): WhenNode {
+    if (this.eat('(')) {
+      const node = this.parseOr();
+      if (!this.eat(')')) { this.fail(`expected ')'`); }
+      return node;
+    }
+    this.skipSpace();
+    if (this.src.startsWith(WORKSPACE_CONTAINS, this.pos)) {
+      this.pos += WORKSPACE_CONTAINS.length;
+      const glob = this.readValue();
+      if (!glob) { this.fail('expected a glob after workspaceContains:'); }
+      return { type: 'workspaceContains', glob };
+    }
+    const key = this.readKey();
+    if (key === 'true' || key === 'false') { return { type: 'const', value: key === 'true' }; }
+    if (this.eat('=~')) {
+      return { type: 'regex', key, regex: this.readRegex() };
+    }
+    const start = this.pos;
+    const negated = this.eatWord('not');
+    if (this.eatWord('in')) {
+      return { type: 'in', key, container: this.readKey(), negated };
+    }
+    this.pos = start;
+    for (const op of ['==', '!=', '<=', '>=', '<', '>'] as CompareOp[]) {
+      if (this.eat(op)) {
+        const raw = this.readValue();
+        if (!raw) { this.fail(`expected a value after '${op}'`); }
+        return { type: 'compare', key, op, value: this.quoted ? raw : toLiteral(raw) };
+      }
+    }
+    return { type: 'key', key };
+  }
+
+  private readKey(): string {
+    this.skipSpace();
+    const m = /^[A-Za-z_$][\w.$-]*/.exec(this.src.slice(this.pos));
+    if (!m) { this.fail(this.pos < this.src.length ? `unexpected '${this.src[this.pos]}'` : 'unexpected end'); }
+    this.pos += m[0].length;
+    return m[0];
+  }
+
+  /** 上一個 readValue 是否為引號字串（不轉型） */
+  private quoted = false;
+
+  /** 引號字串，或直到空白 / && / || / ) 為止的文字 */
+  private readValue(): string {
+    this.skipSpace();
+    const q = this.src[this.pos];
+    this.quoted = q === '\'' || q === '"';
+    if (this.quoted) {
+      const end = this.src.indexOf(q, this.pos + 1);
+      if (end < 0) { this.fail('unterminated string'); }
+      const value = this.src.slice(this.pos + 1, end);
+      this.pos = end + 1;
+      return value;
+    }
+    const start = this.pos;
+    let depth = 0;
+    while (this.pos < this.src.length) {
+      const c = this.src[this.pos];
+      if (/\s/.test(c) || this.src.startsWith('&&', this.pos) || this.src.startsWith('||', this.pos)) { break; }
+      // glob 內的 {a,b} 不含括號；`)` 只在沒有對應 `(` 時結束
+      if (c === '(') { depth++; } else if (c === ')') { if (depth === 0) { break; } depth--; }
+      this.pos++;
+    }
+    return this.src.slice(start, this.pos);
+  }
+
+  private readRegex(): RegExp {
+    this.skipSpace();
+    if (this.src[this.pos] !== '/') { this.fail(`expected /regex/ after '=~'`); }
+    let i = this.pos + 1;
+    let inClass = false;
+    for (; i < this.src.length; i++) {
+      const c = this.src[i];
+      if (c === '\\') { i++; continue; }
+      if (c === '[') { inClass = true; } else if (c === ']') { inClass = false; } else if (c === '/' && !inClass) { break; }
+    }
+    if (i >= this.src.length) { this.fail('unterminated regex'); }
+    const body = this.src.slice(this.pos + 1, i);
+    const flags = /^[gimsuy]*/.exec(this.src.slice(i + 1))![0];
+    this.pos = i + 1 + flags.length;
+    try {
+      return new RegExp(body, flags);
+    } catch (e: any) {
+      this.fail(e?.message || 'invalid regex');
+    }
+  }
+}
+
+/** 未加引號的值：true / false / 數字，其餘為字串 */
+function toLiteral(raw: string): string | number | boolean {
+  if (raw === 'true') { return true; }
+  if (raw === 'false') { return false; }
+  return /^-?\d+(\.\d+)?$/.test(raw) ? Number(raw) : raw;
+}
+
+/** 解析 when 運算式；語法錯誤時丟出 Error */
+export function parseWhen(src: string): WhenNode {
+  return new Parser(src).parse();
+}
+
+export function evaluateWhen(node: WhenNode, ctx: WhenContext): boolean {
+  switch (node.type) {
+    case 'const': return node.value;
+    case 'and': return evaluateWhen(node.left, ctx) && evaluateWhen(node.right, ctx);
+    case 'or': return evaluateWhen(node.left, ctx) || evaluateWhen(node.right, ctx);
+    case 'not': return !evaluateWhen(node.expr, ctx);
+    case 'key': return !!ctx.get(node.key);
+    case 'workspaceContains': return ctx.workspaceContains(node.glob);
+    case 'in': {
+      const v = ctx.get(node.key);
+      const container = ctx.get(node.container);
+      let found = false;
+      if (v !== undefined && v !== null) {
+        if (Array.isArray(container)) {
+          found = container.some(x => String(x) === String(v));
+        } else if (container && typeof container === 'object') {
+          found = Object.prototype.hasOwnProperty.call(container, String(v));
+        }
+      }
+      return node.negated ? !found : found;
+    }
+    case 'regex': {
+      const v = ctx.get(node.key);
+      if (v === undefined || v === null) { return false; }
+      node.regex.lastIndex = 0;
+      return node.regex.test(String(v));
+    }
+    case 'compare': {
+      const v = ctx.get(node.key);
+      switch (node.op) {
+        // 字串比較：數字 / 布林值以字串形式相等即可（與 VS Code 相同，`workspaceFolderCount == 1`）
+        case '==': return v !== undefined && v !== null && String(v) === String(node.value);
+        case '!=': return v === undefined || v === null || String(v) !== String(node.value);
+        default: {
+          const a = Number(v), b = Number(node.value);
+          if (v === undefined || v === null || !Number.isFinite(a) || !Number.isFinite(b)) { return false; }
+          return node.op === '<' ? a < b : node.op === '<=' ? a <= b : node.op === '>' ? a > b : a >= b;
+        }
+      }
+    }
+  }
+}
+
+/** 運算式中用到的 workspaceContains glob */
+function collectGlobs(node: WhenNode, out: Set<string>) {
+  switch (node.type) {
+    case 'and': case 'or': collectGlobs(node.left, out); collectGlobs(node.right, out); break;
+    case 'not': collectGlobs(node.expr, out); break;
+    case 'workspaceContains': out.add(node.glob); break;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────
+// Host 端條件管理
+// ─────────────────────────────────────────────────────────────
+
+export interface WhenResult {
+  value: boolean;
+  error?: string;
+  /** 計算時使用的 context（測試用） */
+  context: Record<string, unknown>;
+}
+
+export class WhenClauseManager {
+  /** command → 解析後的運算式（語法錯誤 = null，視為顯示） */
+  private clauses = new Map<string, WhenNode | null>();
+  private results = new Map<string, boolean>();
+  private custom = new Map<string, unknown>();
+  /** glob → 是否有符合的檔案；undefined = 查詢中 */
+  private globs = new Map<string, boolean | undefined>();
+  private subscriptions: vscode.Disposable[] = [];
+  private lastEditor: vscode.TextEditor | undefined = vscode.window.activeTextEditor;
+  private refreshTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * @param apply 條件結果改變時呼叫
+   */
+  constructor(private readonly apply: (command: string, visible: boolean) => void) {}
+
+  /** 依目前項目重建條件並重新計算；只有項目使用 when 時才訂閱事件 */
+  public sync(items: Array<{ command: string; when?: string }>) {
+    const previous = new Set(this.clauses.keys());
+    this.clauses.clear();
+    for (const item of items) {
+      const src = item.when?.trim();
+      if (!src) { continue; }
+      try {
+        this.clauses.set(item.command, parseWhen(src));
+      } catch (e: any) {
+        console.warn(`[SBH] invalid when clause for ${item.command}: ${e?.message || e}`);
+        this.clauses.set(item.command, null);
+      }
+    }
+    // 不再有條件的項目恢復顯示
+    for (const command of previous) {
+      if (!this.clauses.has(command) && this.results.get(command) === false) { this.apply(command, true); }
+      if (!this.clauses.has(command)) { this.results.delete(command); }
+    }
+    if (this.clauses.size && !this.subscriptions.length) { this.subscribe(); }
+    if (!this.clauses.size && this.subscriptions.length) { this.unsubscribe(); }
+    this.evaluateAll(true);
+  }
+
+  /** 腳本自訂的 context key（v1.context.set）；undefined = 刪除 */
+  public setContext(key: string, value: unknown) {
+    if (value === undefined) { this.custom.delete(key); } else { this.custom.set(key, value); }
+    vscode.commands.executeCommand('setContext', CONTEXT_KEY_PREFIX + key, value).then(undefined, () => {});
+    this.evaluateAll(false);
+  }
+
+  public getContext(key: string): unknown {
+    return this.custom.get(key);
+  }
+
+  public contextKeys(): string[] {
+    return Array.from(this.custom.keys());
+  }
+
+  /** 計算任意運算式（編輯頁的測試器、v1.context.evaluate）；workspaceContains 會等查詢完成 */
+  public async evaluate(src: string): Promise<WhenResult> {
+    const context = this.snapshot();
+    let node: WhenNode;
+    try {
+      node = parseWhen(src.trim() || 'true');
+    } catch (e: any) {
+      return { value: false, error: e?.message || String(e), context };
+    }
+    const globs = new Set<string>();
+    collectGlobs(node, globs);
+    for (const glob of globs) {
+      if (this.globs.get(glob) === undefined) { this.globs.set(glob, await this.findGlob(glob)); }
+      context[WORKSPACE_CONTAINS + glob] = this.globs.get(glob);
+    }
+    return { value: evaluateWhen(node, this.ctx()), context };
+  }
+
+  public dispose() {
+    this.unsubscribe();
+    this.clauses.clear();
+    this.results.clear();
+  }
+
+  // ── internal ─────────────────────────────────────────────
+  private evaluateAll(force: boolean) {
+    const ctx = this.ctx();
+    for (const [command, node] of this.clauses) {
+      const value = node ? evaluateWhen(node, ctx) : true;
+      if (!force && this.results.get(command) === value) { continue; }
+      this.results.set(command, value);
+      this.apply(command, value);
+    }
+  }
+
+  private ctx(): WhenContext {
+    const values = this.snapshot();
+    return {
+      get: key => values[key],
+      workspaceContains: glob => this.workspaceContains(glob),
+    };
+  }
+
+  /**
+   * 目前的 context 值。焦點移到 webview / 輸出面板時 activeTextEditor 會變成 undefined，
+   * 編輯器相關的 key 改用最後一個文字編輯器，避免項目隨焦點閃爍。
+   */
+  private snapshot(): Record<string, unknown> {
+    const editor = vscode.window.activeTextEditor ?? this.lastEditor;
+    const doc = editor?.document;
+    const uri = doc?.uri;
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    const out: Record<string, unknown> = {
+      editorIsOpen: !!doc,
+      editorLangId: doc?.languageId,
+      resourceLangId: doc?.languageId,
+      resourceScheme: uri?.scheme,
+      resourceFilename: uri ? path.posix.basename(uri.path) : undefined,
+      resourceExtname: uri ? path.posix.extname(uri.path) : undefined,
+      resourcePath: uri?.path,
+      workspaceFolderCount: folders.length,
+      workbenchState: vscode.workspace.workspaceFile ? 'workspace' : folders.length ? 'folder' : 'empty',
+      isWorkspaceTrusted: vscode.workspace.isTrusted,
+      remoteName: vscode.env.remoteName,
+      isWindows: process.platform === 'win32',
+      isMac: process.platform === 'darwin',
+      isLinux: process.platform === 'linux',
+    };
+    for (const [key, value] of this.custom) { out[CONTEXT_KEY_PREFIX + key] = value; }
+    return out;
+  }
+
+  private workspaceContains(glob: string): boolean {
+    if (this.globs.has(glob)) { return this.globs.get(glob) ?? false; }
+    this.globs.set(glob, undefined);
+    this.findGlob(glob).then(found => {
+      if (!this.globs.has(glob)) { return; }
+      this.globs.set(glob, found);
+      this.evaluateAll(false);
+    });
+    return false;
+  }
+
+  private async findGlob(glob: string): Promise<boolean> {
+    if (!vscode.workspace.workspaceFolders?.length) { return false; }
+    try {
+      return (await vscode.workspace.findFiles(glob, FIND_EXCLUDE, 1)).length > 0;
+    } catch (e) {
+      console.warn(`[SBH] workspaceContains:${glob} failed:`, e);
+      return false;
+    }
+  }
+
+  /** 檔案增刪或工作區變動後重新查詢 workspaceContains */
+  private scheduleRefresh() {
+    if (this.refreshTimer) { clearTimeout(this.refreshTimer); }
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.globs.clear();
+      this.evaluateAll(false);
+    }, REFRESH_DELAY_MS);
+  }
+
+  private subscribe() {
+    const refresh = () => this.scheduleRefresh();
+    this.subscriptions.push(
+      vscode.window.onDidChangeActiveTextEditor(editor => {
+        if (editor) { this.lastEditor = editor; }
+        this.evaluateAll(false);
+      }),
+      // 變更語言模式 = 關閉後以新語言重新開啟
+      vscode.workspace.onDidOpenTextDocument(doc => {
+        if (doc === vscode.window.activeTextEditor?.document) { this.evaluateAll(false); }
+      }),
+      vscode.workspace.onDidCloseTextDocument(doc => {
+        if (doc === this.lastEditor?.document) { this.lastEditor = vscode.window.activeTextEditor; this.evaluateAll(false); }
+      }),
+      vscode.workspace.onDidChangeWorkspaceFolders(refresh),
+      vscode.workspace.onDidGrantWorkspaceTrust(() => this.evaluateAll(false)),
+      vscode.workspace.onDidCreateFiles(refresh),
+      vscode.workspace.onDidDeleteFiles(refresh),
+      vscode.workspace.onDidRenameFiles(refresh),
+    );
+  }
+
+  private unsubscribe() {
+    if (this.refreshTimer) { clearTimeout(this.refreshTimer); this.refreshTimer = null; }
+    this.subscriptions.forEach(d => { try { d.dispose(); } catch {} });
+    this.subscriptions = [];
+  }
+}
@@ -0,0 +1,435 @@
+// src/worker/scriptWorker.ts
+// isolation: 'worker' 模式的執行端：在 worker_threads 內以 vm 執行腳本。
+// statusBarHelper.v1.* 與受限的 vscode facade 一律經由 parentPort 轉送回 host，
+// 由 host 以既有的 _bridge {ns, fn, args} 協定處理，因此 CPU 密集的腳本不會卡住 extension host。
+import { parentPort, workerData } from 'worker_threads';
+import * as vm from 'vm';
+import * as fs from 'fs';
+import * as path from 'path';
+import { buildSbhApi, BridgeCall, formatLogArg, StateWatchEvent, StorageChangeEvent } from '../sbhApi';
+import { SbhPermissions, checkRequire } from '../permissions';
+import { LIB_PREFIX, createLibraryRequire } from '../scriptLibraries';
+import type { TriggerPayload } from '../triggers';
+
+// ─────────────────────────────────────────────────────────────
+// host ⇄ worker 訊息格式
+// ─────────────────────────────────────────────────────────────
+export interface WorkerInit {
+  command: string;
+  /** 第 1 行為 prologue，腳本從第 2 行開始 */
+  code: string;
+  /** VM 檔名（sbh://<command>.js），錯誤位置由 host 以 source map 換算 */
+  filename: string;
+  /** globalStorage/sbh.packages/node_modules */
+  packagesRoot: string;
+  /** 與 VM 模式相同的 __dirname */
+  dirname: string;
+  /** 權限宣告（undefined = 不限制）；_bridge 由 host 檢查，require 在此檢查 */
+  permissions?: SbhPermissions;
+  /** 由事件觸發時的事件內容（vm.trigger） */
+  trigger?: TriggerPayload;
+  /** 呼叫參數（vm.args，已轉成純資料） */
+  args: unknown[];
+  /** 選擇的動作 id（vm.action） */
+  action?: string;
+  /** 腳本用到的共用函式庫（名稱 → CommonJS 程式碼，含間接 import） */
+  libraries?: Record<string, string>;
+}
+
+/** host → worker */
+export type ToWorker =
+  /** code：vm.request 失敗的原因（VmRequestError.code） */
+  | { type: 'result'; id: number; ok: boolean; data?: any; error?: string; code?: string }
+  | { type: 'message'; from: string; message: any }
+  /** 其他 VM 對 vm.handle 註冊的 method 發出的 request */
+  | { type: 'request'; id: number; from: string; method: string; payload: any }
+  | { type: 'cancelRequest'; id: number }
+  /** vm.subscribe 相符的 topic 訊息 */
+  | { type: 'topic'; subId: number; topic: string; message: any; from: string }
+  /** state.watch 相符的變動 */
+  | { type: 'state'; watchId: number; key: string; value: any; oldValue: any; from?: string }
+  /** storage.*.onDidChange 相符的變動 */
+  | { type: 'storage'; watchId: number; key: string; value: any; oldValue: any; from?: string }
+  | { type: 'abort'; reason: any };
+
+/** worker → host */
+export type FromWorker =
+  | { type: 'call'; id: number; ns: string; fn: string; args: any[] }
+  | { type: 'log'; level: 'log' | 'debug' | 'info' | 'warn' | 'error'; args: string[] }
+  | { type: 'response'; id: number; ok: boolean; data?: any; error?: string }
+  | { type: 'done'; code: number; error?: { message: string; stack?: string } }
+  /** 頂層程式已結束，且沒有留下計時器、監聽或進行中的呼叫（trigger / schedule 來源由 host 自動停止） */
+  | { type: 'idle' }
+  | { type: 'stop'; reason: any };
+
+// 被 host 以 import type 參照時不會載入；僅在 worker thread 內執行
+if (parentPort) {
+  runWorker(parentPort, workerData as WorkerInit);
+}
+
+function runWorker(port: NonNullable<typeof parentPort>, init: WorkerInit) {
+  const { command, code, packagesRoot, permissions } = init;
+  const abort = new AbortController();
+  const signal = abort.signal;
+  const post = (m: FromWorker) => port.postMessage(m);
+
+  // ---- bridge 傳輸：每個呼叫帶 id，等待 host 回覆 result ----
+  let seq = 0;
+  const pending = new Map<number, { resolve: (v: any) => void; reject: (e: Error) => void }>();
+  const call: BridgeCall = (ns, fn, ...args) => new Promise((resolve, reject) => {
+    if (signal.aborted) { reject(new Error('Execution stopped')); return; }
+    const id = ++seq;
+    pending.set(id, { resolve, reject });
+    try {
+      post({ type: 'call', id, ns, fn, args });
+    } catch (e) {
+      // 參數無法 structured clone（例如傳入函式）
+      pending.delete(id);
+      reject(e as Error);
+    }
+  });
+
+  const unavailable = (name: string) => () => {
+    throw new Error(`${name} is not available in worker isolation`);
+  };
+
+  const assertRequire = (name: string, kind: 'builtin' | 'package') => {
+    const denied = permissions && checkRequire(permissions, name, kind);
+    if (denied) { throw new Error(`Permission denied: ${denied}`); }
+  };
+
+  // ---- console → host（由 host 寫入腳本日誌，並決定是否轉給設定面板） ----
+  const forward = (level: 'log' | 'debug' | 'info' | 'warn' | 'error') =>
+    (...args: any[]) => {
+      try { post({ type: 'log', level, args: args.map(formatLogArg) }); } catch {}
+    };
+  const consoleProxy = {
+    ...console,
+    log: forward('log'),
+    debug: forward('debug'),
+    info: forward('info'),
+    warn: forward('warn'),
+    error: forward('error'),
+  } as Console;
+
+  // ---- 受限的 vscode facade：僅提供參數/回傳值可序列化的 API ----
+  const vscodeFacade = {
+    window: {
+      showInformationMessage: (...a: any[]) => call('vscode', 'window.showInformationMessage', ...a),
+      showWarningMessage:     (...a: any[]) => call('vscode', 'window.showWarningMessage', ...a),
+      showErrorMessage:       (...a: any[]) => call('vscode', 'window.showErrorMessage', ...a),
+    },
+    commands: {
+      executeCommand: (id: string, ...a: any[]) => call('vscode', 'commands.executeCommand', id, ...a),
+    },
+    env: {
+      clipboard: {
+        readText:  () => call('vscode', 'env.clipboard.readText'),
+        writeText: (text: string) => call('vscode', 'env.clipboard.writeText', text),
+      },
+      openExternal: (uri: any) => call('vscode', 'env.openExternal', String(uri)),
+    },
+  };
+
+  // ---- statusBarHelper.v1 ----
+  const api = buildSbhApi(call);
+  api.v1.sidebar = {
+    open: unavailable('sidebar.open'),
+    postMessage: unavailable('sidebar.postMessage'),
+    onMessage: unavailable('sidebar.onMessage'),
+    close: unavailable('sidebar.close'),
+    onClose: unavailable('sidebar.onClose'),
+  };
+  api.v1.explorerAction = { register: unavailable('explorerAction.register') };
+  api.v1.packages.require = <T = any>(name: string): T => {
+    if (!name || typeof name !== 'string') { throw new Error('Package name is required'); }
+    assertRequire(name, 'package');
+    const pkgPath = path.join(packagesRoot, name);
+    if (!fs.existsSync(pkgPath)) { throw new Error(`Package ${name} is not installed`); }
+    return require(pkgPath);
+  };
+
+  const messageHandlers = new Set<(from: string, message: any) => void>();
+  let subscribed = false;
+  const requestHandlers = new Map<string, (payload: any, ctx: { from: string; signal: AbortSignal }) => any>();
+  /** 處理中的 request（id → 取消用的 AbortController） */
+  const incoming = new Map<number, AbortController>();
+  let topicSeq = 0;
+  const topicHandlers = new Map<number, (message: any, topic: string, from: string) => void>();
+  let watchSeq = 0;
+  const timers = new Set<NodeJS.Timeout>();
+  let topLevelDone = false;
+  let idlePosted = false;
+  const checkIdle = () => {
+    if (!topLevelDone || idlePosted || signal.aborted) { return; }
+    if (timers.size || pending.size || incoming.size || messageHandlers.size || requestHandlers.size
+      || topicHandlers.size || stateWatchers.size || storageWatchers.size) { return; }
+    idlePosted = true;
+    try { post({ type: 'idle' }); } catch {}
+  };
+  const stateWatchers = new Map<number, (value: any, e: StateWatchEvent) => void>();
+  api.v1.state.watch = (key: string, handler: (value: any, e: StateWatchEvent) => void) => {
+    if (typeof handler !== 'function') { return () => {}; }
+    const watchId = ++watchSeq;
+    stateWatchers.set(watchId, handler);
+    call('state', 'watch', watchId, key).catch(() => { stateWatchers.delete(watchId); });
+    return () => {
+      if (!stateWatchers.delete(watchId)) { return; }
+      call('state', 'unwatch', watchId).catch(() => {});
+      checkIdle();
+    };
+  };
+  // storage.*.onDidChange(key?, handler)：與 state.watch 共用 watchId 序號
+  const storageWatchers = new Map<number, (e: StorageChangeEvent) => void>();
+  const onStorageChange = (scope: 'global' | 'workspace', scoped: boolean) => (keyOrHandler: any, maybeHandler?: (e: StorageChangeEvent) => void) => {
+    const [key, handler] = typeof keyOrHandler === 'function' ? [undefined, keyOrHandler] : [String(keyOrHandler), maybeHandler];
+    if (typeof handler !== 'function') { return () => {}; }
+    const watchId = ++watchSeq;
+    storageWatchers.set(watchId, handler);
+    call('storage', 'watch', watchId, scope, scoped, key).catch(() => { storageWatchers.delete(watchId); });
+    return () => {
+      if (!storageWatchers.delete(watchId)) { return; }
+      call('storage', 'unwatch', watchId).catch(() => {});
+      checkIdle();
+    };
+  };
+  api.v1.storage.global.onDidChange = onStorageChange('global', false);
+  api.v1.storage.workspace.onDidChange = onStorageChange('workspace', false);
+  api.v1.storage.scoped.global.onDidChange = onStorageChange('global', true);
+  api.v1.storage.scoped.workspace.onDidChange = onStorageChange('workspace', true);
+  api.v1.vm = {
+    onStop: (handler: (r: any) => void) => {
+      if (signal.aborted) { queueMicrotask(() => handler((signal as any).reason)); return () => {}; }
+      const h = () => handler((signal as any).reason);
+      signal.addEventListener('abort', h, { once: true });
+      return () => signal.removeEventListener('abort', h);
+    },
+    stop: (reason?: any) => {
+      try { post({ type: 'stop', reason: reason ?? { type: 'userStop', at: Date.now() } }); } catch {}
+    },
+    reason: () => (signal as any).reason,
+    command,
+    stopByCommand: (cmd?: string, reason?: any) => {
+      if (!cmd || cmd === command) { api.v1.vm.stop(reason); return; }
+      call('vm', 'stopByCommand', cmd, reason ?? { type: 'userStop', at: Date.now() }).catch(() => {});
+    },
+    signal,
+    sendMessage: (targetCmdId: string, message: any, opts?: { ttlMs?: number; durable?: boolean }) => {
+      if (!targetCmdId || typeof targetCmdId !== 'string') { return; }
+      const options = opts ? { ttlMs: opts.ttlMs, durable: opts.durable } : undefined;
+      call('vm', 'sendMessage', targetCmdId, message, options).catch(e => consoleProxy.error(e?.message || String(e)));
+    },
+    onMessage: (handler: (fromCmdId: string, message: any) => void) => {
+      if (typeof handler !== 'function') { return () => {}; }
+      messageHandlers.add(handler);
+      // 第一次訂閱時才請 host 註冊 handler（host 端會一併 flush 佇列中的訊息）
+      if (!subscribed) {
+        subscribed = true;
+        call('vm', 'subscribe').catch(() => {});
+      }
+      return () => { messageHandlers.delete(handler); checkIdle(); };
+    },
+    request: (targetCmdId: string, method: string, payload?: any, opts?: { timeoutMs?: number }) =>
+      call('vm', 'request', targetCmdId, method, payload, opts?.timeoutMs),
+    handle: (method: string, handler: (payload: any, ctx: { from: string; signal: AbortSignal }) => any) => {
+      if (!method || typeof method !== 'string' || typeof handler !== 'function') { return () => {}; }
+      requestHandlers.set(method, handler);
+      call('vm', 'handle', method).catch(() => {});
+      return () => {
+        if (requestHandlers.get(method) !== handler) { return; }
+        requestHandlers.delete(method);
+        call('vm', 'unhandle', method).catch(() => {});
+        checkIdle();
+      };
+    },
+    publish: (topic: string, message: any, opts?: { retain?: boolean }) => {
+      call('vm', 'publish', topic, message, Boolean(opts?.retain)).catch(e => consoleProxy.error(e?.message || String(e)));
+    },
+    subscribe: (pattern: string, handler: (message: any, topic: string, from: string) => void) => {
+      if (typeof handler !== 'function') { return () => {}; }
+      const subId = ++topicSeq;
+      topicHandlers.set(subId, handler);
+      call('vm', 'topicSubscribe', subId, pattern).catch(e => {
+        topicHandlers.delete(subId);
+        consoleProxy.error(e?.message || String(e));
+      });
+      return () => {
+        if (!topicHandlers.delete(subId)) { return; }
+        call('vm', 'topicUnsubscribe', subId).catch(() => {});
+        checkIdle();
+      };
+    },
+    open: (cmdId: string, ...payload: any[]) => call('vm', 'open', cmdId, payload[0], payload.length > 0),
+    scripts: () => call('vm', 'scripts'),
+    history: (cmd?: string) => call('vm', 'history', cmd ?? command),
+    trigger: init.trigger,
+    args: init.args,
+    action: init.action,
+  };
+
+  // ---- host 訊息 ----
+  port.on('message', (msg: ToWorker) => {
+    switch (msg.type) {
+      case 'result': {
+        const p = pending.get(msg.id);
+        if (!p) { return; }
+        pending.delete(msg.id);
+        // 呼叫端的 then 執行完才檢查（可能接著發出下一個呼叫）
+        setImmediate(checkIdle);
+        if (msg.ok) { p.resolve(msg.data); return; }
+        const error = new Error(msg.error || 'bridge error');
+        // 與 host 的 VmRequestError 相同的 name / code
+        if (msg.code) { Object.assign(error, { name: 'VmRequestError', code: msg.code }); }
+        p.reject(error);
+        return;
+      }
+      case 'request': {
+        const handler = requestHandlers.get(msg.method);
+        const ctl = new AbortController();
+        incoming.set(msg.id, ctl);
+        const reply = (m: Omit<Extract<FromWorker, { type: 'response' }>, 'type' | 'id'>) => {
+          if (!incoming.delete(msg.id)) { return; }
+          try {
+            post({ type: 'response', id: msg.id, ...m });
+          } catch (e) {
+            post({ type: 'response', id: msg.id, ok: false, error: (e as any)?.message || String(e) });
+          }
+          checkIdle();
+        };
+        Promise.resolve()
+          .then(() => {
+            if (!handler) { throw new Error(`No handler for ${msg.method}`); }
+            return handler(msg.payload, { from: msg.from, signal: ctl.signal });
+          })
+          .then(data => reply({ ok: true, data }), e => reply({ ok: false, error: e?.message ?? String(e) }));
+        return;
+      }
+      case 'topic': {
+        const handler = topicHandlers.get(msg.subId);
+        if (!handler) { return; }
+        try {
+          const r: any = handler(msg.message, msg.topic, msg.from);
+          if (r && typeof r.then === 'function') { r.then(undefined, (e: any) => consoleProxy.error('[vm topic handler error]', String(e))); }
+        } catch (e) {
+          consoleProxy.error('[vm topic handler error]', String(e));
+        }
+        return;
+      }
+      case 'state': {
+        const handler = stateWatchers.get(msg.watchId);
+        if (!handler) { return; }
+        try {
+          const r: any = handler(msg.value, { key: msg.key, oldValue: msg.oldValue, from: msg.from });
+          if (r && typeof r.then === 'function') { r.then(undefined, (e: any) => consoleProxy.error('[state watch error]', String(e))); }
+        } catch (e) {
+          consoleProxy.error('[state watch error]', String(e));
+        }
+        return;
+      }
+      case 'storage': {
+        const handler = storageWatchers.get(msg.watchId);
+        if (!handler) { return; }
+        try {
+          const r: any = handler({ key: msg.key, value: msg.value, oldValue: msg.oldValue, from: msg.from });
+          if (r && typeof r.then === 'function') { r.then(undefined, (e: any) => consoleProxy.error('[storage watch error]', String(e))); }
+        } catch (e) {
+          consoleProxy.error('[storage watch error]', String(e));
+        }
+        return;
+      }
+      case 'cancelRequest': {
+        const ctl = incoming.get(msg.id);
+        incoming.delete(msg.id);
+        try { ctl?.abort(); } catch {}
+        return;
+      }
+      case 'message': {
+        for (const h of messageHandlers) {
+          try { h(msg.from, msg.message); } catch (e) { consoleProxy.error('[vm message handler error]', String(e)); }
+        }
+        return;
+      }
+      case 'abort': {
+        if (signal.aborted) { return; }
+        abort.abort(msg.reason);
+        for (const p of pending.values()) { p.reject(new Error('Execution stopped')); }
+        pending.clear();
+        for (const ctl of incoming.values()) { try { ctl.abort(msg.reason); } catch {} }
+        incoming.clear();
+        return;
+      }
+    }
+  });
+
+  const requireLibrary = createLibraryRequire(
+    name => {
+      const lib = init.libraries?.[name];
+      if (lib === undefined) { throw new Error(`Library not found: ${LIB_PREFIX}${name}`); }
+      return lib;
+    },
+    (source, runOptions) => vm.runInContext(source, sandbox, runOptions),
+    (m: string) => sandbox.require(m)
+  );
+
+  const sandbox: any = {
+    console: consoleProxy,
+    __dirname: init.dirname,
+    require: (m: string) => {
+      if (m === 'vscode') { return vscodeFacade; }
+      if (m.startsWith(LIB_PREFIX)) { return requireLibrary(m.slice(LIB_PREFIX.length)); }
+      // Node 內建模組
+      if (require.resolve(m) === m) { assertRequire(m, 'builtin'); return require(m); }
+      // 嘗試從 globalStorage/sbh.packages/node_modules 載入
+      assertRequire(m, 'package');
+      try {
+        const pkgPath = path.join(packagesRoot, m);
+        if (fs.existsSync(pkgPath)) {
+          return require(pkgPath);
+        }
+      } catch {}
+      return require(m);
+    },
+    // 追蹤計時器：都結束後才算 idle
+    setTimeout: (cb: any, ...rest: any[]) => {
+      const h: NodeJS.Timeout = setTimeout((...a: any[]) => {
+        timers.delete(h);
+        let r: any;
+        try { r = typeof cb === 'function' ? cb(...a) : undefined; } finally {
+          if (r && typeof r.then === 'function') { r.then(checkIdle, checkIdle); } else { checkIdle(); }
+        }
+      }, ...rest);
+      timers.add(h);
+      return h;
+    },
+    setInterval: (...a: Parameters<typeof setInterval>) => {
+      const h = setInterval(...a);
+      timers.add(h);
+      return h;
+    },
+    clearTimeout: (h: any) => { timers.delete(h); clearTimeout(h); checkIdle(); },
+    clearInterval: (h: any) => { timers.delete(h); clearInterval(h); checkIdle(); },
+  };
+  for (const [name, mod, value] of [['fs', 'fs', fs], ['process', 'process', process], ['path', 'path', path], ['Buffer', 'buffer', Buffer]] as const) {
+    Object.defineProperty(sandbox, name, {
+      configurable: true, enumerable: true,
+      get() { assertRequire(mod, 'builtin'); return value; }
+    });
+  }
+  sandbox.vscode = vscodeFacade;
+  sandbox.sbh = sandbox.statusBarHelper = sandbox.SBH = api;
+  sandbox.__sbhDone = (exitCode: number, e?: any) => {
+    const error = e === undefined ? undefined
+      : { message: String(e?.message ?? e), stack: e?.stack ? String(e.stack) : undefined };
+    try { post({ type: 'done', code: exitCode, error }); } catch {}
+    topLevelDone = true;
+    checkIdle();
+  };
+
+  // 與 VM 模式相同的包裝：resolve / reject 都會呼叫 __sbhDone；code 從第 2 行開始（lineOffset -1）
+  const wrapped =
+    `(async()=>{try{${code}\n}catch(e){console.error('❌',e&&(e.stack||e.message||e));throw e}})()
+      .then(()=>{try{__sbhDone?.(0)}catch{}})
+      .catch((e)=>{try{__sbhDone?.(1,e)}catch{}})`;
+
+  vm.runInNewContext(wrapped, sandbox, { filename: init.filename, lineOffset: -1 });
+}
@@ -0,0 +1,236 @@
+// src/workspaceItems.ts
+// 工作區項目：從每個 workspace folder 的 .vscode/ 讀取，和 globalState 的項目合併顯示。
+// - .vscode/status-bar-helper.json：{ items: SbhItem[] } 或 SbhItem[]；script 可改用 scriptFile（相對於 .vscode/，不可離開 workspace folder）
+// - .vscode/status-bar-helper/*.js|*.ts：每個檔案一個項目（.ts = TypeScript 項目），開頭的 `// @text` / `// @tooltip` / `// @command` 註解為設定
+// 僅在受信任的工作區載入；檔案變更時自動重新載入，方便團隊把按鈕 commit 進 repo。
+// 會自動執行的項目（enableOnInit / schedule / triggers）需使用者逐項允許，腳本或設定變更後重新詢問。
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import { SbhItem, toManifestMeta } from './globalStateManager';
+import { localize } from './nls';
+
+export const WORKSPACE_ITEMS_FILE = '.vscode/status-bar-helper.json';
+export const WORKSPACE_SCRIPTS_DIR = '.vscode/status-bar-helper';
+const WATCH_GLOB = '.vscode/{status-bar-helper.json,status-bar-helper/*.{js,ts}}';
+const RELOAD_DELAY_MS = 300;
+const fsp = fs.promises;
+
+export interface WorkspaceItem extends SbhItem {
+  /** 所屬 workspace folder 名稱 */
+  workspaceFolder: string;
+  /** 定義此項目的檔案（fsPath） */
+  file: string;
+}
+
+export type AutorunKind = 'startup' | 'schedule' | 'triggers';
+
+export const isWorkspaceItem = (item: SbhItem): item is WorkspaceItem =>
+  typeof (item as WorkspaceItem).workspaceFolder === 'string';
+
+/** 項目會自動執行的方式；空陣列 = 只會手動執行 */
+export function autorunKinds(item: SbhItem): AutorunKind[] {
+  const kinds: AutorunKind[] = [];
+  if (item.enableOnInit) { kinds.push('startup'); }
+  if (item.schedule) { kinds.push('schedule'); }
+  if (item.triggers?.length) { kinds.push('triggers'); }
+  return kinds;
+}
+
+/** 允許紀錄的 key：定義檔 + command */
+export const autorunId = (item: WorkspaceItem) => `${item.file}#${item.command}`;
+
+/** 腳本或自動執行設定改變時 fingerprint 隨之改變，需重新允許 */
+export function autorunFingerprint(item: WorkspaceItem): string {
+  const payload = JSON.stringify([item.script, item.language, !!item.enableOnInit, item.schedule, item.triggers]);
+  return crypto.createHash('sha256').update(payload, 'utf8').digest('hex');
+}
+
+const decoder = new TextDecoder();
+
+async function readText(uri: vscode.Uri): Promise<string | undefined> {
+  try {
+    return decoder.decode(await vscode.workspace.fs.readFile(uri));
+  } catch {
+    return undefined;
+  }
+}
+
+const isInside = (root: string, p: string, sep: string) => p.startsWith(root.endsWith(sep) ? root : root + sep);
+
+/**
+ * scriptFile（相對於 .vscode/）→ Uri；絕對路徑、含 `..` 或解析後不在 workspace folder 內時回傳 undefined
+ * 本機檔案另以 realpath 比對，symlink 指向資料夾外也會拒絕
+ */
+export async function resolveScriptFile(folder: vscode.WorkspaceFolder, rel: string): Promise<vscode.Uri | undefined> {
+  if (!rel || path.posix.isAbsolute(rel) || path.win32.isAbsolute(rel) || rel.split(/[\\/]/).includes('..')) { return undefined; }
+  const uri = vscode.Uri.joinPath(folder.uri, '.vscode', rel);
+  if (!isInside(folder.uri.path, uri.path, '/')) { return undefined; }
+  if (uri.scheme !== 'file') { return uri; }
+  try {
+    const [root, real] = await Promise.all([fsp.realpath(folder.uri.fsPath), fsp.realpath(uri.fsPath)]);
+    return isInside(root, real, path.sep) ? uri : undefined;
+  } catch {
+    // 檔案不存在：讀取時自然得到空白腳本
+    return uri;
+  }
+}
+
+/** command 片段：只保留英數字、-、_ */
+const slug = (s: string) => s.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'item';
+
+/** .js 檔開頭的 `// @key value` 設定 */
+function parseHeader(code: string): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const line of code.split(/\r?\n/)) {
+    const t = line.trim();
+    if (!t) { continue; }
+    const m = /^\/\/\s*@(\w+)\s+(.*)$/.exec(t);
+    if (!m) {
+      if (t.startsWith('//')) { continue; }
+      break;
+    }
+    out[m[1]] = m[2].trim();
+  }
+  return out;
+}
+
+export class WorkspaceItemSource {
+  private items: WorkspaceItem[] = [];
+  private disposables: vscode.Disposable[] = [];
+  private watchers: vscode.Disposable[] = [];
+  private reloadTimer: NodeJS.Timeout | null = null;
+
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  /** 工作區項目重新載入 */
+  public readonly onDidChange = this._onDidChange.event;
+
+  public async start() {
+    this.disposables.push(
+      vscode.workspace.onDidChangeWorkspaceFolders(() => { this.watch(); this.scheduleReload(); }),
+      vscode.workspace.onDidGrantWorkspaceTrust(() => { this.watch(); this.scheduleReload(); }),
+    );
+    this.watch();
+    await this.reload();
+  }
+
+  /** 目前的工作區項目（依 folder 順序，同 command 只保留第一個） */
+  public list(): WorkspaceItem[] {
+    return this.items;
+  }
+
+  public dispose() {
+    if (this.reloadTimer) { clearTimeout(this.reloadTimer); this.reloadTimer = null; }
+    [...this.watchers, ...this.disposables].forEach(d => { try { d.dispose(); } catch {} });
+    this.watchers = [];
+    this.disposables = [];
+    this._onDidChange.dispose();
+  }
+
+  // ── internal ─────────────────────────────────────────────
+  private watch() {
+    this.watchers.forEach(d => { try { d.dispose(); } catch {} });
+    this.watchers = [];
+    if (!vscode.workspace.isTrusted) { return; }
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      const w = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, WATCH_GLOB));
+      const onChange = () => this.scheduleReload();
+      this.watchers.push(w, w.onDidCreate(onChange), w.onDidChange(onChange), w.onDidDelete(onChange));
+    }
+  }
+
+  private scheduleReload() {
+    if (this.reloadTimer) { clearTimeout(this.reloadTimer); }
+    this.reloadTimer = setTimeout(() => {
+      this.reloadTimer = null;
+      this.reload().catch(e => console.warn('[SBH] failed to reload workspace items:', e));
+    }, RELOAD_DELAY_MS);
+  }
+
+  private async reload() {
+    const next: WorkspaceItem[] = [];
+    if (vscode.workspace.isTrusted) {
+      const seen = new Set<string>();
+      for (const folder of vscode.workspace.workspaceFolders ?? []) {
+        const loaded = [...await this.loadJson(folder), ...await this.loadScripts(folder)];
+        for (const item of loaded) {
+          if (seen.has(item.command)) {
+            console.warn(`[SBH] duplicate workspace item command ignored: ${item.command} (${item.file})`);
+            continue;
+          }
+          seen.add(item.command);
+          next.push(item);
+        }
+      }
+    }
+    const changed = JSON.stringify(next) !== JSON.stringify(this.items);
+    this.items = next;
+    if (changed) { this._onDidChange.fire(); }
+  }
+
+  private async loadJson(folder: vscode.WorkspaceFolder): Promise<WorkspaceItem[]> {
+    const uri = vscode.Uri.joinPath(folder.uri, WORKSPACE_ITEMS_FILE);
+    const text = await readText(uri);
+    if (text === undefined) { return []; }
+    let raw: any;
+    try {
+      raw = JSON.parse(text);
+    } catch (e: any) {
+      vscode.window.showWarningMessage(localize('msg.workspaceItemsInvalid', 'Status Bar Helper: cannot read {0}: {1}', uri.fsPath, e?.message || String(e)));
+      return [];
+    }
+    const list = Array.isArray(raw) ? raw : (Array.isArray(raw?.items) ? raw.items : []);
+    const out: WorkspaceItem[] = [];
+    for (const entry of list) {
+      if (!entry || typeof entry !== 'object' || typeof entry.command !== 'string' || !entry.command.trim() || typeof entry.text !== 'string') {
+        console.warn(`[SBH] invalid workspace item in ${uri.fsPath}:`, entry);
+        continue;
+      }
+      let script = typeof entry.script === 'string' ? entry.script : '';
+      if (!script && typeof entry.scriptFile === 'string') {
+        const scriptUri = await resolveScriptFile(folder, entry.scriptFile);
+        if (!scriptUri) {
+          vscode.window.showWarningMessage(localize('msg.workspaceScriptFileRejected', 'Status Bar Helper: {0} ignored scriptFile "{1}": the path must stay inside the workspace folder.', uri.fsPath, entry.scriptFile));
+          continue;
+        }
+        script = await readText(scriptUri) ?? '';
+      }
+      out.push(this.toItem(folder, uri, { ...entry, command: entry.command.trim() }, script));
+    }
+    return out;
+  }
+
+  private async loadScripts(folder: vscode.WorkspaceFolder): Promise<WorkspaceItem[]> {
+    const dir = vscode.Uri.joinPath(folder.uri, WORKSPACE_SCRIPTS_DIR);
+    let entries: [string, vscode.FileType][] = [];
+    try { entries = await vscode.workspace.fs.readDirectory(dir); } catch { return []; }
+    const out: WorkspaceItem[] = [];
+    for (const [name, type] of entries.sort((a, b) => a[0].localeCompare(b[0]))) {
+      const ext = path.extname(name);
+      if (type !== vscode.FileType.File || (ext !== '.js' && ext !== '.ts') || name.endsWith('.d.ts')) { continue; }
+      const uri = vscode.Uri.joinPath(dir, name);
+      const script = await readText(uri);
+      if (script === undefined) { continue; }
+      const base = path.basename(name, ext);
+      const header = parseHeader(script);
+      out.push(this.toItem(folder, uri, {
+        command: header.command || `sbh.ws.${slug(folder.name)}.${slug(base)}`,
+        text: header.text || `$(file-code) ${base}`,
+        tooltip: header.tooltip || `${WORKSPACE_SCRIPTS_DIR}/${name}`,
+        language: ext === '.ts' ? 'ts' : undefined,
+      }, script));
+    }
+    return out;
+  }
+
+  /** 欄位正規化與 globalState 項目相同（toManifestMeta） */
+  private toItem(folder: vscode.WorkspaceFolder, file: vscode.Uri, raw: any, script: string): WorkspaceItem {
+    return {
+      ...toManifestMeta({ ...raw, script }),
+      script,
+      workspaceFolder: folder.name,
+      file: file.fsPath,
+    };
+  }
+}
@@ -1,5 +1,16 @@
 /**
  * StatusBarHelper API definition
+ *
+ * Scripts with `isolation: 'worker'` run in a worker thread: `storage`, `files`, `secret`,
+ * `packages` and `vm` work the same, while `sidebar` / `explorerAction` are unavailable and
+ * `require('vscode')` only exposes `window.show*Message`, `commands.executeCommand`,
+ * `env.clipboard` and `env.openExternal`.
+ *
+ * Scripts that declare `permissions` only get what they list: other `files` scopes, `secret`
+ * keys, `packages`, network modules and Node built-ins reject with `Permission denied: …`.
+ * Their `vscode` object only covers the public API: commands of other extensions need
+ * `commands`, `workspace.fs` needs the `fs` module, `env.openExternal` needs `network`, and
+ * terminals / tasks need `child_process`.
  */
 interface StatusBarHelper {
   
@@ -16,6 +27,12 @@ interface StatusBarHelper {
         remove(key: string): Promise<void>;
         /** Get all keys in global storage */
         keys(): Promise<string[]>;
+        /**
+         * Called when a key (or, without `key`, any key) changes: writes from any script or the settings panel,
+         * and — checked periodically — writes from other windows or synced devices.
+         * Stops automatically when this VM stops; returns a function that stops listening.
+         */
+        onDidChange: StorageOnDidChange;
       };
       /** Workspace storage (only available when a workspace is open) */
       workspace: {
@@ -27,6 +44,16 @@ interface StatusBarHelper {
         remove(key: string): Promise<void>;
         /** Get all keys in workspace storage */
         keys(): Promise<string[]>;
+        /** Called when a key (or any key) changes; writes from other windows are not detected */
+        onDidChange: StorageOnDidChange;
+      };
+      /**
+       * This script's own namespace (stored as `@<command>/<key>`), so keys never collide with other scripts.
+       * Same methods as `global` / `workspace`; keys and change events are relative to the namespace.
+       */
+      scoped: {
+        global: ScopedStorage;
+        workspace: ScopedStorage;
       };
     };
     /** File operations for reading/writing files in global/workspace storage */
@@ -93,11 +120,15 @@ interface StatusBarHelper {
       *   - html     HTML content to load (default: blank page)
       *   - focus    Whether to focus the sidebar after loading (default: true)
       *   - onClose  Per-session handler: (reason: 'closed' | 'replaced') => void
+      *   - state    `v1.state` keys forwarded to the page (`'*'` = all, trailing `*` = prefix):
+      *              each change is posted as `{ type: 'sbh:state', key, value }`; the page can post
+      *              `{ type: 'sbh:state.sync' }` (e.g. on load) to receive the current values
       */
       open(spec: {
         html?: string;
         focus?: boolean;
         onClose?: (reason: string) => void;
+        state?: string | string[];
       } | string): Promise<void>;
 
       /**
@@ -131,6 +162,9 @@ interface StatusBarHelper {
     vm: {
       /**
        * Stop the current script's VM from inside the script
+       *
+       * Runs started by `schedule` or `triggers` stop by themselves (reason `{ type: 'completed' }`)
+       * when the top-level code finishes and nothing is left running; any other run stays loaded until stopped.
        * @param reason Optional reason object or string
        */
       stop(reason?: any): void;
@@ -140,6 +174,12 @@ interface StatusBarHelper {
       onStop(cb: (reason?: any) => void): void;
       /**
        * Get the reason for stopping the VM
+       *
+       * When the host stops a script for exceeding its execution limits, the reason is
+       * `{ type: 'timeout', phase, limitMs, at }` where `phase` is one of
+       * `'bootstrap' | 'callback' | 'eventLoop' | 'total'`. `'eventLoop'` means code that ran after an
+       * `await` blocked the extension host longer than `maxSyncMs`; it is detected once the block ends,
+       * so an endless loop there still hangs the host. Use `isolation: 'worker'` for CPU-heavy scripts.
        */
       reason(): any;
       /**
@@ -157,16 +197,66 @@ interface StatusBarHelper {
       open(cmdId: string, payload?: any): Promise<void>;
       /**
       * Send a message to another running VM (or queue until it registers onMessage).
+      * Queued messages are kept when the target stops and delivered on its next run.
+      * Each target's queue holds at most `statusBarHelper.messages.queueLimit` messages; when it is full,
+      * `statusBarHelper.messages.dropPolicy` drops the oldest or the new message, or makes this call throw (`reject`).
       * @param targetCmdId Target VM command id
       * @param message Arbitrary serializable data
+      * @param options `ttlMs`: drop the message if it is still queued after this many ms;
+      * `durable`: persist the queued message so it survives a window reload (must be JSON-serializable)
       */
-      sendMessage(targetCmdId: string, message: any): void;
+      sendMessage(targetCmdId: string, message: any, options?: { ttlMs?: number; durable?: boolean }): void;
       /**
       * Listen for messages coming from other VMs. Returns an unsubscribe function.
       */
       onMessage(handler: (fromCmdId: string, message: any) => void): () => void;
       /**
-       * Get all registered scripts (command, text, tooltip)
+       * Call a method registered with `vm.handle` in another running VM and wait for its reply.
+       * If the target is running but has not registered the method yet, the request waits for it (counted against the timeout).
+       * Rejects with an error whose `name` is `'VmRequestError'` and whose `code` is:
+       * - `'notRunning'`: the target VM is not running
+       * - `'timeout'`: no reply within `timeoutMs` (default 10000; `0` waits indefinitely)
+       * - `'canceled'`: this VM was stopped while waiting
+       * - `'targetStopped'`: the target VM stopped before replying
+       * - `'handlerError'`: the handler threw (the message is the handler's error message)
+       *
+       * @example
+       * ```typescript
+       * try {
+       *   const branch = await sbh.v1.vm.request('git.status', 'branch', { cwd: '.' }, { timeoutMs: 2000 });
+       * } catch (e) {
+       *   if (e.code === 'notRunning') { await sbh.v1.vm.open('git.status'); }
+       * }
+       * ```
+       */
+      request<T = any>(targetCmdId: string, method: string, payload?: any, options?: { timeoutMs?: number }): Promise<T>;
+      /**
+       * Handle `vm.request` calls for a method (replaces an earlier handler for the same method).
+       * The return value (or resolved promise) is the reply; `ctx.signal` aborts when the caller stops or gives up.
+       * Handlers are removed when this VM stops. Returns a function that removes the handler.
+       */
+      handle(method: string, handler: (payload: any, ctx: { from: string; signal: AbortSignal }) => any): () => void;
+      /**
+       * Broadcast a message to every VM subscribed to a matching topic pattern (no need to know their command ids).
+       * Topics are `/`-separated names such as `'git/branch'` and cannot contain wildcards.
+       * With `retain: true` the message is kept as the topic's last message and delivered to VMs that subscribe later
+       * (publish `null` / `undefined` with `retain: true` to clear it).
+       *
+       * @example
+       * ```typescript
+       * sbh.v1.vm.publish('git/branch', { branch: 'main' }, { retain: true });
+       * ```
+       */
+      publish(topic: string, message: any, options?: { retain?: boolean }): void;
+      /**
+       * Receive messages published to topics matching `pattern`.
+       * `*` matches one level and `**` matches any number of levels (e.g. `'git/*'`, `'build/**'`).
+       * Retained messages for matching topics are delivered right after subscribing.
+       * The subscription ends automatically when this VM stops. Returns a function that unsubscribes.
+       */
+      subscribe(pattern: string, handler: (message: any, topic: string, fromCmdId: string) => void): () => void;
+      /**
+       * Get all registered scripts (command, text, tooltip), including workspace items
        * @returns Promise that resolves to an array of script metadata
        * 
        * @example
@@ -183,7 +273,50 @@ interface StatusBarHelper {
         command: string;
         text: string;
         tooltip?: string;
+        /** Set for items defined in a workspace folder's `.vscode/` */
+        workspaceFolder?: string;
       }>>;
+      /**
+       * Recent runs of a script, newest first (up to 20 are kept per script)
+       * @param cmd Optional command; defaults to the current script
+       *
+       * @example
+       * ```typescript
+       * const [last] = await sbh.v1.vm.history();
+       * if (last?.error) console.log('previous run failed:', last.error.message);
+       * ```
+       */
+      history(cmd?: string): Promise<RunRecord[]>;
+      /**
+       * The event that started this run when the item was launched by one of its `triggers`;
+       * `undefined` for any other origin
+       *
+       * Events are skipped while the previous run is still active. A triggered run ends by itself
+       * (reason `{ type: 'completed' }`) once its top-level code finishes without leaving timers,
+       * listeners or VS Code disposables behind; otherwise call `vm.stop()` when the work is done.
+       *
+       * @example
+       * ```typescript
+       * const t = sbh.v1.vm.trigger;
+       * if (t?.event === 'onDidSaveTextDocument') console.log('saved', t.fileName);
+       * sbh.v1.vm.stop();
+       * ```
+       */
+      readonly trigger?: TriggerPayload;
+      /**
+       * Arguments of this run: the arguments of `vscode.commands.executeCommand(command, ...args)`
+       * (keybindings, other extensions), or `[action.args]` when one of the item's `actions` was chosen;
+       * empty for a plain click
+       *
+       * @example
+       * ```typescript
+       * // executeCommand('sbh.user.deploy', { env: 'staging' })
+       * const [opts] = sbh.v1.vm.args as [{ env?: string }?];
+       * ```
+       */
+      readonly args: unknown[];
+      /** Id of the chosen item action, `undefined` when the script was not started through an action */
+      readonly action?: string;
     };
     /** File explorer right-click action integration */
     explorerAction: {
@@ -275,14 +408,69 @@ interface StatusBarHelper {
      * @see PackagesNamespace for full API documentation
      */
     packages: PackagesNamespace;
+    /**
+     * Structured logs of the current script.
+     * `console.*` output is recorded here too; entries show up in the Logs tab of the
+     * settings panel and in the script's own Output Channel (`SBH: <command>`).
+     */
+    log: LogNamespace;
+    /**
+     * The script's own status bar item (the one created from its saved settings).
+     * Changes are temporary: when the VM stops the item reverts to the saved text / tooltip / visibility.
+     */
+    item: ItemNamespace;
+    /**
+     * Custom context keys for the items' `when` clauses (referenced as `sbh.<key>`).
+     * Keys live in memory only and are also set as VS Code context keys, so keybindings can use them.
+     */
+    context: ContextNamespace;
+    /**
+     * In-memory state shared by all running scripts, with change notifications.
+     * Keys set with `persist: true` survive reloads (stored in `storage.global` as `state/<key>`).
+     */
+    state: StateNamespace;
   };
 }
 
+/** Storage change event (`value` is `undefined` when the key was removed) */
+interface StorageChangeEvent {
+  key: string;
+  value: any;
+  oldValue: any;
+  /** Command of the script that wrote it; `undefined` for the settings panel, other windows and sync */
+  from?: string;
+}
+
+interface StorageOnDidChange {
+  (handler: (e: StorageChangeEvent) => void): () => void;
+  (key: string, handler: (e: StorageChangeEvent) => void): () => void;
+}
+
+interface ScopedStorage {
+  get<T>(key: string, defaultValue?: T): Promise<T | undefined>;
+  set<T>(key: string, value: T): Promise<void>;
+  remove(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+  onDidChange: StorageOnDidChange;
+}
+
 // Global API aliases
 declare const statusBarHelper: StatusBarHelper; // Main API
 declare const sbh: StatusBarHelper;             // Short alias
 declare const SBH: StatusBarHelper;             // Uppercase alias
 
+/**
+ * Shared libraries: items with a library name are not shown in the status bar and can be
+ * imported by other scripts (exports are untyped).
+ *
+ * @example
+ * ```typescript
+ * import { gitBranch } from 'sbh:lib/git';
+ * const branch = await gitBranch();
+ * ```
+ */
+declare module 'sbh:lib/*';
+
 // ============================================================================
 // Explorer Action API Types
 // ============================================================================
@@ -390,6 +578,191 @@ interface ExplorerActionHandle {
   onDispose(callback: () => void): { dispose(): void };
 }
 
+// ============================================================================
+// Status Bar Item Types
+// ============================================================================
+
+/**
+ * Control over the script's own status bar item.
+ * Every method resolves to `true` when the item exists (it does not while running an unsaved script from the settings panel).
+ * Changes are undone when the script is stopped; a script that finishes by itself keeps them until its next run starts.
+ *
+ * @example Show progress while a long task runs
+ * ```typescript
+ * const { item } = sbh.v1;
+ * await item.setBusy(true);
+ * await item.setText('Building…');
+ * try {
+ *   await build();
+ *   await item.setText('$(check) Built');
+ * } catch (e) {
+ *   await item.setBackground('error');
+ *   await item.setTooltip({ markdown: `**Build failed**\n\n${e.message}` });
+ * } finally {
+ *   await item.setBusy(false);
+ * }
+ * ```
+ */
+interface ItemNamespace {
+  /** Replace the label (supports `$(icon)` syntax); `undefined` restores the saved label */
+  setText(text?: string): Promise<boolean>;
+  /** Plain text, `{ markdown }` or a `vscode.MarkdownString`; `undefined` restores the saved tooltip */
+  setTooltip(tooltip?: string | { markdown: string } | { value: string }): Promise<boolean>;
+  /** CSS color (`#ff8800`, `rgb(...)`) or theme color id (`charts.red`); `undefined` clears it */
+  setColor(color?: string): Promise<boolean>;
+  /** Warning / error background; `undefined` clears it */
+  setBackground(background?: 'warning' | 'error'): Promise<boolean>;
+  /** Show a spinner in front of the label (default `true`) */
+  setBusy(busy?: boolean): Promise<boolean>;
+  /** Show the item even if it is saved as hidden */
+  show(): Promise<boolean>;
+  /** Hide the item until the VM stops */
+  hide(): Promise<boolean>;
+  /** Drop all changes and restore the saved values now */
+  reset(): Promise<boolean>;
+}
+
+/**
+ * Context keys for `when` clauses
+ *
+ * @example
+ * ```javascript
+ * // item `when`: sbh.testsAvailable && editorLangId == typescript
+ * const { context, files } = statusBarHelper.v1;
+ * await context.set('testsAvailable', await files.exists('workspace', 'jest.config.js'));
+ * ```
+ */
+interface ContextNamespace {
+  /** Set `sbh.<key>`; `undefined` / `null` removes it. Keys may contain letters, digits, `_`, `.` and `-` */
+  set(key: string, value: unknown): Promise<void>;
+  get(key: string): Promise<unknown>;
+  /** Keys set so far (without the `sbh.` prefix) */
+  keys(): Promise<string[]>;
+  /** Evaluate a `when` expression against the current editor / workspace */
+  evaluate(expr: string): Promise<{ value: boolean; error?: string; context: Record<string, unknown> }>;
+}
+
+/**
+ * Shared reactive state
+ *
+ * @example
+ * ```javascript
+ * const { state } = statusBarHelper.v1;
+ * // producer
+ * await state.update('build.count', n => (n ?? 0) + 1, { persist: true });
+ * // any other script
+ * state.watch('build.*', (value, e) => console.log(e.key, e.oldValue, '→', value));
+ * ```
+ */
+interface StateNamespace {
+  get<T = any>(key: string, defaultValue?: T): Promise<T>;
+  /**
+   * Set a value (must be structured-cloneable; JSON-serializable when persisted); `undefined` deletes the key.
+   * `persist` defaults to the key's current setting (initially `false`).
+   */
+  set(key: string, value: any, options?: { persist?: boolean }): Promise<void>;
+  /**
+   * Read-modify-write: `fn` is re-run with the new value if another script writes the key in between.
+   * Resolves to the value written (`undefined` deletes the key).
+   */
+  update<T = any>(key: string, fn: (value: T | undefined) => T | undefined | Promise<T | undefined>, options?: { persist?: boolean }): Promise<T | undefined>;
+  delete(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+  /**
+   * Called after every change of `key` (`'*'` = all keys, trailing `*` = prefix, e.g. `'git.*'`), including
+   * changes made by this script. Handlers get copies of the values. Stops automatically when this VM stops;
+   * returns a function that stops watching.
+   */
+  watch(key: string, handler: (value: any, event: { key: string; oldValue: any; from?: string }) => void): () => void;
+}
+
+// ============================================================================
+// Trigger Types
+// ============================================================================
+
+/**
+ * Event that started a triggered run (`sbh.v1.vm.trigger`)
+ */
+type TriggerPayload = { /** Time of the event (ms since epoch) */ at: number } & (
+  | { event: 'onDidSaveTextDocument'; uri: string; fileName: string; languageId: string }
+  /** `uri` etc. are missing when no editor is active */
+  | { event: 'onDidChangeActiveTextEditor'; uri?: string; fileName?: string; languageId?: string }
+  | { event: 'onDidOpenTerminal'; name: string }
+  /** `repository` is the repository root path */
+  | { event: 'onDidChangeGitBranch'; repository: string; from?: string; to?: string }
+  | { event: 'onDidChangeWindowState'; focused: boolean }
+);
+
+// ============================================================================
+// Run History Types
+// ============================================================================
+
+/**
+ * One execution of a script
+ */
+interface RunRecord {
+  id: string;
+  command: string;
+  /** Where the run was started */
+  origin: 'statusbar' | 'autorun' | 'settingsPanel' | 'schedule' | 'trigger' | 'command';
+  isolation: 'vm' | 'worker';
+  /** Start time (ms since epoch) */
+  startedAt: number;
+  /** When the top-level script body settled (the VM may keep running for timers / listeners) */
+  doneAt?: number;
+  /** 0 = body completed, 1 = body threw */
+  exitCode?: number;
+  /** When the VM was closed */
+  endedAt?: number;
+  /** Stop reason, same shape as `vm.reason()` */
+  reason?: any;
+  /** Error that failed the run (uncaught exception, timeout, worker crash) */
+  error?: { message: string; stack?: string };
+}
+
+// ============================================================================
+// Log API Types
+// ============================================================================
+
+type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * A recorded log entry
+ */
+interface LogEntry {
+  /** Increasing sequence number */
+  seq: number;
+  /** Timestamp (ms since epoch) */
+  ts: number;
+  /** Script command */
+  command: string;
+  level: LogLevel;
+  /** Where the script was started: `statusbar`, `autorun`, `settingsPanel`, `schedule`, `trigger` (or `host` for SBH messages) */
+  origin: string;
+  /** Arguments converted to strings */
+  args: string[];
+  /** Arguments joined with spaces */
+  text: string;
+}
+
+interface LogNamespace {
+  trace(...args: any[]): void;
+  debug(...args: any[]): void;
+  info(...args: any[]): void;
+  warn(...args: any[]): void;
+  error(...args: any[]): void;
+  /**
+   * Recent entries of this script (oldest first; up to 500 are kept per script)
+   * @param options.level Minimum level to include
+   * @param options.limit Return only the newest N entries
+   */
+  history(options?: { level?: LogLevel; limit?: number }): Promise<LogEntry[]>;
+  /** Remove all entries of this script */
+  clear(): Promise<boolean>;
+  /** Reveal this script's Output Channel */
+  show(): Promise<boolean>;
+}
+
 // ============================================================================
 // Packages API Types - npm Package Management
 // ============================================================================